@@ -12,10 +12,16 @@ const buildHardhatEslintCommand = (filenames) =>
     .map((f) => path.relative(path.join("packages", "hardhat"), f))
     .join(" ")}`;
 
+const buildGameCoreEslintCommand = (filenames) =>
+  `yarn game-core:lint-staged --fix ${filenames
+    .map((f) => path.relative(path.join("packages", "game-core"), f))
+    .join(" ")}`;
+
 module.exports = {
   "packages/nextjs/**/*.{ts,tsx}": [
     buildNextEslintCommand,
     checkTypesNextCommand,
   ],
   "packages/hardhat/**/*.{ts,tsx}": [buildHardhatEslintCommand],
+  "packages/game-core/**/*.ts": [buildGameCoreEslintCommand],
 };
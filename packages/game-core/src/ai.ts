@@ -0,0 +1,326 @@
+import { getSpeed } from "./car";
+import { OPEN_ARENA } from "./physics";
+import { createRng } from "./rng";
+import type { AnalogInput, Arena, Car, Controller, Vec2, WorldSnapshot } from "./types";
+import { NO_INPUT, getCar } from "./world";
+
+export type AiDifficulty = "easy" | "normal" | "hard";
+export type AiBehaviour = "chase" | "tbone" | "evade" | "recover" | "objective" | "edge";
+
+export interface AiProfile {
+  decisionInterval: number; // Ticks between decisions - the driver's reaction time
+  throttle: number; // Maximum forward input
+  steeringGain: number; // Steering input per radian of heading error
+  aimNoise: number; // Random aim error in radians
+  lookahead: number; // Ticks of target motion to lead by
+  tbone: boolean; // Whether it tries to line up side impacts
+  evadeFrontHealth: number; // Runs away when its front is weaker than this (0 never evades)
+}
+
+export const AI_PROFILES: Record<AiDifficulty, AiProfile> = {
+  easy: {
+    decisionInterval: 12,
+    throttle: 0.7,
+    steeringGain: 1.2,
+    aimNoise: 0.35,
+    lookahead: 0,
+    tbone: false,
+    evadeFrontHealth: 0,
+  },
+  normal: {
+    decisionInterval: 6,
+    throttle: 0.9,
+    steeringGain: 2,
+    aimNoise: 0.15,
+    lookahead: 10,
+    tbone: true,
+    evadeFrontHealth: 25,
+  },
+  hard: {
+    decisionInterval: 2,
+    throttle: 1,
+    steeringGain: 3,
+    aimNoise: 0.04,
+    lookahead: 20,
+    tbone: true,
+    evadeFrontHealth: 45,
+  },
+};
+
+// A place the driver should hold, such as a scoring zone. Cars inside it become the targets.
+export interface AiObjective {
+  point: Vec2;
+  radius: number;
+}
+
+export interface AiOptions {
+  getObjective?: (world: WorldSnapshot) => AiObjective | null;
+  // A car to keep away from at all costs, such as whoever's holding the bomb
+  getThreat?: (world: WorldSnapshot) => number | null;
+  // The only car worth going after, instead of whoever's nearest - a wave of bots all hunting the player
+  getTarget?: (world: WorldSnapshot) => number | null;
+}
+
+export interface AiDriver extends Controller {
+  carId: number;
+  difficulty: AiDifficulty;
+  // Behaviour chosen at the last decision, exposed for debugging and HUDs
+  readonly behaviour: AiBehaviour;
+}
+
+const STUCK_SPEED = 0.4;
+const STUCK_TICKS = 30;
+const RECOVER_TICKS = 45;
+const BACKOFF_TICKS = 30;
+const TBONE_LINEUP_DISTANCE = 110;
+const TBONE_LINEUP_REACHED = 45;
+const EVADE_THREAT_DISTANCE = 220;
+const EDGE_MARGIN = 70;
+const FLEE_DISTANCE = 150;
+
+const normalizeAngle = (angle: number) => {
+  let a = angle;
+  while (a > Math.PI) a -= 2 * Math.PI;
+  while (a < -Math.PI) a += 2 * Math.PI;
+  return a;
+};
+
+const distance = (a: Vec2, b: Vec2) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Keep aim points away from the walls so the driver doesn't plough into them chasing a point it can't reach.
+// On a platform, keep them well inside the edge instead.
+export const clampToArena = (point: Vec2, arena: Arena = OPEN_ARENA): Vec2 => {
+  const { bounds, platform } = arena;
+  if (platform) {
+    const dx = point.x - platform.x;
+    const dy = point.y - platform.y;
+    const limit = Math.max(0, platform.radius - EDGE_MARGIN);
+    const scale = Math.min(1, limit / (Math.hypot(dx, dy) || 1));
+    return { x: platform.x + dx * scale, y: platform.y + dy * scale };
+  }
+
+  const margin = 40;
+  return {
+    x: Math.max(bounds.minX + margin, Math.min(bounds.maxX - margin, point.x)),
+    y: Math.max(bounds.minY + margin, Math.min(bounds.maxY - margin, point.y)),
+  };
+};
+
+// Nearest car that's still in the fight
+const pickTarget = (world: WorldSnapshot, self: Car): Car | undefined =>
+  world.cars
+    .filter(car => car.id !== self.id && !car.wrecked)
+    .reduce<
+      Car | undefined
+    >((best, car) => (!best || distance(self, car) < distance(self, best) ? car : best), undefined);
+
+// Steer and throttle towards a point, easing off the throttle for sharp turns
+export const driveTowards = (car: Car, point: Vec2, profile: AiProfile, aimError: number): AnalogInput => {
+  const desired = Math.atan2(point.y - car.y, point.x - car.x) + aimError;
+  const headingError = normalizeAngle(desired - car.angle);
+  const steer = Math.max(-1, Math.min(1, headingError * profile.steeringGain));
+  const throttle = profile.throttle * (1 - Math.min(0.6, Math.abs(headingError) / Math.PI));
+
+  return {
+    forward: clamp01(throttle),
+    reverse: 0,
+    left: clamp01(-steer),
+    right: clamp01(steer),
+  };
+};
+
+/**
+ * Notices a driver flooring it without getting anywhere - pinned on a wall or another car - and backs it out.
+ * Returns true while the driver should be reversing. Used by the simpler mode drivers.
+ */
+export const createStuckRecovery = () => {
+  let stuckTicks = 0;
+  let recoverUntil = -1;
+
+  return (world: WorldSnapshot, self: Car, lastInput: AnalogInput): boolean => {
+    stuckTicks = lastInput.forward > 0 && getSpeed(self) < STUCK_SPEED ? stuckTicks + 1 : 0;
+    if (stuckTicks > STUCK_TICKS) {
+      stuckTicks = 0;
+      recoverUntil = world.tick + RECOVER_TICKS;
+    }
+    return world.tick < recoverUntil;
+  };
+};
+
+/**
+ * Computer driver that produces the same `AnalogInput` a human would.
+ * It re-plans every `decisionInterval` ticks and holds its input in between. Its aim noise comes from a private
+ * seeded generator, so a match against the AI replays exactly for the same seed and inputs.
+ */
+export const createAiDriver = (
+  carId: number,
+  difficulty: AiDifficulty = "normal",
+  seed = carId,
+  options: AiOptions = {},
+): AiDriver => {
+  const profile = AI_PROFILES[difficulty];
+  const random = createRng(seed);
+
+  let behaviour: AiBehaviour = "chase";
+  let input: AnalogInput = { ...NO_INPUT };
+  let nextDecisionTick = 0;
+  let stuckTicks = 0;
+  let recoverUntil = -1;
+  let recoverSteer = 1;
+  let lineupReached = false;
+
+  const plan = (world: WorldSnapshot, self: Car): AnalogInput => {
+    const targetId = options.getTarget ? options.getTarget(world) : undefined;
+    const target =
+      targetId === undefined
+        ? pickTarget(world, self)
+        : world.cars.find(car => car.id === targetId && car.id !== self.id && !car.wrecked);
+    const aimError = (random() - 0.5) * 2 * profile.aimNoise;
+
+    if (world.tick < recoverUntil) {
+      behaviour = "recover";
+      return { forward: 0, reverse: 1, left: recoverSteer < 0 ? 1 : 0, right: recoverSteer > 0 ? 1 : 0 };
+    }
+
+    if (!target) {
+      behaviour = "chase";
+      return { ...NO_INPUT };
+    }
+
+    // Drifting out towards the edge of a platform - head back for the middle before it's too late
+    const { platform } = world.arena;
+    if (platform) {
+      const fromCentreX = self.x - platform.x;
+      const fromCentreY = self.y - platform.y;
+      const fromCentre = Math.hypot(fromCentreX, fromCentreY);
+      const outward = (self.vx * fromCentreX + self.vy * fromCentreY) / (fromCentre || 1);
+      if (fromCentre > platform.radius - EDGE_MARGIN && outward > 0) {
+        behaviour = "edge";
+        return driveTowards(self, platform, profile, 0);
+      }
+    }
+
+    // Threat: keep running away from it, veering off to the side we're already on so walls don't box us in
+    const threatId = options.getThreat?.(world) ?? null;
+    const threat = threatId === self.id ? undefined : world.cars.find(car => car.id === threatId && !car.wrecked);
+    if (threat) {
+      const gap = distance(self, threat) || 1;
+      const awayX = (self.x - threat.x) / gap;
+      const awayY = (self.y - threat.y) / gap;
+      const side = Math.sign(self.vx * -awayY + self.vy * awayX) || 1;
+      behaviour = "evade";
+      const escape = clampToArena(
+        {
+          x: self.x + (awayX - awayY * side * 0.5) * FLEE_DISTANCE,
+          y: self.y + (awayY + awayX * side * 0.5) * FLEE_DISTANCE,
+        },
+        world.arena,
+      );
+      return driveTowards(self, escape, profile, aimError);
+    }
+
+    const predicted = {
+      x: target.x + target.vx * profile.lookahead,
+      y: target.y + target.vy * profile.lookahead,
+    };
+
+    // Evade: weak nose and the target is bearing down on us - get out of its way
+    const toSelfX = self.x - target.x;
+    const toSelfY = self.y - target.y;
+    const closingOnUs = (target.vx * toSelfX + target.vy * toSelfY) / (Math.hypot(toSelfX, toSelfY) || 1);
+    if (
+      self.health.front < profile.evadeFrontHealth &&
+      distance(self, target) < EVADE_THREAT_DISTANCE &&
+      closingOnUs > 1
+    ) {
+      behaviour = "evade";
+      // Run perpendicular to the attacker's line of travel, on whichever side we're already on
+      const side = Math.sign(target.vx * toSelfY - target.vy * toSelfX) || 1;
+      const escape = clampToArena(
+        { x: self.x - target.vy * side * 30, y: self.y + target.vx * side * 30 },
+        world.arena,
+      );
+      return driveTowards(self, escape, profile, 0);
+    }
+
+    // Objective: get to the point and shove out anyone else who's there
+    const objective = options.getObjective?.(world);
+    if (objective) {
+      const intruder = world.cars
+        .filter(car => car.id !== self.id && !car.wrecked && distance(car, objective.point) < objective.radius)
+        .sort((a, b) => distance(self, a) - distance(self, b))[0];
+      if (intruder) {
+        behaviour = "chase";
+        return driveTowards(self, intruder, profile, aimError);
+      }
+      behaviour = "objective";
+      if (distance(self, objective.point) < objective.radius * 0.4) return { ...NO_INPUT };
+      return driveTowards(self, objective.point, profile, aimError);
+    }
+
+    // T-bone: line up off the target's flank, then charge into its side
+    if (profile.tbone && getSpeed(target) < 3) {
+      const rightX = -Math.sin(target.angle);
+      const rightY = Math.cos(target.angle);
+      const side = Math.sign((self.x - target.x) * rightX + (self.y - target.y) * rightY) || 1;
+      const flank = {
+        x: predicted.x + rightX * side * TBONE_LINEUP_DISTANCE,
+        y: predicted.y + rightY * side * TBONE_LINEUP_DISTANCE,
+      };
+      const lineup = clampToArena(flank, world.arena);
+
+      // A target parked against a wall has no room on that flank, so just ram it
+      if (distance(flank, lineup) < TBONE_LINEUP_REACHED) {
+        // Missed or bounced off - go round again
+        if (distance(self, target) > TBONE_LINEUP_DISTANCE * 1.5) lineupReached = false;
+        if (distance(self, lineup) < TBONE_LINEUP_REACHED) lineupReached = true;
+        behaviour = "tbone";
+        return driveTowards(self, lineupReached ? predicted : lineup, profile, aimError);
+      }
+    }
+
+    lineupReached = false;
+    behaviour = "chase";
+    return driveTowards(self, predicted, profile, aimError);
+  };
+
+  return {
+    carId,
+    difficulty,
+    get behaviour() {
+      return behaviour;
+    },
+    decide: (world: WorldSnapshot) => {
+      const self = getCar(world, carId);
+      if (!self || self.wrecked) return { ...NO_INPUT };
+
+      // Stuck against something while trying to drive - back off and turn away
+      stuckTicks = input.forward > 0 && getSpeed(self) < STUCK_SPEED ? stuckTicks + 1 : 0;
+      if (stuckTicks > STUCK_TICKS) {
+        stuckTicks = 0;
+        recoverUntil = world.tick + RECOVER_TICKS;
+        recoverSteer = random() < 0.5 ? -1 : 1;
+        nextDecisionTick = world.tick;
+      }
+
+      // Just landed a hit - reverse out for a run-up instead of pushing at walking pace
+      const landedHit = world.events.some(event => event.type === "collision" && event.attackerId === carId);
+      if (landedHit && world.tick >= recoverUntil) {
+        recoverUntil = world.tick + BACKOFF_TICKS;
+        recoverSteer = 0;
+        nextDecisionTick = world.tick;
+      }
+
+      if (world.tick >= nextDecisionTick) {
+        input = plan(world, self);
+        nextDecisionTick = world.tick + profile.decisionInterval;
+        // A finished charge starts a fresh lineup
+        if (behaviour !== "tbone") lineupReached = false;
+      }
+
+      return { ...input };
+    },
+  };
+};
@@ -0,0 +1,333 @@
+import { createBarrel } from "./ball";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, CAR_HEIGHT, CAR_WIDTH, WALL_THICKNESS } from "./constants";
+import { OPEN_ARENA } from "./physics";
+import { getClosestPointOnEdges, isConvexPolygon, isPointInPolygon } from "./polygon";
+import { PROP_KINDS, createProp } from "./props";
+import type {
+  Arena,
+  Ball,
+  Bounds,
+  Car,
+  Circle,
+  Prop,
+  PropKind,
+  Ramp,
+  Spawn,
+  SurfaceKind,
+  SurfaceRegion,
+  Vec2,
+  World,
+} from "./types";
+import { createWorld } from "./world";
+
+export const ARENA_FORMAT_VERSION = 1;
+export const SURFACE_KINDS: SurfaceKind[] = ["asphalt", "mud", "ice", "oil"];
+
+// Arenas can be smaller than the canvas, but not so small that there's no room to drive
+export const MIN_ARENA_SIZE = { width: 300, height: 200 };
+export const MAX_ARENA_SIZE = { width: CANVAS_WIDTH - WALL_THICKNESS * 2, height: CANVAS_HEIGHT - WALL_THICKNESS * 2 };
+const MIN_SPAWNS = 2;
+const START_CLEARANCE = Math.hypot(CAR_WIDTH, CAR_HEIGHT) / 2 + 4; // A car centred this far from anything fits any way round
+const START_RINGS = [1, 0.65, 0.3]; // Where to look for room for cars without a spawn, as fractions of the biggest ring
+
+/**
+ * An arena as it's saved to JSON. Everything is in canvas pixels and angles are in radians.
+ * The bounds are the floor inside the outer walls, centred on the canvas.
+ * Without spawns, cars start wherever the mode puts them.
+ */
+export interface ArenaFile {
+  version: typeof ARENA_FORMAT_VERSION;
+  name: string;
+  bounds: { width: number; height: number };
+  walls?: { points: Vec2[] }[]; // Convex, in either winding
+  pillars?: Circle[];
+  barrels?: Vec2[];
+  props?: { kind: PropKind; points: Vec2[] }[]; // Breakable, and convex like the walls
+  spawns?: Spawn[];
+  surfaces?: SurfaceRegion[];
+  ramps?: Ramp[]; // Convex too, and driven up the way `angle` points
+}
+
+// An arena file ready for the simulation: static layout for the world, and the barrels and props to smash up in it
+export interface ArenaLayout {
+  name: string;
+  arena: Arena;
+  barrels: Ball[];
+  props: Prop[];
+  spawns: Spawn[];
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+// Each check adds readable problems to `errors` and returns whether the value had the right shape to carry on with
+const checkNumber = (value: unknown, path: string, errors: string[], min = -Infinity, max = Infinity) => {
+  if (!isNumber(value)) {
+    errors.push(`${path} must be a number`);
+    return false;
+  }
+  if (value < min || value > max) {
+    errors.push(`${path} must be between ${min} and ${max}, got ${value}`);
+    return false;
+  }
+  return true;
+};
+
+const checkFields = (value: unknown, path: string, errors: string[], fields: Record<string, [number, number]>) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  return Object.entries(fields)
+    .map(([field, [min, max]]) => checkNumber(value[field], `${path}.${field}`, errors, min, max))
+    .every(Boolean);
+};
+
+const COORDINATES: Record<string, [number, number]> = {
+  x: [0, CANVAS_WIDTH],
+  y: [0, CANVAS_HEIGHT],
+};
+
+const checkPoints = (value: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(value) || value.length < 3) {
+    errors.push(`${path} must be a list of at least 3 points`);
+    return false;
+  }
+  return value.map((point, i) => checkFields(point, `${path}[${i}]`, errors, COORDINATES)).every(Boolean);
+};
+
+// An optional list. Missing is fine, anything else must be an array whose items all pass.
+const checkList = (
+  value: unknown,
+  path: string,
+  errors: string[],
+  checkItem: (item: unknown, path: string) => boolean,
+) => {
+  if (value === undefined) return true;
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return false;
+  }
+  return value.map((item, i) => checkItem(item, `${path}[${i}]`)).every(Boolean);
+};
+
+// A convex outline, for walls and props
+const checkConvex = (value: Fields, path: string, errors: string[], advice: string) => {
+  if (!checkPoints(value.points, `${path}.points`, errors)) return false;
+  if (!isConvexPolygon(value.points as Vec2[])) {
+    errors.push(`${path} must be convex - ${advice}`);
+    return false;
+  }
+  return true;
+};
+
+// The floor inside the outer walls for an arena of this size, centred on the canvas
+export const getArenaBounds = (size: { width: number; height: number }): Bounds => ({
+  minX: (CANVAS_WIDTH - size.width) / 2,
+  minY: (CANVAS_HEIGHT - size.height) / 2,
+  maxX: (CANVAS_WIDTH + size.width) / 2,
+  maxY: (CANVAS_HEIGHT + size.height) / 2,
+});
+
+const isInBounds = (point: Vec2, bounds: Bounds) =>
+  point.x > bounds.minX && point.x < bounds.maxX && point.y > bounds.minY && point.y < bounds.maxY;
+
+// What a spawn or barrel would be stuck inside, if anything
+const findObstacleAt = (point: Vec2, file: ArenaFile): string | null => {
+  const wall = (file.walls ?? []).findIndex(({ points }) => isPointInPolygon(point, points));
+  if (wall >= 0) return `walls[${wall}]`;
+  const prop = (file.props ?? []).findIndex(({ points }) => isPointInPolygon(point, points));
+  if (prop >= 0) return `props[${prop}]`;
+  const pillar = (file.pillars ?? []).findIndex(({ x, y, radius }) => Math.hypot(point.x - x, point.y - y) < radius);
+  return pillar >= 0 ? `pillars[${pillar}]` : null;
+};
+
+/**
+ * Everything wrong with a parsed arena file, as messages naming the field at fault, like
+ * `walls[2] must be convex`. An empty list means the file is good to load.
+ */
+export const validateArenaFile = (value: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(value)) return ["An arena must be a JSON object"];
+
+  if (value.version !== ARENA_FORMAT_VERSION) {
+    errors.push(`version must be ${ARENA_FORMAT_VERSION}, got ${JSON.stringify(value.version) ?? "nothing"}`);
+    // A different version could mean anything, so don't pile up errors about the rest of it
+    return errors;
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") errors.push("name must be a non-empty string");
+
+  const boundsOk = checkFields(value.bounds, "bounds", errors, {
+    width: [MIN_ARENA_SIZE.width, MAX_ARENA_SIZE.width],
+    height: [MIN_ARENA_SIZE.height, MAX_ARENA_SIZE.height],
+  });
+
+  const wallsOk = checkList(value.walls, "walls", errors, (wall, path) => {
+    if (!isObject(wall)) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    return checkConvex(wall, path, errors, "split concave walls into several convex ones");
+  });
+  const pillarsOk = checkList(value.pillars, "pillars", errors, (pillar, path) =>
+    checkFields(pillar, path, errors, { ...COORDINATES, radius: [1, Math.min(CANVAS_WIDTH, CANVAS_HEIGHT) / 2] }),
+  );
+  const barrelsOk = checkList(value.barrels, "barrels", errors, (barrel, path) =>
+    checkFields(barrel, path, errors, COORDINATES),
+  );
+  const propsOk = checkList(value.props, "props", errors, (prop, path) => {
+    if (!isObject(prop)) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    const kindOk = PROP_KINDS.includes(prop.kind as PropKind);
+    if (!kindOk) errors.push(`${path}.kind must be one of ${PROP_KINDS.join(", ")}`);
+    return checkConvex(prop, path, errors, "break it up into several convex props") && kindOk;
+  });
+  const spawnsOk = checkList(value.spawns, "spawns", errors, (spawn, path) =>
+    checkFields(spawn, path, errors, { ...COORDINATES, angle: [-Math.PI * 2, Math.PI * 2] }),
+  );
+  checkList(value.surfaces, "surfaces", errors, (surface, path) => {
+    if (!isObject(surface)) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    const kindOk = SURFACE_KINDS.includes(surface.kind as SurfaceKind);
+    if (!kindOk) errors.push(`${path}.kind must be one of ${SURFACE_KINDS.join(", ")}`);
+    return checkPoints(surface.points, `${path}.points`, errors) && kindOk;
+  });
+  checkList(value.ramps, "ramps", errors, (ramp, path) => {
+    if (!isObject(ramp)) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    const angleOk = checkNumber(ramp.angle, `${path}.angle`, errors, -Math.PI * 2, Math.PI * 2);
+    return checkConvex(ramp, path, errors, "split it into several convex ramps") && angleOk;
+  });
+
+  if (Array.isArray(value.spawns) && value.spawns.length < MIN_SPAWNS) {
+    errors.push(`spawns must have at least ${MIN_SPAWNS} points, or be left out`);
+  }
+
+  // Now the shapes are sound, check that what moves starts somewhere it can
+  if (boundsOk && wallsOk && pillarsOk && barrelsOk && propsOk && spawnsOk) {
+    const file = value as unknown as ArenaFile;
+    const bounds = getArenaBounds(file.bounds);
+    const placed: [string, Vec2[]][] = [
+      ["spawns", file.spawns ?? []],
+      ["barrels", file.barrels ?? []],
+    ];
+    for (const [list, points] of placed) {
+      points.forEach((point, i) => {
+        if (!isInBounds(point, bounds)) errors.push(`${list}[${i}] is outside the bounds`);
+        const obstacle = findObstacleAt(point, file);
+        if (obstacle) errors.push(`${list}[${i}] is inside ${obstacle}`);
+      });
+    }
+    (file.spawns ?? []).forEach((spawn, i, spawns) => {
+      const other = spawns.findIndex(
+        (earlier, j) => j < i && Math.hypot(earlier.x - spawn.x, earlier.y - spawn.y) < CAR_WIDTH,
+      );
+      if (other >= 0) errors.push(`spawns[${i}] is too close to spawns[${other}] for two cars`);
+    });
+  }
+
+  return errors;
+};
+
+// Parse and check an arena from JSON text. The file is null whenever there are errors.
+export const parseArenaFile = (text: string): { file: ArenaFile | null; errors: string[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { file: null, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const errors = validateArenaFile(value);
+  return { file: errors.length === 0 ? (value as ArenaFile) : null, errors };
+};
+
+// Turn a file that passed `validateArenaFile` into a layout the world and the renderer can use
+export const loadArena = (file: ArenaFile): ArenaLayout => ({
+  name: file.name,
+  arena: {
+    ...OPEN_ARENA,
+    bounds: getArenaBounds(file.bounds),
+    walls: (file.walls ?? []).map(wall => wall.points.map(({ x, y }) => ({ x, y }))),
+    pillars: (file.pillars ?? []).map(({ x, y, radius }) => ({ x, y, radius })),
+    surfaces: (file.surfaces ?? []).map(({ kind, points }) => ({ kind, points: points.map(({ x, y }) => ({ x, y })) })),
+    ramps: (file.ramps ?? []).map(({ points, angle }) => ({ points: points.map(({ x, y }) => ({ x, y })), angle })),
+  },
+  barrels: (file.barrels ?? []).map(({ x, y }) => createBarrel(x, y)),
+  props: (file.props ?? []).map(({ kind, points }) =>
+    createProp(
+      kind,
+      points.map(({ x, y }) => ({ x, y })),
+    ),
+  ),
+  spawns: (file.spawns ?? []).map(({ x, y, angle }) => ({ x, y, angle })),
+});
+
+// Whether a car centred on `point` fits there facing any way: inside the walls, clear of every obstacle and not on top
+// of the cars already placed
+const isStartClear = (point: Vec2, layout: ArenaLayout, placed: Vec2[]) => {
+  const { bounds, walls, pillars } = layout.arena;
+  const inBounds =
+    point.x - START_CLEARANCE > bounds.minX &&
+    point.x + START_CLEARANCE < bounds.maxX &&
+    point.y - START_CLEARANCE > bounds.minY &&
+    point.y + START_CLEARANCE < bounds.maxY;
+  const blocks = (outline: Vec2[]) => {
+    const edge = getClosestPointOnEdges(point, outline);
+    return isPointInPolygon(point, outline) || Math.hypot(edge.x - point.x, edge.y - point.y) < START_CLEARANCE;
+  };
+  const circles: Circle[] = [...pillars, ...layout.barrels];
+  return (
+    inBounds &&
+    ![...walls, ...layout.props.map(prop => prop.points)].some(blocks) &&
+    circles.every(circle => Math.hypot(circle.x - point.x, circle.y - point.y) >= circle.radius + START_CLEARANCE) &&
+    placed.every(other => Math.hypot(other.x - point.x, other.y - point.y) >= START_CLEARANCE * 2)
+  );
+};
+
+// Spots on rings round the middle of the bounds, outermost first, each facing the middle
+const getStartSpots = (bounds: Bounds): Spawn[] => {
+  const centre = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  const radiusX = Math.max(0, (bounds.maxX - bounds.minX) / 2 - START_CLEARANCE - 1);
+  const radiusY = Math.max(0, (bounds.maxY - bounds.minY) / 2 - START_CLEARANCE - 1);
+  return START_RINGS.flatMap(scale => {
+    // Roughly a car's clearance apart round the ring
+    const count = Math.max(1, Math.floor((Math.PI * (radiusX + radiusY) * scale) / START_CLEARANCE));
+    return Array.from({ length: count }, (_, i) => {
+      const theta = Math.PI + (i / count) * Math.PI * 2;
+      const x = centre.x + Math.cos(theta) * radiusX * scale;
+      const y = centre.y + Math.sin(theta) * radiusY * scale;
+      return { x, y, angle: Math.atan2(centre.y - y, centre.x - x) };
+    });
+  }).concat({ ...centre, angle: 0 });
+};
+
+/**
+ * A world in a loaded arena. Each car takes the spawn with its index. Cars beyond the last spawn keep the place the
+ * mode gave them if they fit there; otherwise, as in a small arena or one with fewer spawns than cars, they're moved
+ * to the first free spot on a ring inside the bounds.
+ */
+export const createArenaWorld = (seed: number, layout: ArenaLayout, cars: Car[]): World => {
+  const placed: Vec2[] = layout.spawns.slice(0, cars.length);
+  const spots = getStartSpots(layout.arena.bounds);
+  const placeCar = (car: Car, i: number): Car => {
+    if (layout.spawns[i]) return { ...car, ...layout.spawns[i] };
+    // Nowhere left at all: pile into the middle rather than start inside a wall
+    const spot = isStartClear(car, layout, placed)
+      ? car
+      : (spots.find(candidate => isStartClear(candidate, layout, placed)) ?? spots[spots.length - 1]);
+    placed.push(spot);
+    return { ...car, x: spot.x, y: spot.y, angle: spot.angle };
+  };
+
+  return createWorld(seed, cars.map(placeCar), layout.arena, layout.barrels, layout.props);
+};
@@ -0,0 +1,11 @@
+import type { ArenaFile } from "../arena";
+import crossroads from "./crossroads.json";
+import iceRink from "./iceRink.json";
+import openPit from "./openPit.json";
+import pillars from "./pillars.json";
+
+// Arenas that ship with the game, in the same JSON format players can import. The first is the classic open box.
+export const BUNDLED_ARENAS = [openPit, pillars, crossroads, iceRink] as ArenaFile[];
+
+export const getBundledArena = (name: string): ArenaFile =>
+  BUNDLED_ARENAS.find(arena => arena.name === name) ?? BUNDLED_ARENAS[0];
@@ -0,0 +1,202 @@
+import { getSpeed } from "./car";
+import {
+  BALL_BOUNCE,
+  BALL_CAR_RESTITUTION,
+  BALL_FRICTION,
+  BALL_FRICTION_ON_CONTACT,
+  BALL_MASS,
+  BALL_MAX_SPEED,
+  BALL_RADIUS,
+  BALL_SPIN_FRICTION,
+  BARREL_FRICTION,
+  BARREL_HP,
+  BARREL_MASS,
+  BARREL_RADIUS,
+  DEBRIS_FRICTION,
+  SEPARATION_SLOP,
+  WALL_FRICTION,
+  WALL_THICKNESS,
+} from "./constants";
+import { resolveImpulse, separateBodies } from "./impulse";
+import { OPEN_ARENA, getGoalMouth } from "./physics";
+import { getClosestPointOnEdges, isPointInPolygon } from "./polygon";
+import { collideCarCircle } from "./sat";
+import type { Arena, Ball, BallKind, Car, Circle, Contact, Vec2 } from "./types";
+
+// Rolling resistance per tick for each kind of ball
+const ROLLING_FRICTION: Record<BallKind, number> = {
+  ball: BALL_FRICTION,
+  barrel: BARREL_FRICTION,
+  debris: DEBRIS_FRICTION,
+};
+
+// Balls get their id when they're added to a world (see `createWorld`)
+export const createBall = (x: number, y: number, radius = BALL_RADIUS, mass = BALL_MASS): Ball => ({
+  id: 0,
+  kind: "ball",
+  x,
+  y,
+  vx: 0,
+  vy: 0,
+  angle: 0,
+  angularVel: 0,
+  radius,
+  mass,
+  // Solid disc
+  inertia: (mass * radius * radius) / 2,
+  isStatic: false,
+});
+
+export const createBarrel = (x: number, y: number): Ball => ({
+  ...createBall(x, y, BARREL_RADIUS, BARREL_MASS),
+  kind: "barrel",
+  hp: BARREL_HP,
+});
+
+export const cloneBall = (ball: Ball): Ball => ({ ...ball });
+
+// Let a ball roll: rolling resistance, spin decay and a speed cap so it can't outrun the sub-steps
+export const rollBall = (ball: Ball) => {
+  const friction = ROLLING_FRICTION[ball.kind];
+  ball.vx *= friction;
+  ball.vy *= friction;
+
+  const speed = getSpeed(ball);
+  if (speed > BALL_MAX_SPEED) {
+    ball.vx = (ball.vx / speed) * BALL_MAX_SPEED;
+    ball.vy = (ball.vy / speed) * BALL_MAX_SPEED;
+  }
+
+  ball.angularVel *= BALL_SPIN_FRICTION;
+};
+
+export const moveBall = (ball: Ball, fraction: number) => {
+  ball.x += ball.vx * fraction;
+  ball.y += ball.vy * fraction;
+  ball.angle += ball.angularVel * fraction;
+};
+
+// Circle against an oriented car box. The normal points from the car to the ball.
+export const collideCarBall = (car: Car, ball: Ball): Contact | null => collideCarCircle(car, ball);
+
+// Solid wall blocks round the bounds as [left, top, right, bottom], with gaps for the goal mouths and the nets behind them
+const getWallBoxes = (arena: Arena): [number, number, number, number][] => {
+  const { minX, minY, maxX, maxY } = arena.bounds;
+  const [outerLeft, outerTop, outerRight, outerBottom] = [
+    minX - WALL_THICKNESS,
+    minY - WALL_THICKNESS,
+    maxX + WALL_THICKNESS,
+    maxY + WALL_THICKNESS,
+  ];
+  const boxes: [number, number, number, number][] = [
+    [outerLeft, outerTop, outerRight, minY],
+    [outerLeft, maxY, outerRight, outerBottom],
+  ];
+
+  if (arena.goalWidth <= 0) {
+    boxes.push([outerLeft, outerTop, minX, outerBottom]);
+    boxes.push([maxX, outerTop, outerRight, outerBottom]);
+    return boxes;
+  }
+
+  const { top, bottom } = getGoalMouth(arena);
+  boxes.push([outerLeft, outerTop, minX, top]);
+  boxes.push([outerLeft, bottom, minX, outerBottom]);
+  boxes.push([maxX, outerTop, outerRight, top]);
+  boxes.push([maxX, bottom, outerRight, outerBottom]);
+  // Back of the nets, just behind the outer walls
+  boxes.push([outerLeft - WALL_THICKNESS, outerTop, outerLeft, outerBottom]);
+  boxes.push([outerRight, outerTop, outerRight + WALL_THICKNESS, outerBottom]);
+  return boxes;
+};
+
+// Push a ball out of a convex wall polygon. The normal points from the ball into the wall.
+export const collideBallPolygon = (ball: Ball, points: Vec2[]): Contact | null => {
+  const point = getClosestPointOnEdges(ball, points);
+  const dx = point.x - ball.x;
+  const dy = point.y - ball.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance === 0) return null;
+
+  // Centre already inside: the closest edge is the way out, so the wall is behind the ball
+  if (isPointInPolygon(ball, points)) {
+    return { normal: { x: -dx / distance, y: -dy / distance }, depth: ball.radius + distance, point };
+  }
+  if (distance >= ball.radius) return null;
+  return { normal: { x: dx / distance, y: dy / distance }, depth: ball.radius - distance, point };
+};
+
+// Two circles overlapping. The normal points from the ball to the other circle.
+const collideCircles = (ball: Ball, other: Circle): Contact | null => {
+  const dx = other.x - ball.x;
+  const dy = other.y - ball.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance >= ball.radius + other.radius || distance === 0) return null;
+
+  const normal = { x: dx / distance, y: dy / distance };
+  return {
+    normal,
+    depth: ball.radius + other.radius - distance,
+    point: { x: ball.x + normal.x * ball.radius, y: ball.y + normal.y * ball.radius },
+  };
+};
+
+// One contact per wall block, obstacle or pillar the ball overlaps, so the goal posts deflect it like rounded
+// corners. Normals point into the wall.
+export const getBallWallContacts = (ball: Ball, arena: Arena = OPEN_ARENA): Contact[] => {
+  const contacts: Contact[] = [];
+  if (arena.platform) return contacts;
+
+  for (const [left, top, right, bottom] of getWallBoxes(arena)) {
+    const point = { x: Math.max(left, Math.min(right, ball.x)), y: Math.max(top, Math.min(bottom, ball.y)) };
+    const dx = point.x - ball.x;
+    const dy = point.y - ball.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance >= ball.radius || distance === 0) continue;
+
+    contacts.push({ normal: { x: dx / distance, y: dy / distance }, depth: ball.radius - distance, point });
+  }
+
+  for (const wall of arena.walls) {
+    const contact = collideBallPolygon(ball, wall);
+    if (contact) contacts.push(contact);
+  }
+  for (const pillar of arena.pillars) {
+    const contact = collideCircles(ball, pillar);
+    if (contact) contacts.push(contact);
+  }
+
+  return contacts;
+};
+
+// Bounce a ball off the arena walls and goal posts. Returns true if it touched a wall.
+export const handleBallWallCollisions = (ball: Ball, arena: Arena = OPEN_ARENA): boolean => {
+  const contacts = getBallWallContacts(ball, arena);
+
+  for (const contact of contacts) {
+    resolveImpulse(ball, null, contact, BALL_BOUNCE, WALL_FRICTION);
+    separateBodies(ball, null, contact);
+  }
+
+  return contacts.length > 0;
+};
+
+// Knock a ball away from a car. Balls never damage cars. Returns true if they touched.
+export const handleCarBallCollision = (car: Car, ball: Ball): boolean => {
+  const contact = collideCarBall(car, ball);
+  if (!contact) return false;
+
+  resolveImpulse(car, ball, contact, BALL_CAR_RESTITUTION, BALL_FRICTION_ON_CONTACT);
+  separateBodies(car, ball, contact, SEPARATION_SLOP);
+  return true;
+};
+
+// Knock two loose balls or barrels off each other. Returns true if they touched.
+export const handleBallBallCollision = (a: Ball, b: Ball): boolean => {
+  const contact = collideCircles(a, b);
+  if (!contact) return false;
+
+  resolveImpulse(a, b, contact, BALL_BOUNCE, BALL_FRICTION_ON_CONTACT);
+  separateBodies(a, b, contact, SEPARATION_SLOP);
+  return true;
+};
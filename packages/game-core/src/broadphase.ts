@@ -0,0 +1,41 @@
+import { getCarCorners } from "./car";
+import type { Bounds, Car } from "./types";
+
+export const getCarBounds = (car: Car): Bounds => {
+  const corners = getCarCorners(car);
+  return {
+    minX: Math.min(...corners.map(c => c.x)),
+    minY: Math.min(...corners.map(c => c.y)),
+    maxX: Math.max(...corners.map(c => c.x)),
+    maxY: Math.max(...corners.map(c => c.y)),
+  };
+};
+
+/**
+ * Sweep-and-prune broadphase. Bodies are sorted along x and only pairs whose bounding boxes overlap on both axes
+ * are returned, so the narrowphase only runs for cars that are actually near each other.
+ * Pairs come back in a deterministic order with the lower id first.
+ */
+export const findCollisionPairs = (cars: Car[]): [Car, Car][] => {
+  const entries = cars
+    .map(car => ({ car, bounds: getCarBounds(car) }))
+    .sort((p, q) => p.bounds.minX - q.bounds.minX || p.car.id - q.car.id);
+
+  const pairs: [Car, Car][] = [];
+  let active: typeof entries = [];
+
+  for (const entry of entries) {
+    // Anything that ends before this body starts can't touch it or anything after it
+    active = active.filter(other => other.bounds.maxX >= entry.bounds.minX);
+
+    for (const other of active) {
+      if (other.car.isStatic && entry.car.isStatic) continue;
+      if (other.bounds.maxY < entry.bounds.minY || other.bounds.minY > entry.bounds.maxY) continue;
+      pairs.push(other.car.id < entry.car.id ? [other.car, entry.car] : [entry.car, other.car]);
+    }
+
+    active.push(entry);
+  }
+
+  return pairs;
+};
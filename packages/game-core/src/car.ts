@@ -0,0 +1,103 @@
+import { CAR_HEIGHT, CAR_MASS, CAR_WIDTH } from "./constants";
+import { getBoxInertia } from "./impulse";
+import type { Car, HitZone, RigidBody, Vec2 } from "./types";
+
+// How close to a corner (in normalised body coordinates) a contact has to be before we look at the hit direction
+const CORNER_ZONE_BAND = 0.15;
+
+// Cars get their id when they're added to a world (see `createWorld`)
+export const createCar = (x: number, y: number, color: string, angle = 0, isStatic = false, mass = CAR_MASS): Car => ({
+  id: 0,
+  x,
+  y,
+  vx: 0,
+  vy: 0,
+  angle,
+  angularVel: 0,
+  width: CAR_WIDTH,
+  height: CAR_HEIGHT,
+  mass,
+  inertia: getBoxInertia(mass, CAR_WIDTH, CAR_HEIGHT),
+  color,
+  health: { front: 100, rear: 100, left: 100, right: 100 },
+  wrecked: false,
+  fellOff: false,
+  effects: { nitro: 0, armor: 0 },
+  lastHitBy: null,
+  airborne: 0,
+  isStatic,
+});
+
+export const cloneCar = (car: Car): Car => ({ ...car, health: { ...car.health }, effects: { ...car.effects } });
+
+// Get the car's corner points for collision detection
+export const getCarCorners = (car: Car): Vec2[] => {
+  const cos = Math.cos(car.angle);
+  const sin = Math.sin(car.angle);
+  const hw = car.width / 2;
+  const hh = car.height / 2;
+
+  return [
+    { x: car.x + cos * hw - sin * hh, y: car.y + sin * hw + cos * hh },
+    { x: car.x + cos * hw + sin * hh, y: car.y + sin * hw - cos * hh },
+    { x: car.x - cos * hw + sin * hh, y: car.y - sin * hw - cos * hh },
+    { x: car.x - cos * hw - sin * hh, y: car.y - sin * hw + cos * hh },
+  ];
+};
+
+// Unit vectors along the car's length (forward) and width (right)
+export const getCarAxes = (car: Car): [Vec2, Vec2] => {
+  const cos = Math.cos(car.angle);
+  const sin = Math.sin(car.angle);
+  return [
+    { x: cos, y: sin },
+    { x: -sin, y: cos },
+  ];
+};
+
+// Express a world-space point in the car's frame (x along forward, y along right)
+export const toCarLocal = (car: Car, point: Vec2): Vec2 =>
+  toCarDirection(car, { x: point.x - car.x, y: point.y - car.y });
+
+export const isPointInCar = (car: Car, point: Vec2, tolerance = 1e-6): boolean => {
+  const local = toCarLocal(car, point);
+  return Math.abs(local.x) <= car.width / 2 + tolerance && Math.abs(local.y) <= car.height / 2 + tolerance;
+};
+
+// Rotate a world-space direction into the car's frame
+export const toCarDirection = (car: Car, direction: Vec2): Vec2 => {
+  const [forward, right] = getCarAxes(car);
+  return { x: direction.x * forward.x + direction.y * forward.y, y: direction.x * right.x + direction.y * right.y };
+};
+
+/**
+ * Get which zone of the car was hit from where the contact happened on its body.
+ * Points right on a corner are ambiguous, so `outward` (the direction from this car towards whatever hit it)
+ * breaks the tie when given.
+ */
+export const getHitZoneAtPoint = (car: Car, point: Vec2, outward?: Vec2): HitZone => {
+  const local = toCarLocal(car, point);
+  let u = local.x / (car.width / 2);
+  let v = local.y / (car.height / 2);
+
+  if (outward && Math.abs(Math.abs(u) - Math.abs(v)) < CORNER_ZONE_BAND) {
+    const direction = toCarDirection(car, outward);
+    u = direction.x;
+    v = direction.y;
+  }
+
+  if (Math.abs(u) >= Math.abs(v)) return u >= 0 ? "front" : "rear";
+  return v >= 0 ? "right" : "left";
+};
+
+export const getSpeed = (body: RigidBody): number => Math.sqrt(body.vx * body.vx + body.vy * body.vy);
+
+// How fast the car is sliding sideways, across the way it's facing
+export const getSlipSpeed = (car: Car): number =>
+  Math.abs(-car.vx * Math.sin(car.angle) + car.vy * Math.cos(car.angle));
+
+// Calculate total health percentage
+export const getTotalHealth = (car: Car): number => {
+  const { front, rear, left, right } = car.health;
+  return (front + rear + left + right) / 4;
+};
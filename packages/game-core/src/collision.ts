@@ -0,0 +1,111 @@
+import { getHitZoneAtPoint } from "./car";
+import {
+  ATTACKER_DAMAGE_RATIO,
+  CAR_FRICTION,
+  CAR_RESTITUTION,
+  COLLISION_COOLDOWN_TICKS,
+  MIN_IMPACT_FOR_DAMAGE,
+  MIN_WALL_HIT_SPEED,
+  SEPARATION_SLOP,
+} from "./constants";
+import { applyZoneDamage, getDamageTaken, getImpactDamage } from "./damage";
+import { resolveImpulse, separateBodies } from "./impulse";
+import { collideCars } from "./sat";
+import type { Car, HitClass, HitZone, World } from "./types";
+
+// How square two headings have to be (as |cos| of the angle between them) to count as lined up or crossing
+const SQUARE_ON = 0.5;
+
+// Oriented-box collision check
+export const checkCarCollision = (car1: Car, car2: Car): boolean => collideCars(car1, car2) !== null;
+
+export const getPairKey = (a: Car, b: Car): string => (a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`);
+
+/**
+ * Name an impact from the zones that met and the angle between the two cars:
+ * - head-on: noses together, facing each other
+ * - T-bone: a nose into a side, more or less at right angles
+ * - rear-end: a nose into a tail, both facing the same way
+ * - sideswipe: side against side
+ * - glancing: anything else, such as a nose skimming off a side at a shallow angle
+ */
+export const classifyHit = (attacker: Car, victim: Car, attackerZone: HitZone, victimZone: HitZone): HitClass => {
+  const alignment = Math.cos(attacker.angle - victim.angle);
+  const victimSide = victimZone === "left" || victimZone === "right";
+
+  if (attackerZone === "front") {
+    if (victimZone === "front" && alignment < -SQUARE_ON) return "headOn";
+    if (victimZone === "rear" && alignment > SQUARE_ON) return "rearEnd";
+    if (victimSide && Math.abs(alignment) < SQUARE_ON) return "tbone";
+    return "glancing";
+  }
+  if ((attackerZone === "left" || attackerZone === "right") && victimSide) return "sideswipe";
+  return "glancing";
+};
+
+/**
+ * Handle car-to-car collision. Mutates both cars and records a collision event on the world.
+ * A car that was already wrecked is just scenery: hitting it bounces you off, but deals no damage and scores nothing.
+ */
+export const handleCarCollision = (world: World, a: Car, b: Car) => {
+  const contact = collideCars(a, b);
+  if (!contact) return;
+
+  const { x: nx, y: ny } = contact.normal;
+
+  // Zones come from where the bodies actually touched, so read them before separating
+  const zoneA = getHitZoneAtPoint(a, contact.point, contact.normal);
+  const zoneB = getHitZoneAtPoint(b, contact.point, { x: -nx, y: -ny });
+
+  // Whoever was driving harder into the contact is the attacker
+  const aIsAttacker = a.vx * nx + a.vy * ny >= -(b.vx * nx + b.vy * ny);
+
+  // Impulses act at the contact point, so a clipped corner spins the car and mass decides who gets shoved
+  const impactSpeed = resolveImpulse(a, b, contact, CAR_RESTITUTION, CAR_FRICTION);
+  separateBodies(a, b, contact, SEPARATION_SLOP);
+
+  // A hulk is a bump for any live car in it, whichever of them was moving faster
+  if (a.wrecked || b.wrecked) {
+    if (impactSpeed < MIN_WALL_HIT_SPEED) return;
+    for (const car of [a, b]) {
+      if (car.wrecked) continue;
+      world.events.push({ type: "wallHit", carId: car.id, x: contact.point.x, y: contact.point.y, impactSpeed });
+    }
+    return;
+  }
+
+  const [attacker, victim] = aIsAttacker ? [a, b] : [b, a];
+  const [attackerZone, victimZone] = aIsAttacker ? [zoneA, zoneB] : [zoneB, zoneA];
+  // Even a gentle shove counts, since that's all it takes to push someone off a platform
+  victim.lastHitBy = { carId: attacker.id, tick: world.tick };
+
+  const pairKey = getPairKey(a, b);
+  const lastHitTick = world.collisionCooldowns[pairKey];
+  if (lastHitTick !== undefined && world.tick - lastHitTick < COLLISION_COOLDOWN_TICKS) return;
+
+  if (impactSpeed > MIN_IMPACT_FOR_DAMAGE) {
+    const damage = getImpactDamage(impactSpeed);
+    const victimDamage = Math.round(getDamageTaken(victim, damage));
+    // Attacker takes much less damage
+    const attackerDamage = getDamageTaken(attacker, damage * ATTACKER_DAMAGE_RATIO);
+
+    world.events.push({
+      type: "collision",
+      x: contact.point.x,
+      y: contact.point.y,
+      damage: victimDamage,
+      attackerDamage,
+      attackerId: attacker.id,
+      victimId: victim.id,
+      attackerZone,
+      victimZone,
+      hitClass: classifyHit(attacker, victim, attackerZone, victimZone),
+      impactSpeed,
+    });
+
+    applyZoneDamage(world, attacker, attackerZone, attackerDamage, victim.id);
+    applyZoneDamage(world, victim, victimZone, victimDamage, attacker.id);
+
+    world.collisionCooldowns[pairKey] = world.tick;
+  }
+};
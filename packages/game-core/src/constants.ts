@@ -0,0 +1,98 @@
+// Arena
+export const CANVAS_WIDTH = 900;
+export const CANVAS_HEIGHT = 600;
+export const CAR_WIDTH = 50;
+export const CAR_HEIGHT = 30;
+export const WALL_THICKNESS = 20;
+export const DEFAULT_GOAL_WIDTH = 160;
+
+// Physics constants (per tick)
+export const ACCELERATION = 0.15;
+export const BRAKE_DECEL = 0.1;
+export const MAX_SPEED = 8;
+export const TURN_RATE = 0.025;
+export const MAX_ANGULAR_VEL = 0.08;
+export const FORWARD_FRICTION = 0.98;
+export const SIDEWAYS_FRICTION = 0.85;
+export const ANGULAR_FRICTION = 0.85;
+export const BOUNCE_FACTOR = 0.5; // Restitution against walls
+export const WALL_FRICTION = 0.3;
+export const MIN_WALL_HIT_SPEED = 1; // Softer scrapes than this don't raise a wallHit event
+export const MIN_SPEED_TO_TURN = 0.5;
+
+// Body properties for impulse resolution
+export const CAR_MASS = 1;
+export const CAR_RESTITUTION = 0.3;
+export const CAR_FRICTION = 0.4;
+export const SEPARATION_SLOP = 0.5; // Extra push so resting contacts don't re-collide every sub-step
+
+// Loose balls - lighter than a car and much bouncier
+export const BALL_RADIUS = 12;
+export const BALL_MASS = 0.3;
+export const BALL_FRICTION = 0.988; // Rolling resistance per tick
+export const BALL_SPIN_FRICTION = 0.95;
+export const BALL_MAX_SPEED = 14;
+export const BALL_BOUNCE = 0.75; // Restitution against walls
+export const BALL_CAR_RESTITUTION = 0.6;
+export const BALL_FRICTION_ON_CONTACT = 0.2;
+
+// Barrels - loose drums about as heavy as a car, that stop rolling quickly
+export const BARREL_RADIUS = 16;
+export const BARREL_MASS = 0.8;
+export const BARREL_FRICTION = 0.94;
+export const BARREL_HP = 12;
+
+// Breakable props and the debris they leave behind
+export const PROP_SMASH_SPEED_KEPT = 0.7; // Fraction of its speed a car keeps after smashing straight through
+export const DEBRIS_RADIUS = 5;
+export const DEBRIS_MASS = 0.08;
+export const DEBRIS_FRICTION = 0.9;
+export const DEBRIS_CARRY = 0.6; // Fraction of the car's velocity the pieces fly off with
+export const DEBRIS_SCATTER = 2.5; // Top speed of the random spray on top of that
+
+// Friction for cars nobody is driving
+export const COAST_FORWARD_FRICTION = 0.96;
+export const COAST_SIDEWAYS_FRICTION = 0.9;
+export const COAST_ANGULAR_FRICTION = 0.92;
+
+// Damage constants
+export const DAMAGE_MULTIPLIER = 3;
+export const MIN_IMPACT_FOR_DAMAGE = 2;
+export const ATTACKER_DAMAGE_RATIO = 0.15; // Attacker takes only 15% of the damage they deal
+
+// Damage model - effect of a fully destroyed zone on handling
+export const FRONT_DAMAGE_ACCEL_LOSS = 0.6;
+export const REAR_DAMAGE_SPEED_LOSS = 0.5;
+export const SIDE_DAMAGE_PULL = 0.3;
+export const LOST_WHEEL_PULL = 0.5;
+export const LOST_WHEEL_SPEED_LOSS = 0.3;
+export const BROKEN_REAR_SIDEWAYS_FRICTION = 0.96;
+
+// Simulation timing - physics constants above are tuned per tick at 60 ticks/sec
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+export const COLLISION_COOLDOWN_TICKS = 9; // ~150ms between damage events
+export const RING_OUT_CREDIT_TICKS = TICK_RATE * 3; // A car that falls this soon after a hit was knocked off
+
+// Continuous collision - each tick is split so no body moves further than this between checks
+export const MAX_SUBSTEP_DISTANCE = 6;
+export const MAX_SUBSTEPS = 16;
+
+// Power-ups
+export const POWER_UP_RADIUS = 14;
+export const NITRO_TICKS = TICK_RATE * 3;
+export const NITRO_SPEED_BOOST = 1.35; // Multiplier on top speed while the nitro burns
+export const NITRO_ACCEL_BOOST = 1.8;
+export const ARMOR_TICKS = TICK_RATE * 8;
+export const ARMOR_DAMAGE_RATIO = 0.35; // Armoured cars take only 35% of the damage that reaches them
+export const REPAIR_AMOUNT = 35; // Health given back to every zone
+export const SHOCKWAVE_RADIUS = 170;
+export const SHOCKWAVE_SPEED = 9; // Speed given to a car-mass body right next to the blast, fading to nothing at the edge
+export const OIL_SLICK_RADIUS = 40;
+export const OIL_SLICK_TICKS = TICK_RATE * 12;
+export const DEBRIS_TICKS = TICK_RATE * 4;
+
+// Ramps
+export const RAMP_MIN_LAUNCH_SPEED = 3; // Any slower up a ramp and the car just rolls off the top
+export const RAMP_LAUNCH_BOOST = 1.3; // Multiplier on the speed up the ramp as the car leaves the lip
+export const RAMP_HANG_TICKS = 2.5; // Ticks in the air for every pixel per tick of speed up the ramp
@@ -0,0 +1,38 @@
+import type { AnalogInput, Controller, StepInputs, World, WorldSnapshot } from "./types";
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+};
+
+// Frozen copy of the world, safe to hand to code we don't trust. `cloneWorld` shares the arena and other parts it
+// never changes, so the copy has to go all the way down or freezing it would freeze the live world too.
+export const createSnapshot = (world: World): WorldSnapshot => deepFreeze(structuredClone(world));
+
+const clampAxis = (value: number) => (Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0);
+
+// Controllers can return anything, so clamp every axis into 0..1 and treat garbage as no input
+export const sanitizeInput = (input: AnalogInput | undefined): AnalogInput => ({
+  forward: clampAxis(input?.forward ?? 0),
+  reverse: clampAxis(input?.reverse ?? 0),
+  left: clampAxis(input?.left ?? 0),
+  right: clampAxis(input?.right ?? 0),
+});
+
+// Ask every controller for its input this tick. They all share one snapshot, taken before anyone moves.
+export const getControllerInputs = (world: World, controllers: Record<number, Controller>): StepInputs => {
+  const snapshot = createSnapshot(world);
+  const inputs: StepInputs = {};
+  for (const [carId, controller] of Object.entries(controllers)) {
+    inputs[Number(carId)] = sanitizeInput(controller.decide(snapshot));
+  }
+  return inputs;
+};
+
+// Wraps a live input source, such as the keyboard state, as a controller
+export const createInputController = (read: () => AnalogInput): Controller => ({
+  decide: () => ({ ...read() }),
+});
@@ -0,0 +1,74 @@
+import { getTotalHealth } from "./car";
+import {
+  ARMOR_DAMAGE_RATIO,
+  BROKEN_REAR_SIDEWAYS_FRICTION,
+  DAMAGE_MULTIPLIER,
+  FRONT_DAMAGE_ACCEL_LOSS,
+  LOST_WHEEL_PULL,
+  LOST_WHEEL_SPEED_LOSS,
+  MIN_IMPACT_FOR_DAMAGE,
+  NITRO_ACCEL_BOOST,
+  NITRO_SPEED_BOOST,
+  REAR_DAMAGE_SPEED_LOSS,
+  SIDEWAYS_FRICTION,
+  SIDE_DAMAGE_PULL,
+} from "./constants";
+import type { Car, Handling, HitZone, World } from "./types";
+
+// 0 for a pristine zone, 1 for a destroyed one
+const wear = (health: number) => 1 - health / 100;
+
+/**
+ * How a car's damage changes the way it drives.
+ * - Front damage cuts acceleration; at 0 the engine stalls and the car can only roll and brake.
+ * - Rear damage lowers top speed; at 0 the rear axle breaks and the back end slides out.
+ * - Left/right damage pulls the steering towards that side; at 0 a wheel comes off, pulling hard and costing speed.
+ * - A burning nitro boosts whatever acceleration and top speed are left.
+ */
+export const getHandling = (car: Car): Handling => {
+  const { front, rear, left, right } = car.health;
+
+  const engineStalled = front <= 0;
+  const lostWheel = left <= 0 ? "left" : right <= 0 ? "right" : null;
+
+  let steeringPull = (wear(right) - wear(left)) * SIDE_DAMAGE_PULL;
+  if (left <= 0) steeringPull -= LOST_WHEEL_PULL;
+  if (right <= 0) steeringPull += LOST_WHEEL_PULL;
+
+  let topSpeed = 1 - wear(rear) * REAR_DAMAGE_SPEED_LOSS;
+  if (lostWheel) topSpeed *= 1 - LOST_WHEEL_SPEED_LOSS;
+
+  const nitro = car.effects.nitro > 0;
+  if (nitro) topSpeed *= NITRO_SPEED_BOOST;
+  const acceleration = engineStalled ? 0 : 1 - wear(front) * FRONT_DAMAGE_ACCEL_LOSS;
+
+  return {
+    acceleration: nitro ? acceleration * NITRO_ACCEL_BOOST : acceleration,
+    topSpeed,
+    steeringPull,
+    sidewaysFriction: rear <= 0 ? BROKEN_REAR_SIDEWAYS_FRICTION : SIDEWAYS_FRICTION,
+    engineStalled,
+    lostWheel,
+  };
+};
+
+// A car is drivable until every zone has been destroyed
+export const isWrecked = (car: Car): boolean => getTotalHealth(car) <= 0;
+
+// Damage dealt by an impact at this closing speed, before any armour. Soft bumps deal none.
+export const getImpactDamage = (impactSpeed: number): number =>
+  impactSpeed > MIN_IMPACT_FOR_DAMAGE ? Math.round((impactSpeed - MIN_IMPACT_FOR_DAMAGE) * DAMAGE_MULTIPLIER) : 0;
+
+// Armour soaks up most of every hit while it lasts
+export const getDamageTaken = (car: Car, damage: number): number =>
+  car.effects.armor > 0 ? damage * ARMOR_DAMAGE_RATIO : damage;
+
+// Take health off one zone, wrecking the car (and raising an event) if that was the last of it
+export const applyZoneDamage = (world: World, car: Car, zone: HitZone, amount: number, byId: number | null) => {
+  car.health[zone] = Math.max(0, car.health[zone] - amount);
+
+  if (!car.wrecked && isWrecked(car)) {
+    car.wrecked = true;
+    world.events.push({ type: "wrecked", carId: car.id, byId, x: car.x, y: car.y });
+  }
+};
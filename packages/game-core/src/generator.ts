@@ -0,0 +1,358 @@
+import { ARENA_FORMAT_VERSION, type ArenaFile, MAX_ARENA_SIZE, getArenaBounds } from "./arena";
+import { BARREL_RADIUS, CAR_HEIGHT, CAR_WIDTH } from "./constants";
+import { DERBY_MAX_OPPONENTS } from "./modes/derby";
+import { getClosestPointOnEdges, getConvexHull, isPointInPolygon } from "./polygon";
+import { createRng } from "./rng";
+import type { Bounds, Circle, PropKind, Ramp, Spawn, SurfaceKind, SurfaceRegion, Vec2 } from "./types";
+
+export type GeneratedArenaSize = "small" | "medium" | "large";
+
+export const GENERATED_ARENA_SIZES: Record<GeneratedArenaSize, { width: number; height: number }> = {
+  small: { width: 560, height: 380 },
+  medium: { width: 720, height: 460 },
+  large: { ...MAX_ARENA_SIZE },
+};
+
+// How cluttered the floor is, from a few scattered obstacles to a maze of them
+export const MIN_DENSITY = 1;
+export const MAX_DENSITY = 5;
+
+export interface ArenaGeneratorOptions {
+  size: GeneratedArenaSize;
+  density: number;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: ArenaGeneratorOptions = { size: "large", density: 3 };
+
+const SPAWN_COUNT = DERBY_MAX_OPPONENTS + 1; // Enough for the biggest derby
+const CLEARANCE = Math.hypot(CAR_WIDTH, CAR_HEIGHT) / 2 + 4; // A car centred this far from anything fits facing any way
+const SPAWN_SPACING = CAR_WIDTH * 1.4;
+const CLUSTER_GAP = CAR_WIDTH * 1.2; // Room to drive between clusters
+const CELL_SIZE = 10; // Grid for working out where cars can get to
+const PLACEMENT_TRIES = 30;
+const HAZARD_KINDS: SurfaceKind[] = ["mud", "ice", "oil"];
+const BREAKABLE_BLOCK_CHANCE = 0.3;
+
+const SIZE_CODES: Record<GeneratedArenaSize, string> = { small: "S", medium: "M", large: "L" };
+
+// Everything that blocks cars, added a cluster at a time so the last ones can be taken away again
+interface FeatureGroup {
+  walls: Vec2[][];
+  pillars: Circle[];
+  barrels: Vec2[];
+  props: { kind: PropKind; points: Vec2[] }[];
+  // Rough circles around each piece, for keeping new pieces clear of it
+  footprints: Circle[];
+}
+
+const normaliseOptions = (options: Partial<ArenaGeneratorOptions>): ArenaGeneratorOptions => {
+  const { size, density } = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  return {
+    size: size in GENERATED_ARENA_SIZES ? size : DEFAULT_GENERATOR_OPTIONS.size,
+    density: Math.max(MIN_DENSITY, Math.min(MAX_DENSITY, Math.round(density) || DEFAULT_GENERATOR_OPTIONS.density)),
+  };
+};
+
+/**
+ * A short code for a generated arena that can be typed back in to get the same one, like `1KZ9Q-L3`:
+ * the seed in base 36, then the size and density.
+ */
+export const formatArenaCode = (seed: number, options: Partial<ArenaGeneratorOptions> = {}) => {
+  const { size, density } = normaliseOptions(options);
+  return `${(seed >>> 0).toString(36).toUpperCase()}-${SIZE_CODES[size]}${density}`;
+};
+
+// The seed and options behind a code from `formatArenaCode`, or null if it isn't one
+export const parseArenaCode = (code: string): { seed: number; options: ArenaGeneratorOptions } | null => {
+  const match = /^([0-9A-Z]{1,7})-([SML])(\d)$/.exec(code.trim().toUpperCase());
+  if (!match) return null;
+  const seed = parseInt(match[1], 36);
+  const density = Number(match[3]);
+  if (seed > 0xffffffff || density < MIN_DENSITY || density > MAX_DENSITY) return null;
+  const size = (Object.keys(SIZE_CODES) as GeneratedArenaSize[]).find(key => SIZE_CODES[key] === match[2])!;
+  return { seed, options: { size, density } };
+};
+
+const round = (point: Vec2): Vec2 => ({ x: Math.round(point.x), y: Math.round(point.y) });
+
+const rotate = (point: Vec2, angle: number): Vec2 => ({
+  x: point.x * Math.cos(angle) - point.y * Math.sin(angle),
+  y: point.x * Math.sin(angle) + point.y * Math.cos(angle),
+});
+
+// Corners of a shape given relative to `centre`, turned by `angle`
+const placeShape = (centre: Vec2, shape: Vec2[], angle: number) =>
+  shape.map(point => {
+    const turned = rotate(point, angle);
+    return round({ x: centre.x + turned.x, y: centre.y + turned.y });
+  });
+
+const isClear = (circle: Circle, others: Circle[], gap: number) =>
+  others.every(other => Math.hypot(other.x - circle.x, other.y - circle.y) >= other.radius + circle.radius + gap);
+
+// How far `point` is from the nearest thing a car could hit, counting the outer walls
+const getOpenDistance = (point: Vec2, bounds: Bounds, groups: FeatureGroup[]) => {
+  let distance = Math.min(point.x - bounds.minX, bounds.maxX - point.x, point.y - bounds.minY, bounds.maxY - point.y);
+  for (const group of groups) {
+    for (const pillar of group.pillars) {
+      distance = Math.min(distance, Math.hypot(point.x - pillar.x, point.y - pillar.y) - pillar.radius);
+    }
+    for (const barrel of group.barrels) {
+      distance = Math.min(distance, Math.hypot(point.x - barrel.x, point.y - barrel.y) - BARREL_RADIUS);
+    }
+    for (const wall of [...group.walls, ...group.props.map(prop => prop.points)]) {
+      if (isPointInPolygon(point, wall)) return 0;
+      const edge = getClosestPointOnEdges(point, wall);
+      distance = Math.min(distance, Math.hypot(point.x - edge.x, point.y - edge.y));
+    }
+  }
+  return distance;
+};
+
+/**
+ * Starting spots round a ring like `createRingCars`, each moved to the nearest place a car fits. Only places joined
+ * up to the biggest open area count, so every car can drive to every other. Cars can drive over `floor`, the ramps
+ * and hazards, but don't start on them, where they'd fly or slide before the driver has touched anything. Returns
+ * fewer spots than asked for when there isn't the room.
+ */
+const placeSpawns = (bounds: Bounds, groups: FeatureGroup[], floor: Vec2[][]): Spawn[] => {
+  const columns = Math.floor((bounds.maxX - bounds.minX) / CELL_SIZE);
+  const rows = Math.floor((bounds.maxY - bounds.minY) / CELL_SIZE);
+  const getCellCentre = (cell: number): Vec2 => ({
+    x: bounds.minX + ((cell % columns) + 0.5) * CELL_SIZE,
+    y: bounds.minY + (Math.floor(cell / columns) + 0.5) * CELL_SIZE,
+  });
+  const open = Array.from(
+    { length: columns * rows },
+    (_, cell) => getOpenDistance(getCellCentre(cell), bounds, groups) >= CLEARANCE,
+  );
+
+  // Flood fill each open area, keeping the biggest
+  const area = new Array<number>(open.length).fill(-1);
+  let biggest: number[] = [];
+  open.forEach((isOpen, start) => {
+    if (!isOpen || area[start] >= 0) return;
+    const cells = [start];
+    area[start] = start;
+    for (let i = 0; i < cells.length; i++) {
+      const cell = cells[i];
+      const column = cell % columns;
+      const neighbours = [
+        column > 0 ? cell - 1 : -1,
+        column < columns - 1 ? cell + 1 : -1,
+        cell - columns,
+        cell + columns,
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || next >= open.length || !open[next] || area[next] >= 0) continue;
+        area[next] = start;
+        cells.push(next);
+      }
+    }
+    if (cells.length > biggest.length) biggest = cells;
+  });
+
+  const centre = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  const radiusX = Math.max(0, (bounds.maxX - bounds.minX) / 2 - 70);
+  const radiusY = Math.max(0, (bounds.maxY - bounds.minY) / 2 - 60);
+  const isOffFloor = (point: Vec2) =>
+    floor.every(outline => {
+      const edge = getClosestPointOnEdges(point, outline);
+      return !isPointInPolygon(point, outline) && Math.hypot(edge.x - point.x, edge.y - point.y) >= CLEARANCE;
+    });
+  const candidates = biggest.map(getCellCentre);
+  const spawns: Spawn[] = [];
+  for (let i = 0; i < SPAWN_COUNT; i++) {
+    const theta = Math.PI + (i / SPAWN_COUNT) * Math.PI * 2;
+    const target = { x: centre.x + Math.cos(theta) * radiusX, y: centre.y + Math.sin(theta) * radiusY };
+    let best: Vec2 | null = null;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+      const distance = Math.hypot(candidate.x - target.x, candidate.y - target.y);
+      if (distance >= bestDistance) continue;
+      if (spawns.some(spawn => Math.hypot(spawn.x - candidate.x, spawn.y - candidate.y) < SPAWN_SPACING)) continue;
+      if (!isOffFloor(candidate)) continue;
+      [best, bestDistance] = [candidate, distance];
+    }
+    if (!best) break;
+    const angle = Math.atan2(centre.y - best.y, centre.x - best.x);
+    spawns.push({ ...round(best), angle: Math.round(angle * 1000) / 1000 });
+  }
+  return spawns;
+};
+
+/**
+ * A random arena that always passes `validateArenaFile`: clusters of pillars, blocks, barrels, crates and fences,
+ * ramps that throw cars into the air, and patches of mud, ice and oil. Everything but the pillars and most blocks can
+ * be smashed. There's a starting spot for every car in the biggest derby, all clear of each other and all in one open
+ * area. The same seed and options give the same arena.
+ */
+export const generateArena = (seed: number, options: Partial<ArenaGeneratorOptions> = {}): ArenaFile => {
+  const settings = normaliseOptions(options);
+  const size = GENERATED_ARENA_SIZES[settings.size];
+  const bounds = getArenaBounds(size);
+  const random = createRng(seed);
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const pick = <T>(list: readonly T[]) => list[Math.floor(random() * list.length)];
+  // Bigger arenas get more of everything, so density feels the same at any size
+  const scale = (size.width * size.height) / (MAX_ARENA_SIZE.width * MAX_ARENA_SIZE.height);
+
+  const groups: FeatureGroup[] = [];
+  // Ramps don't block anyone, but nothing should be standing on them either
+  const ramps: Ramp[] = [];
+  const rampAreas: Circle[] = [];
+  const footprints = () => [...groups.flatMap(group => group.footprints), ...rampAreas];
+
+  // Somewhere for a piece of `radius` that's inside the walls and clear of everything placed so far
+  const findSpot = (radius: number, gap: number, near?: Circle): Vec2 | null => {
+    for (let i = 0; i < PLACEMENT_TRIES; i++) {
+      const point = near
+        ? { x: near.x + between(-near.radius, near.radius), y: near.y + between(-near.radius, near.radius) }
+        : {
+            x: between(bounds.minX + radius + CLUSTER_GAP, bounds.maxX - radius - CLUSTER_GAP),
+            y: between(bounds.minY + radius + CLUSTER_GAP, bounds.maxY - radius - CLUSTER_GAP),
+          };
+      const inside =
+        point.x - radius > bounds.minX + 4 &&
+        point.x + radius < bounds.maxX - 4 &&
+        point.y - radius > bounds.minY + 4 &&
+        point.y + radius < bounds.maxY - 4;
+      if (inside && isClear({ ...point, radius }, footprints(), gap)) return round(point);
+    }
+    return null;
+  };
+
+  const addCluster = () => {
+    const area = { radius: between(50, 90), x: 0, y: 0 };
+    const spot = findSpot(area.radius, CLUSTER_GAP);
+    if (!spot) return;
+    const cluster = { ...area, ...spot };
+    const group: FeatureGroup = { walls: [], pillars: [], barrels: [], props: [], footprints: [] };
+    groups.push(group);
+    // Pieces of a cluster sit close together but never overlap
+    const addPiece = (radius: number, add: (point: Vec2) => void) => {
+      const point = findSpot(radius, 2, cluster);
+      if (!point) return;
+      add(point);
+      group.footprints.push({ ...point, radius });
+    };
+
+    const kind = pick(["pillars", "blocks", "barrels", "crates", "fences"] as const);
+    const count = kind === "barrels" || kind === "crates" ? 3 + Math.floor(random() * 4) : 2 + Math.floor(random() * 2);
+    // Some clusters of blocks are weak stretches of wall that can be knocked down
+    const blockKind = random() < BREAKABLE_BLOCK_CHANCE ? "wall" : null;
+    // Angles in eighths of a turn look laid out rather than dropped
+    const turn = () => (Math.floor(random() * 8) * Math.PI) / 8;
+    const addBox = (halfWidth: number, halfHeight: number, add: (points: Vec2[]) => void) => {
+      const box = [
+        { x: -halfWidth, y: -halfHeight },
+        { x: halfWidth, y: -halfHeight },
+        { x: halfWidth, y: halfHeight },
+        { x: -halfWidth, y: halfHeight },
+      ];
+      const angle = turn();
+      addPiece(Math.hypot(halfWidth, halfHeight), point => add(placeShape(point, box, angle)));
+    };
+    const addProp = (propKind: PropKind) => (points: Vec2[]) => group.props.push({ kind: propKind, points });
+
+    for (let i = 0; i < count; i++) {
+      if (kind === "pillars") {
+        const radius = Math.round(between(12, 26));
+        addPiece(radius, point => group.pillars.push({ ...point, radius }));
+      }
+      if (kind === "blocks") {
+        addBox(between(15, 45), between(10, 20), blockKind ? addProp(blockKind) : points => group.walls.push(points));
+      }
+      if (kind === "barrels") addPiece(BARREL_RADIUS, point => group.barrels.push(point));
+      if (kind === "crates") {
+        const half = between(12, 18);
+        addBox(half, half, addProp("crate"));
+      }
+      if (kind === "fences") addBox(between(30, 45), 3, addProp("fence"));
+    }
+  };
+
+  // A short slope, narrowing a little towards the lip that cars fly off
+  const addRamp = () => {
+    const halfLength = between(30, 45);
+    const halfWidth = between(25, 35);
+    const radius = Math.hypot(halfLength, halfWidth);
+    const spot = findSpot(radius, CLUSTER_GAP);
+    if (!spot) return;
+    const slope = [
+      { x: -halfLength, y: -halfWidth },
+      { x: halfLength, y: -halfWidth * 0.8 },
+      { x: halfLength, y: halfWidth * 0.8 },
+      { x: -halfLength, y: halfWidth },
+    ];
+    const angle = Math.round(between(-Math.PI, Math.PI) * 1000) / 1000;
+    ramps.push({ points: placeShape(spot, slope, angle), angle });
+    rampAreas.push({ ...spot, radius });
+  };
+
+  const clusters = Math.max(1, Math.round((1 + settings.density) * scale));
+  const rampCount = Math.max(1, Math.round(settings.density * scale * 0.6));
+  // One ramp goes down first so even the most crowded arena gets one. The rest fit in where they can.
+  addRamp();
+  for (let i = 0; i < clusters; i++) addCluster();
+  for (let i = 1; i < rampCount; i++) addRamp();
+
+  // Hazards are only floor, so they can go under anything, just not on top of each other
+  const surfaces: SurfaceRegion[] = [];
+  const hazardAreas: Circle[] = [];
+  const hazards = Math.max(1, Math.round(settings.density * scale * 0.8));
+  for (let i = 0; i < hazards; i++) {
+    const radius = between(45, 90);
+    for (let tries = 0; tries < PLACEMENT_TRIES; tries++) {
+      const centre = {
+        x: between(bounds.minX + radius, bounds.maxX - radius),
+        y: between(bounds.minY + radius, bounds.maxY - radius),
+        radius,
+      };
+      if (!isClear(centre, hazardAreas, 10)) continue;
+      const corners = Array.from({ length: 7 }, (_, corner) =>
+        round(rotate({ x: radius * between(0.7, 1), y: 0 }, ((corner + between(-0.3, 0.3)) / 7) * Math.PI * 2)),
+      );
+      const points = getConvexHull(corners.map(({ x, y }) => ({ x: x + centre.x, y: y + centre.y })));
+      surfaces.push({ kind: pick(HAZARD_KINDS), points: points.map(round) });
+      hazardAreas.push(centre);
+      break;
+    }
+  }
+
+  // Take clusters away, newest first, until every car has somewhere to start. If that's still not enough, the
+  // hazards go too.
+  const getFloor = () => [...ramps.map(ramp => ramp.points), ...surfaces.map(surface => surface.points)];
+  let spawns = placeSpawns(bounds, groups, getFloor());
+  while (spawns.length < SPAWN_COUNT && groups.length > 0) {
+    groups.pop();
+    spawns = placeSpawns(bounds, groups, getFloor());
+  }
+  while (spawns.length < SPAWN_COUNT && surfaces.length > 0) {
+    surfaces.pop();
+    spawns = placeSpawns(bounds, groups, getFloor());
+  }
+
+  return {
+    version: ARENA_FORMAT_VERSION,
+    name: `Random ${formatArenaCode(seed, settings)}`,
+    bounds: { ...size },
+    walls: groups.flatMap(group => group.walls.map(points => ({ points }))),
+    pillars: groups.flatMap(group => group.pillars),
+    barrels: groups.flatMap(group => group.barrels),
+    props: groups.flatMap(group => group.props),
+    spawns,
+    surfaces,
+    ramps,
+  };
+};
+
+// Scuffed patches of dirt to break up a bare floor, scattered from the seed so each round looks a little different
+export const generateFloorPatches = (seed: number, bounds: Bounds, count = 40): Circle[] => {
+  const random = createRng(seed);
+  return Array.from({ length: count }, () => ({
+    x: bounds.minX + random() * (bounds.maxX - bounds.minX),
+    y: bounds.minY + random() * (bounds.maxY - bounds.minY),
+    radius: 10 + random() * 20,
+  }));
+};
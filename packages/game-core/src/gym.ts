@@ -0,0 +1,235 @@
+import { createAiDriver } from "./ai";
+import { toCarDirection, toCarLocal } from "./car";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, MAX_ANGULAR_VEL, MAX_SPEED, TICK_RATE } from "./constants";
+import { createSnapshot, sanitizeInput } from "./controller";
+import type { BotDefinition } from "./tournament";
+import type { AnalogInput, Car, Controller, GameEvent, HitZone, StepInputs, World } from "./types";
+import { createRingCars, createWorld, step } from "./world";
+
+/**
+ * Headless training environment in the style of an OpenAI Gym env.
+ * The agent drives car 0 and every other car is driven by the opponent bot. Nothing here touches the DOM, so it runs
+ * under plain Node for offline training.
+ */
+
+export interface DerbyEnvOptions {
+  opponents: number; // Cars besides the agent's
+  opponent: BotDefinition; // Drives every other car
+  maxTicks: number; // Episode length before it's cut off
+}
+
+export interface DerbyStepInfo {
+  tick: number;
+  damageDealt: number; // Health lost this tick by the cars the agent traded hits with
+  damageTaken: number; // Health the agent lost this tick
+  // True when the episode ended on the time limit rather than a wreck
+  truncated: boolean;
+}
+
+export interface DerbyStepResult {
+  observation: number[];
+  reward: number;
+  done: boolean;
+  info: DerbyStepInfo;
+}
+
+export interface DerbyEnv {
+  readonly observationSize: number;
+  readonly world: World | null;
+  reset: (seed: number) => number[];
+  step: (action: AnalogInput) => DerbyStepResult;
+}
+
+export const AGENT_ID = 0;
+
+export const DEFAULT_ENV_OPTIONS: DerbyEnvOptions = {
+  opponents: 1,
+  opponent: {
+    name: "AI (normal)",
+    createController: (carId, seed) => createAiDriver(carId, "normal", seed),
+  },
+  maxTicks: TICK_RATE * 60,
+};
+
+const SELF_FEATURES = 11;
+const OPPONENT_FEATURES = 12;
+
+export const getObservationSize = (opponents: number) => SELF_FEATURES + opponents * OPPONENT_FEATURES;
+
+/**
+ * Damage the agent dealt and took in its own collisions this tick. Every hit is played back over the health the cars
+ * started the tick with, in the order `handleCarCollision` dealt them, so a zone that's already smashed to nothing
+ * stops counting just as it does for real. Hits between other cars use up health too, but count for nobody.
+ */
+const tallyDamage = (before: World, events: GameEvent[]) => {
+  const health = new Map(before.cars.map(car => [car.id, { ...car.health }]));
+  const hit = (carId: number, zone: HitZone, damage: number) => {
+    const zones = health.get(carId)!;
+    const lost = Math.min(zones[zone], damage);
+    zones[zone] -= lost;
+    return lost;
+  };
+
+  let damageDealt = 0;
+  let damageTaken = 0;
+  for (const event of events) {
+    if (event.type !== "collision") continue;
+    const attackerLost = hit(event.attackerId, event.attackerZone, event.attackerDamage);
+    const victimLost = hit(event.victimId, event.victimZone, event.damage);
+    if (event.attackerId === AGENT_ID) {
+      damageDealt += victimLost;
+      damageTaken += attackerLost;
+    } else if (event.victimId === AGENT_ID) {
+      damageDealt += attackerLost;
+      damageTaken += victimLost;
+    }
+  }
+  return { damageDealt, damageTaken };
+};
+
+const zoneHealth = (car: Car) =>
+  [car.health.front, car.health.rear, car.health.left, car.health.right].map(h => h / 100);
+
+/**
+ * Flat, roughly unit-scaled feature vector for the agent.
+ * Self: velocity in its own frame, spin, heading, position in the arena and zone health.
+ * Each opponent, in id order: where it is and how it's moving relative to the agent, which way it's facing relative
+ * to the agent, its zone health and whether it's wrecked.
+ */
+export const observe = (world: World, carId = AGENT_ID): number[] => {
+  const self = world.cars.find(car => car.id === carId);
+  if (!self) throw new Error(`No car with id ${carId}`);
+
+  const velocity = toCarDirection(self, { x: self.vx, y: self.vy });
+  const observation = [
+    velocity.x / MAX_SPEED,
+    velocity.y / MAX_SPEED,
+    self.angularVel / MAX_ANGULAR_VEL,
+    Math.cos(self.angle),
+    Math.sin(self.angle),
+    (self.x / CANVAS_WIDTH) * 2 - 1,
+    (self.y / CANVAS_HEIGHT) * 2 - 1,
+    ...zoneHealth(self),
+  ];
+
+  for (const car of world.cars) {
+    if (car.id === carId) continue;
+    const offset = toCarLocal(self, car);
+    const relativeVelocity = toCarDirection(self, { x: car.vx - self.vx, y: car.vy - self.vy });
+    const relativeAngle = car.angle - self.angle;
+    observation.push(
+      offset.x / CANVAS_WIDTH,
+      offset.y / CANVAS_WIDTH,
+      relativeVelocity.x / MAX_SPEED,
+      relativeVelocity.y / MAX_SPEED,
+      Math.cos(relativeAngle),
+      Math.sin(relativeAngle),
+      car.angularVel / MAX_ANGULAR_VEL,
+      ...zoneHealth(car),
+      car.wrecked ? 1 : 0,
+    );
+  }
+
+  return observation;
+};
+
+export const createDerbyEnv = (options: Partial<DerbyEnvOptions> = {}): DerbyEnv => {
+  const { opponents, opponent, maxTicks } = { ...DEFAULT_ENV_OPTIONS, ...options };
+  const observationSize = getObservationSize(opponents);
+
+  let world: World | null = null;
+  let controllers: Record<number, Controller> = {};
+
+  const isOver = (current: World) =>
+    current.cars[AGENT_ID].wrecked || current.cars.every(car => car.id === AGENT_ID || car.wrecked);
+
+  return {
+    observationSize,
+    get world() {
+      return world;
+    },
+    reset: (seed: number) => {
+      world = createWorld(seed, createRingCars(opponents + 1));
+      controllers = {};
+      for (const car of world.cars) {
+        if (car.id !== AGENT_ID) controllers[car.id] = opponent.createController(car.id, seed * 31 + car.id);
+      }
+      return observe(world);
+    },
+    step: (action: AnalogInput) => {
+      if (!world) throw new Error("Call reset() before step()");
+      if (isOver(world) || world.tick >= maxTicks) throw new Error("Episode is over, call reset()");
+
+      const snapshot = createSnapshot(world);
+      const inputs: StepInputs = { [AGENT_ID]: sanitizeInput(action) };
+      for (const [carId, controller] of Object.entries(controllers)) {
+        inputs[Number(carId)] = sanitizeInput(controller.decide(snapshot));
+      }
+      const before = world;
+      world = step(before, inputs);
+      // Wrecks raise no collision events, so ramming one earns nothing
+      const { damageDealt, damageTaken } = tallyDamage(before, world.events);
+
+      const terminated = isOver(world);
+      const truncated = !terminated && world.tick >= maxTicks;
+      return {
+        observation: observe(world),
+        reward: damageDealt - damageTaken,
+        done: terminated || truncated,
+        info: { tick: world.tick, damageDealt, damageTaken, truncated },
+      };
+    },
+  };
+};
+
+export interface VecStepResult {
+  observations: number[][];
+  rewards: number[];
+  dones: boolean[];
+  // For an env that just finished, `finalObservation` is the last frame of the old episode - `observations` already
+  // holds the first frame of the next one
+  infos: (DerbyStepInfo & { finalObservation?: number[] })[];
+}
+
+export interface DerbyVecEnv {
+  readonly size: number;
+  readonly observationSize: number;
+  reset: (seed: number) => number[][];
+  step: (actions: AnalogInput[]) => VecStepResult;
+}
+
+/**
+ * A batch of independent envs stepped together. Finished envs reset themselves with the next unused seed, so a
+ * training loop can keep stepping without bookkeeping.
+ */
+export const createDerbyVecEnv = (size: number, options: Partial<DerbyEnvOptions> = {}): DerbyVecEnv => {
+  const envs = Array.from({ length: size }, () => createDerbyEnv(options));
+  let nextSeed = 0;
+
+  return {
+    size,
+    observationSize: getObservationSize(options.opponents ?? DEFAULT_ENV_OPTIONS.opponents),
+    reset: (seed: number) => {
+      nextSeed = seed + size;
+      return envs.map((env, i) => env.reset(seed + i));
+    },
+    step: (actions: AnalogInput[]) => {
+      if (actions.length !== size) throw new Error(`Expected ${size} actions, got ${actions.length}`);
+
+      const result: VecStepResult = { observations: [], rewards: [], dones: [], infos: [] };
+      envs.forEach((env, i) => {
+        const { observation, reward, done, info } = env.step(actions[i]);
+        result.rewards.push(reward);
+        result.dones.push(done);
+        if (done) {
+          result.infos.push({ ...info, finalObservation: observation });
+          result.observations.push(env.reset(nextSeed++));
+        } else {
+          result.infos.push(info);
+          result.observations.push(observation);
+        }
+      });
+      return result;
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import type { Contact, RigidBody, Vec2 } from "./types";
+
+const ZERO: Vec2 = { x: 0, y: 0 };
+
+// 2D cross product (z component of a × b)
+const cross = (a: Vec2, b: Vec2) => a.x * b.y - a.y * b.x;
+
+export const getInverseMass = (body: RigidBody) => (body.isStatic ? 0 : 1 / body.mass);
+export const getInverseInertia = (body: RigidBody) => (body.isStatic ? 0 : 1 / body.inertia);
+
+// Moment of inertia of a solid rectangle about its centre
+export const getBoxInertia = (mass: number, width: number, height: number) =>
+  (mass * (width * width + height * height)) / 12;
+
+// Velocity of a point on the body, including the contribution from its spin
+export const getPointVelocity = (body: RigidBody, point: Vec2): Vec2 => {
+  const rx = point.x - body.x;
+  const ry = point.y - body.y;
+  return { x: body.vx - body.angularVel * ry, y: body.vy + body.angularVel * rx };
+};
+
+const applyImpulse = (body: RigidBody, r: Vec2, impulse: Vec2) => {
+  const invMass = getInverseMass(body);
+  body.vx += impulse.x * invMass;
+  body.vy += impulse.y * invMass;
+  body.angularVel += cross(r, impulse) * getInverseInertia(body);
+};
+
+/**
+ * Resolve a contact with a normal impulse (restitution) and a Coulomb friction impulse, both applied at the
+ * contact point so off-centre hits spin the bodies. `b` is null for immovable scenery such as walls.
+ * Returns the closing speed at the contact point before resolution (0 if the bodies were already separating).
+ */
+export const resolveImpulse = (
+  a: RigidBody,
+  b: RigidBody | null,
+  contact: Contact,
+  restitution: number,
+  friction: number,
+): number => {
+  const { normal, point } = contact;
+  const ra = { x: point.x - a.x, y: point.y - a.y };
+  const rb = b ? { x: point.x - b.x, y: point.y - b.y } : ZERO;
+
+  const invMassA = getInverseMass(a);
+  const invInertiaA = getInverseInertia(a);
+  const invMassB = b ? getInverseMass(b) : 0;
+  const invInertiaB = b ? getInverseInertia(b) : 0;
+
+  const relativeVelocity = () => {
+    const va = getPointVelocity(a, point);
+    const vb = b ? getPointVelocity(b, point) : ZERO;
+    return { x: vb.x - va.x, y: vb.y - va.y };
+  };
+
+  const rv = relativeVelocity();
+  const closingVel = rv.x * normal.x + rv.y * normal.y;
+  if (closingVel >= 0) return 0;
+
+  const raN = cross(ra, normal);
+  const rbN = cross(rb, normal);
+  const normalMass = invMassA + invMassB + raN * raN * invInertiaA + rbN * rbN * invInertiaB;
+  if (normalMass === 0) return -closingVel;
+
+  const j = (-(1 + restitution) * closingVel) / normalMass;
+  applyImpulse(a, ra, { x: -normal.x * j, y: -normal.y * j });
+  if (b) applyImpulse(b, rb, { x: normal.x * j, y: normal.y * j });
+
+  // Friction opposes the sliding that remains after the normal impulse
+  const slide = relativeVelocity();
+  const slideNormal = slide.x * normal.x + slide.y * normal.y;
+  const tx = slide.x - normal.x * slideNormal;
+  const ty = slide.y - normal.y * slideNormal;
+  const slideSpeed = Math.sqrt(tx * tx + ty * ty);
+
+  if (slideSpeed > 1e-9) {
+    const tangent = { x: tx / slideSpeed, y: ty / slideSpeed };
+    const raT = cross(ra, tangent);
+    const rbT = cross(rb, tangent);
+    const tangentMass = invMassA + invMassB + raT * raT * invInertiaA + rbT * rbT * invInertiaB;
+    const jt = Math.max(-friction * j, Math.min(friction * j, -slideSpeed / tangentMass));
+
+    applyImpulse(a, ra, { x: -tangent.x * jt, y: -tangent.y * jt });
+    if (b) applyImpulse(b, rb, { x: tangent.x * jt, y: tangent.y * jt });
+  }
+
+  return -closingVel;
+};
+
+// Push overlapping bodies apart along the contact normal, the lighter body moving further
+export const separateBodies = (a: RigidBody, b: RigidBody | null, contact: Contact, slop = 0) => {
+  const invMassA = getInverseMass(a);
+  const invMassB = b ? getInverseMass(b) : 0;
+  const totalInvMass = invMassA + invMassB;
+  if (totalInvMass === 0) return;
+
+  const distance = contact.depth + slop;
+  const shareA = (distance * invMassA) / totalInvMass;
+  const shareB = (distance * invMassB) / totalInvMass;
+
+  a.x -= contact.normal.x * shareA;
+  a.y -= contact.normal.y * shareA;
+  if (b) {
+    b.x += contact.normal.x * shareB;
+    b.y += contact.normal.y * shareB;
+  }
+};
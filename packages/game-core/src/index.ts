@@ -0,0 +1,27 @@
+export * from "./ai";
+export * from "./arena";
+export * from "./arenas";
+export * from "./ball";
+export * from "./broadphase";
+export * from "./car";
+export * from "./collision";
+export * from "./constants";
+export * from "./controller";
+export * from "./damage";
+export * from "./generator";
+export * from "./gym";
+export * from "./impulse";
+export * from "./match";
+export * from "./modes";
+export * from "./physics";
+export * from "./polygon";
+export * from "./powerups";
+export * from "./props";
+export * from "./ramps";
+export * from "./rng";
+export * from "./sat";
+export * from "./surfaces";
+export * from "./scoring";
+export * from "./tournament";
+export * from "./types";
+export * from "./world";
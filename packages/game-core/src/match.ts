@@ -0,0 +1,207 @@
+import { getTotalHealth } from "./car";
+import { TICK_RATE } from "./constants";
+import type { World } from "./types";
+
+export type MatchPhase = "lobby" | "countdown" | "playing" | "roundOver" | "results";
+
+export interface MatchSettings {
+  bestOf: number; // Rounds in the match; the first to win a majority takes it
+  roundTicks: number; // Round time limit
+  countdownTicks: number;
+  roundOverTicks: number; // How long the round result stays up before the next countdown
+}
+
+export type MatchEvent =
+  | { type: "roundCountdown"; round: number } // A new round is being set up - time for a fresh world
+  | { type: "countdownTick"; count: number }
+  | { type: "roundStart"; round: number }
+  | { type: "roundOver"; round: number; winnerId: number | null; timeUp: boolean }
+  | { type: "matchOver"; winnerId: number | null };
+
+export interface RoundResult {
+  winnerId: number | null; // null for a draw
+  timeUp: boolean; // Decided on health when the clock ran out
+  ticks: number;
+  placements: number[]; // Car ids from first to last
+}
+
+export interface MatchState {
+  phase: MatchPhase;
+  settings: MatchSettings;
+  seed: number;
+  round: number; // 1-based, 0 in the lobby
+  phaseTick: number; // Ticks spent in the current phase
+  // Rounds won, keyed by car id
+  wins: Record<number, number>;
+  rounds: RoundResult[];
+  // Car ids in the order they were wrecked this round
+  eliminated: number[];
+  matchWinnerId: number | null;
+  // Events raised by the update that produced this state
+  events: MatchEvent[];
+}
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  bestOf: 3,
+  roundTicks: TICK_RATE * 90,
+  countdownTicks: TICK_RATE * 3,
+  roundOverTicks: TICK_RATE * 3,
+};
+
+export const createMatch = (settings: Partial<MatchSettings> = {}, seed = 1): MatchState => ({
+  phase: "lobby",
+  settings: { ...DEFAULT_MATCH_SETTINGS, ...settings },
+  seed,
+  round: 0,
+  phaseTick: 0,
+  wins: {},
+  rounds: [],
+  eliminated: [],
+  matchWinnerId: null,
+  events: [],
+});
+
+export const getWinsNeeded = (match: MatchState) => Math.floor(match.settings.bestOf / 2) + 1;
+
+// Every round gets its own seed so rounds differ but the whole match replays
+export const getRoundSeed = (match: MatchState) => match.seed * 1000 + match.round;
+
+// Whole seconds left on the countdown, e.g. 3, 2, 1
+export const getCountdown = (match: MatchState) =>
+  Math.ceil((match.settings.countdownTicks - match.phaseTick) / TICK_RATE);
+
+export const getRoundTicksLeft = (match: MatchState) =>
+  match.phase === "playing" ? Math.max(0, match.settings.roundTicks - match.phaseTick) : match.settings.roundTicks;
+
+// Cars only move while the round is on, and keep rolling while the result is shown
+export const isSimulating = (match: MatchState) => match.phase === "playing" || match.phase === "roundOver";
+
+// Drivers only get control during play
+export const isDriving = (match: MatchState) => match.phase === "playing";
+
+/**
+ * Finishing order: cars still running, healthiest first, then the wrecked ones, last wrecked first.
+ * Cars wrecked on the same tick share the order they were recorded in.
+ */
+export const getPlacements = (world: World, eliminated: number[]): number[] => {
+  const running = world.cars
+    .filter(car => !car.isStatic && !car.wrecked)
+    .sort((a, b) => getTotalHealth(b) - getTotalHealth(a) || a.id - b.id);
+  return [...running.map(car => car.id), ...[...eliminated].reverse()];
+};
+
+/**
+ * Winner of a finished round: the last car running, or on time up the healthiest one still running.
+ * `undefined` while the round is still going, `null` for a draw.
+ */
+export const getRoundWinner = (world: World, timeUp: boolean): number | null | undefined => {
+  const running = world.cars.filter(car => !car.wrecked && !car.isStatic);
+  if (running.length === 0) return null;
+  if (running.length === 1) return running[0].id;
+  if (!timeUp) return undefined;
+
+  const best = Math.max(...running.map(getTotalHealth));
+  const leaders = running.filter(car => getTotalHealth(car) === best);
+  return leaders.length === 1 ? leaders[0].id : null;
+};
+
+/**
+ * How a mode decides its rounds. `getWinner` returns undefined while the round is still going and null for a draw.
+ * The default is last car standing, falling back to health when the clock runs out.
+ */
+export interface RoundRules {
+  getWinner: (world: World, timeUp: boolean) => number | null | undefined;
+  getPlacements: (world: World, eliminated: number[]) => number[];
+}
+
+export const LAST_CAR_STANDING: RoundRules = {
+  getWinner: getRoundWinner,
+  getPlacements,
+};
+
+const enterCountdown = (match: MatchState, round: number): MatchState => ({
+  ...match,
+  phase: "countdown",
+  round,
+  phaseTick: 0,
+  eliminated: [],
+  events: [
+    { type: "roundCountdown", round },
+    { type: "countdownTick", count: Math.ceil(match.settings.countdownTicks / TICK_RATE) },
+  ],
+});
+
+// Leave the lobby (or results, for a rematch) and start the first round's countdown
+export const startMatch = (match: MatchState): MatchState =>
+  enterCountdown({ ...createMatch(match.settings, match.seed), events: [] }, 1);
+
+export const returnToLobby = (match: MatchState): MatchState => createMatch(match.settings, match.seed);
+
+/**
+ * Advance the match clock by one tick. Pure, like `step`.
+ * `world` is the world after this tick's physics and is only looked at during play.
+ */
+export const updateMatch = (match: MatchState, world: World, rules: RoundRules = LAST_CAR_STANDING): MatchState => {
+  const next: MatchState = { ...match, phaseTick: match.phaseTick + 1, events: [] };
+  const { settings } = next;
+
+  switch (next.phase) {
+    case "lobby":
+    case "results":
+      return next;
+
+    case "countdown": {
+      if (next.phaseTick >= settings.countdownTicks) {
+        return { ...next, phase: "playing", phaseTick: 0, events: [{ type: "roundStart", round: next.round }] };
+      }
+      const count = getCountdown(next);
+      if (count !== getCountdown(match)) next.events.push({ type: "countdownTick", count });
+      return next;
+    }
+
+    case "playing": {
+      const newlyWrecked = world.cars.filter(car => car.wrecked && !car.isStatic && !next.eliminated.includes(car.id));
+      if (newlyWrecked.length > 0) next.eliminated = [...next.eliminated, ...newlyWrecked.map(car => car.id)];
+
+      const timeUp = next.phaseTick >= settings.roundTicks;
+      const winnerId = rules.getWinner(world, timeUp);
+      if (winnerId === undefined) return next;
+
+      const wins = { ...next.wins };
+      if (winnerId !== null) wins[winnerId] = (wins[winnerId] ?? 0) + 1;
+      return {
+        ...next,
+        phase: "roundOver",
+        phaseTick: 0,
+        wins,
+        rounds: [
+          ...next.rounds,
+          { winnerId, timeUp, ticks: next.phaseTick, placements: rules.getPlacements(world, next.eliminated) },
+        ],
+        events: [{ type: "roundOver", round: next.round, winnerId, timeUp }],
+      };
+    }
+
+    case "roundOver": {
+      if (next.phaseTick < settings.roundOverTicks) return next;
+
+      const [leaderId, leaderWins] = Object.entries(next.wins)
+        .map(([id, wins]) => [Number(id), wins] as const)
+        .reduce<readonly [number | null, number]>((best, entry) => (entry[1] > best[1] ? entry : best), [null, 0]);
+      const clinched = leaderWins >= getWinsNeeded(next);
+      const outOfRounds = next.round >= settings.bestOf;
+      if (!clinched && !outOfRounds) return enterCountdown(next, next.round + 1);
+
+      // Out of rounds with no majority (drawn rounds) - it's only a win if nobody is level with the leader
+      const tied = Object.values(next.wins).filter(wins => wins === leaderWins).length > 1;
+      const matchWinnerId = tied ? null : leaderId;
+      return {
+        ...next,
+        phase: "results",
+        phaseTick: 0,
+        matchWinnerId,
+        events: [{ type: "matchOver", winnerId: matchWinnerId }],
+      };
+    }
+  }
+};
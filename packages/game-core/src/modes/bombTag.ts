@@ -0,0 +1,137 @@
+import { createAiDriver } from "../ai";
+import type { AiDifficulty } from "../ai";
+import { TICK_RATE } from "../constants";
+import { applyZoneDamage } from "../damage";
+import { nextRandom } from "../rng";
+import type { Controller, HitZone, World } from "../types";
+import { PLAYER_ID, cloneWorld, createRingCars, createWorld, getCar } from "../world";
+
+export const BOMB_TAG_MIN_OPPONENTS = 2;
+export const BOMB_TAG_MAX_OPPONENTS = 7;
+
+export interface BombTagOptions {
+  opponents: number;
+  difficulty: AiDifficulty;
+  fuseTicks: number; // How long each bomb burns before it goes off
+  tagCooldownTicks: number; // After a pass the bomb can't change hands again for this long, so no instant tag-backs
+}
+
+export interface BombTag {
+  fromId: number;
+  toId: number;
+  tick: number;
+}
+
+export interface BombTagState {
+  options: BombTagOptions;
+  holderId: number | null;
+  fuseEndsTick: number;
+  tagCooldownUntil: number;
+  lastTag: BombTag | null;
+  rngState: number;
+}
+
+export const DEFAULT_BOMB_TAG_OPTIONS: BombTagOptions = {
+  opponents: 3,
+  difficulty: "normal",
+  fuseTicks: TICK_RATE * 20,
+  tagCooldownTicks: TICK_RATE,
+};
+
+const ZONES: HitZone[] = ["front", "rear", "left", "right"];
+
+const clampOpponents = (opponents: number) =>
+  Math.max(BOMB_TAG_MIN_OPPONENTS, Math.min(BOMB_TAG_MAX_OPPONENTS, Math.round(opponents)));
+
+export const createBombTagWorld = (seed: number, options: Partial<BombTagOptions> = {}): World => {
+  const { opponents } = { ...DEFAULT_BOMB_TAG_OPTIONS, ...options };
+  return createWorld(seed, createRingCars(clampOpponents(opponents) + 1));
+};
+
+// Light a fresh fuse on a random car that's still running
+const handOutBomb = (state: BombTagState, world: World): BombTagState => {
+  const running = world.cars.filter(car => !car.wrecked && !car.isStatic);
+  if (running.length < 2) return { ...state, holderId: null };
+
+  const { value, state: rngState } = nextRandom(state.rngState);
+  return {
+    ...state,
+    holderId: running[Math.floor(value * running.length)].id,
+    fuseEndsTick: world.tick + state.options.fuseTicks,
+    tagCooldownUntil: world.tick + state.options.tagCooldownTicks,
+    lastTag: null,
+    rngState,
+  };
+};
+
+export const createBombTagState = (seed: number, world: World, options: Partial<BombTagOptions> = {}): BombTagState =>
+  handOutBomb(
+    {
+      options: { ...DEFAULT_BOMB_TAG_OPTIONS, ...options },
+      holderId: null,
+      fuseEndsTick: 0,
+      tagCooldownUntil: 0,
+      lastTag: null,
+      rngState: seed >>> 0,
+    },
+    world,
+  );
+
+export const getFuseTicksLeft = (state: BombTagState, world: World) => Math.max(0, state.fuseEndsTick - world.tick);
+
+/**
+ * Pass the bomb and set it off. The holder passes it by ramming someone hard enough to raise a collision event -
+ * the same MIN_IMPACT_FOR_DAMAGE bar that deals damage. When the fuse runs out the holder is wrecked, and a new
+ * bomb goes to a random survivor, so the world comes back too.
+ */
+export const updateBombTag = (state: BombTagState, world: World): { state: BombTagState; world: World } => {
+  if (state.holderId === null) return { state, world };
+
+  let next = state;
+  if (world.tick >= state.tagCooldownUntil) {
+    const tag = world.events.find(
+      event =>
+        event.type === "collision" && event.attackerId === state.holderId && !getCar(world, event.victimId)?.wrecked,
+    );
+    if (tag?.type === "collision") {
+      next = {
+        ...state,
+        holderId: tag.victimId,
+        tagCooldownUntil: world.tick + state.options.tagCooldownTicks,
+        lastTag: { fromId: tag.attackerId, toId: tag.victimId, tick: world.tick },
+      };
+    }
+  }
+
+  // A holder wrecked by other means takes the bomb with them
+  const holder = getCar(world, next.holderId!);
+  if (holder && !holder.wrecked && world.tick < next.fuseEndsTick) return { state: next, world };
+
+  let exploded = world;
+  if (holder && !holder.wrecked) {
+    exploded = cloneWorld(world);
+    const victim = getCar(exploded, holder.id)!;
+    const byId = next.lastTag?.fromId ?? null;
+    for (const zone of ZONES) applyZoneDamage(exploded, victim, zone, victim.health[zone], byId);
+  }
+  return { state: handOutBomb(next, exploded), world: exploded };
+};
+
+// The holder hunts whoever's nearest; everyone else runs from the holder
+export const createBombTagControllers = (
+  world: World,
+  seed: number,
+  getState: () => BombTagState,
+  options: Partial<BombTagOptions> = {},
+): Record<number, Controller> => {
+  const { difficulty } = { ...DEFAULT_BOMB_TAG_OPTIONS, ...options };
+  const getThreat = () => getState().holderId;
+
+  const controllers: Record<number, Controller> = {};
+  for (const car of world.cars) {
+    if (car.id !== PLAYER_ID) {
+      controllers[car.id] = createAiDriver(car.id, difficulty, seed * 31 + car.id, { getThreat });
+    }
+  }
+  return controllers;
+};
@@ -0,0 +1,49 @@
+import { createAiDriver } from "../ai";
+import type { AiDifficulty } from "../ai";
+import { type ArenaLayout, createArenaWorld } from "../arena";
+import type { Controller, World } from "../types";
+import { PLAYER_ID, createRingCars, createWorld } from "../world";
+
+export const DERBY_MIN_OPPONENTS = 5;
+export const DERBY_MAX_OPPONENTS = 11;
+
+// "idle" cars never drive - they're just there to be smashed
+export type DerbyOpponentKind = "ai" | "idle";
+
+export interface DerbyOptions {
+  opponents: number;
+  opponentKind: DerbyOpponentKind;
+  difficulty: AiDifficulty;
+}
+
+export const DEFAULT_DERBY_OPTIONS: DerbyOptions = {
+  opponents: 7,
+  opponentKind: "ai",
+  difficulty: "normal",
+};
+
+const clampOpponents = (opponents: number) =>
+  Math.max(DERBY_MIN_OPPONENTS, Math.min(DERBY_MAX_OPPONENTS, Math.round(opponents)));
+
+// Everyone starts on a ring facing the middle, with the player on the left, unless the arena has its own spawns
+export const createDerbyWorld = (seed: number, options: Partial<DerbyOptions> = {}, layout?: ArenaLayout): World => {
+  const { opponents } = { ...DEFAULT_DERBY_OPTIONS, ...options };
+  const cars = createRingCars(clampOpponents(opponents) + 1);
+  return layout ? createArenaWorld(seed, layout, cars) : createWorld(seed, cars);
+};
+
+// Drivers for every car except the player's. Idle opponents get no controller and just coast.
+export const createDerbyControllers = (
+  world: World,
+  seed: number,
+  options: Partial<DerbyOptions> = {},
+): Record<number, Controller> => {
+  const { opponentKind, difficulty } = { ...DEFAULT_DERBY_OPTIONS, ...options };
+  const controllers: Record<number, Controller> = {};
+  if (opponentKind === "idle") return controllers;
+
+  for (const car of world.cars) {
+    if (car.id !== PLAYER_ID) controllers[car.id] = createAiDriver(car.id, difficulty, seed * 31 + car.id);
+  }
+  return controllers;
+};
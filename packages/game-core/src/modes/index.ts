@@ -0,0 +1,7 @@
+export * from "./bombTag";
+export * from "./derby";
+export * from "./koth";
+export * from "./race";
+export * from "./soccer";
+export * from "./sumo";
+export * from "./survival";
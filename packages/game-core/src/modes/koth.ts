@@ -0,0 +1,147 @@
+import { createAiDriver } from "../ai";
+import type { AiDifficulty } from "../ai";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, TICK_RATE, WALL_THICKNESS } from "../constants";
+import { getPlacements, getRoundWinner } from "../match";
+import type { RoundRules } from "../match";
+import { nextRandom } from "../rng";
+import type { Controller, Vec2, World } from "../types";
+import { PLAYER_ID, createRingCars, createWorld } from "../world";
+
+export interface KothZone {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface KothOptions {
+  opponents: number;
+  difficulty: AiDifficulty;
+  zoneRadius: number;
+  moveTicks: number; // How long the zone stays put before it jumps
+  targetScore: number; // Ticks alone in the zone needed to take the round outright
+}
+
+export interface KothState {
+  zone: KothZone;
+  options: KothOptions;
+  // Ticks each car has spent alone in the zone, keyed by car id
+  scores: Record<number, number>;
+  // The car scoring this tick, or null when the zone is empty or contested
+  holderId: number | null;
+  contested: boolean;
+  nextMoveTick: number;
+  rngState: number;
+}
+
+export const DEFAULT_KOTH_OPTIONS: KothOptions = {
+  opponents: 3,
+  difficulty: "normal",
+  zoneRadius: 80,
+  moveTicks: TICK_RATE * 15,
+  targetScore: TICK_RATE * 30,
+};
+
+export const createKothWorld = (seed: number, options: Partial<KothOptions> = {}): World => {
+  const { opponents } = { ...DEFAULT_KOTH_OPTIONS, ...options };
+  return createWorld(seed, createRingCars(Math.max(1, opponents) + 1));
+};
+
+// Pick a spot for the zone that keeps all of it inside the walls
+const placeZone = (rngState: number, radius: number): { zone: KothZone; rngState: number } => {
+  const margin = WALL_THICKNESS + radius + 20;
+  const x = nextRandom(rngState);
+  const y = nextRandom(x.state);
+  return {
+    zone: {
+      x: margin + x.value * (CANVAS_WIDTH - margin * 2),
+      y: margin + y.value * (CANVAS_HEIGHT - margin * 2),
+      radius,
+    },
+    rngState: y.state,
+  };
+};
+
+// The first zone sits in the middle so nobody starts closer to it
+export const createKothState = (seed: number, options: Partial<KothOptions> = {}): KothState => {
+  const resolved = { ...DEFAULT_KOTH_OPTIONS, ...options };
+  return {
+    zone: { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2, radius: resolved.zoneRadius },
+    options: resolved,
+    scores: {},
+    holderId: null,
+    contested: false,
+    nextMoveTick: resolved.moveTicks,
+    rngState: seed >>> 0,
+  };
+};
+
+export const isInZone = (zone: KothZone, point: Vec2) => Math.hypot(point.x - zone.x, point.y - zone.y) <= zone.radius;
+
+/**
+ * Score one tick of play. A car only scores while it's the sole running car in the zone, and the zone jumps to a
+ * new random spot every `moveTicks`.
+ */
+export const updateKoth = (state: KothState, world: World): KothState => {
+  const inside = world.cars.filter(car => !car.wrecked && !car.isStatic && isInZone(state.zone, car));
+  const holderId = inside.length === 1 ? inside[0].id : null;
+  const scores = holderId === null ? state.scores : { ...state.scores, [holderId]: (state.scores[holderId] ?? 0) + 1 };
+
+  if (world.tick < state.nextMoveTick) {
+    return { ...state, scores, holderId, contested: inside.length > 1 };
+  }
+
+  const { zone, rngState } = placeZone(state.rngState, state.zone.radius);
+  return {
+    ...state,
+    zone,
+    rngState,
+    scores,
+    holderId,
+    contested: inside.length > 1,
+    nextMoveTick: world.tick + state.options.moveTicks,
+  };
+};
+
+// Highest score wins; a wreck-out still ends the round for the last car running
+export const getKothRules = (state: KothState): RoundRules => {
+  const score = (carId: number) => state.scores[carId] ?? 0;
+
+  return {
+    getWinner: (world, timeUp) => {
+      const [leader, runnerUp] = world.cars
+        .filter(car => !car.isStatic)
+        .map(car => car.id)
+        .sort((a, b) => score(b) - score(a) || a - b);
+      if (leader !== undefined && score(leader) >= state.options.targetScore) return leader;
+
+      const lastStanding = getRoundWinner(world, false);
+      if (lastStanding !== undefined) return lastStanding;
+      if (!timeUp) return undefined;
+      return score(leader) > 0 && (runnerUp === undefined || score(leader) > score(runnerUp)) ? leader : null;
+    },
+    // Score decides the order; the sort is stable, so equal scores keep the survival order
+    getPlacements: (world, eliminated) => [...getPlacements(world, eliminated)].sort((a, b) => score(b) - score(a)),
+  };
+};
+
+// AI drivers that head for the zone and ram anyone else standing in it
+export const createKothControllers = (
+  world: World,
+  seed: number,
+  getState: () => KothState,
+  options: Partial<KothOptions> = {},
+): Record<number, Controller> => {
+  const { difficulty } = { ...DEFAULT_KOTH_OPTIONS, ...options };
+  const getObjective = () => {
+    const { zone } = getState();
+    return { point: zone, radius: zone.radius };
+  };
+
+  const controllers: Record<number, Controller> = {};
+  for (const car of world.cars) {
+    if (car.id !== PLAYER_ID) {
+      controllers[car.id] = createAiDriver(car.id, difficulty, seed * 31 + car.id, { getObjective });
+    }
+  }
+  return controllers;
+};
@@ -0,0 +1,314 @@
+import { AI_PROFILES, createStuckRecovery, driveTowards } from "../ai";
+import type { AiDifficulty } from "../ai";
+import { createCar, getSpeed } from "../car";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, WALL_THICKNESS } from "../constants";
+import type { RoundRules } from "../match";
+import { createRng } from "../rng";
+import type { Controller, Vec2, World, WorldSnapshot } from "../types";
+import { CAR_COLORS, NO_INPUT, PLAYER_ID, createWorld, getCar } from "../world";
+
+/**
+ * A checkpoint line from `a` to `b`. Cars cross it forwards when `cross(b - a, travel)` is positive,
+ * which for the built-in track means going clockwise round the infield.
+ */
+export interface RaceGate {
+  a: Vec2;
+  b: Vec2;
+}
+
+export interface RaceOptions {
+  opponents: number;
+  difficulty: AiDifficulty;
+  laps: number;
+  // Gate 0 is the start/finish line
+  gates: RaceGate[];
+}
+
+export interface RacerProgress {
+  lap: number; // Laps completed
+  nextGate: number;
+  lapStartTick: number;
+  // Ticks into the current lap at which each gate was crossed, gate 1 first and the finish line last
+  splits: number[];
+  bestLap: number | null;
+  // Splits of the best lap so far, to compare the current lap against
+  bestSplits: number[];
+  finishedTick: number | null;
+  wrongWay: boolean;
+  wrongWayTicks: number;
+}
+
+export interface RaceState {
+  options: RaceOptions;
+  progress: Record<number, RacerProgress>;
+  // Where each car was after the last update, to sweep for gate crossings
+  positions: Record<number, Vec2>;
+}
+
+export const RACE_MAX_OPPONENTS = 5;
+
+// The oval the track runs round. It's only paint - cutting across it just misses gates.
+export const RACE_INFIELD = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2, radiusX: 190, radiusY: 95 };
+const TRACK_GATES = 8;
+const WRONG_WAY_SPEED = 1;
+const WRONG_WAY_TICKS = 20;
+
+// Gates fan out from the infield oval to the wall, starting at the bottom and running clockwise
+const createTrackGates = (): RaceGate[] =>
+  Array.from({ length: TRACK_GATES }, (_, i) => {
+    const theta = Math.PI / 2 + (i / TRACK_GATES) * Math.PI * 2;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    // Out along the ray until it meets the inside of a wall
+    const reach = Math.min(
+      Math.abs(cos) > 1e-9 ? (CANVAS_WIDTH / 2 - WALL_THICKNESS) / Math.abs(cos) : Infinity,
+      Math.abs(sin) > 1e-9 ? (CANVAS_HEIGHT / 2 - WALL_THICKNESS) / Math.abs(sin) : Infinity,
+    );
+    return {
+      a: { x: RACE_INFIELD.x + cos * RACE_INFIELD.radiusX, y: RACE_INFIELD.y + sin * RACE_INFIELD.radiusY },
+      b: { x: RACE_INFIELD.x + cos * reach, y: RACE_INFIELD.y + sin * reach },
+    };
+  });
+
+export const DEFAULT_RACE_OPTIONS: RaceOptions = {
+  opponents: 3,
+  difficulty: "normal",
+  laps: 5,
+  gates: createTrackGates(),
+};
+
+const clampOpponents = (opponents: number) => Math.max(1, Math.min(RACE_MAX_OPPONENTS, Math.round(opponents)));
+
+// Two-wide grid just past the start line, player on pole
+export const createRaceWorld = (seed: number, options: Partial<RaceOptions> = {}): World => {
+  const { opponents, gates } = { ...DEFAULT_RACE_OPTIONS, ...options };
+  const start = gates[0];
+  const across = { x: start.b.x - start.a.x, y: start.b.y - start.a.y };
+  const width = Math.hypot(across.x, across.y);
+  const side = { x: across.x / width, y: across.y / width };
+  // Forwards is a quarter turn from the line, the way that makes `cross(line, forwards)` positive
+  const forward = { x: -side.y, y: side.x };
+
+  const cars = Array.from({ length: clampOpponents(opponents) + 1 }, (_, i) => {
+    const row = Math.floor(i / 2);
+    const lane = i % 2 === 0 ? 0.35 : 0.7;
+    const back = 45 + row * 65;
+    const x = start.a.x + side.x * width * lane + forward.x * back;
+    const y = start.a.y + side.y * width * lane + forward.y * back;
+    return createCar(x, y, CAR_COLORS[i % CAR_COLORS.length], Math.atan2(forward.y, forward.x));
+  });
+  return createWorld(seed, cars);
+};
+
+const createProgress = (): RacerProgress => ({
+  lap: 0,
+  nextGate: 1,
+  lapStartTick: 0,
+  splits: [],
+  bestLap: null,
+  bestSplits: [],
+  finishedTick: null,
+  wrongWay: false,
+  wrongWayTicks: 0,
+});
+
+export const createRaceState = (world: World, options: Partial<RaceOptions> = {}): RaceState => ({
+  options: { ...DEFAULT_RACE_OPTIONS, ...options },
+  progress: Object.fromEntries(world.cars.map(car => [car.id, createProgress()])),
+  positions: Object.fromEntries(world.cars.map(car => [car.id, { x: car.x, y: car.y }])),
+});
+
+const cross = (a: Vec2, b: Vec2) => a.x * b.y - a.y * b.x;
+
+/**
+ * Which way the move from `from` to `to` crossed the gate: 1 forwards, -1 backwards, 0 if it didn't.
+ */
+export const getGateCrossing = (gate: RaceGate, from: Vec2, to: Vec2): -1 | 0 | 1 => {
+  const travel = { x: to.x - from.x, y: to.y - from.y };
+  const line = { x: gate.b.x - gate.a.x, y: gate.b.y - gate.a.y };
+  const denom = cross(travel, line);
+  if (denom === 0) return 0;
+
+  const offset = { x: gate.a.x - from.x, y: gate.a.y - from.y };
+  const alongTravel = cross(offset, line) / denom;
+  const alongGate = cross(offset, travel) / denom;
+  if (alongTravel < 0 || alongTravel > 1 || alongGate < 0 || alongGate > 1) return 0;
+  return cross(line, travel) > 0 ? 1 : -1;
+};
+
+export const getGateMidpoint = (gate: RaceGate): Vec2 => ({
+  x: (gate.a.x + gate.b.x) / 2,
+  y: (gate.a.y + gate.b.y) / 2,
+});
+
+const updateRacer = (state: RaceState, racer: RacerProgress, from: Vec2, to: Vec2, tick: number): RacerProgress => {
+  const { gates, laps } = state.options;
+  if (racer.finishedTick !== null) return racer;
+
+  const next = { ...racer };
+  const previousGate = (racer.nextGate + gates.length - 1) % gates.length;
+
+  if (getGateCrossing(gates[racer.nextGate], from, to) === 1) {
+    const lapTicks = tick - racer.lapStartTick;
+    next.splits = [...racer.splits, lapTicks];
+    next.wrongWay = false;
+    next.wrongWayTicks = 0;
+
+    if (racer.nextGate === 0) {
+      next.lap = racer.lap + 1;
+      next.lapStartTick = tick;
+      next.splits = [];
+      if (racer.bestLap === null || lapTicks < racer.bestLap) {
+        next.bestLap = lapTicks;
+        next.bestSplits = [...racer.splits, lapTicks];
+      }
+      if (next.lap >= laps) next.finishedTick = tick;
+    }
+    next.nextGate = (racer.nextGate + 1) % gates.length;
+    return next;
+  }
+
+  // Backing over the last gate is as wrong as it gets
+  if (getGateCrossing(gates[previousGate], from, to) === -1) {
+    return { ...next, wrongWay: true, wrongWayTicks: WRONG_WAY_TICKS };
+  }
+
+  // Otherwise it's wrong way when it's been heading back along the leg for a moment
+  const legFrom = getGateMidpoint(gates[previousGate]);
+  const legTo = getGateMidpoint(gates[racer.nextGate]);
+  const leg = { x: legTo.x - legFrom.x, y: legTo.y - legFrom.y };
+  const legLength = Math.hypot(leg.x, leg.y) || 1;
+  const alongLeg = ((to.x - from.x) * leg.x + (to.y - from.y) * leg.y) / legLength;
+  next.wrongWayTicks = alongLeg < -WRONG_WAY_SPEED ? racer.wrongWayTicks + 1 : alongLeg > 0 ? 0 : racer.wrongWayTicks;
+  next.wrongWay = next.wrongWayTicks >= WRONG_WAY_TICKS;
+  return next;
+};
+
+/**
+ * Sweep every car's move since the last update across the gates. Gates only count in order, so cutting across the
+ * infield or reversing over a line never gains a lap.
+ */
+export const updateRace = (state: RaceState, world: World): RaceState => {
+  const progress: Record<number, RacerProgress> = {};
+  const positions: Record<number, Vec2> = {};
+
+  for (const car of world.cars) {
+    const from = state.positions[car.id] ?? car;
+    const racer = state.progress[car.id] ?? createProgress();
+    progress[car.id] = car.wrecked ? racer : updateRacer(state, racer, from, car, world.tick);
+    positions[car.id] = { x: car.x, y: car.y };
+  }
+
+  return { ...state, progress, positions };
+};
+
+/**
+ * Running order, leader first: finishers by finishing time, then by laps and gates done and distance to the next
+ * gate. Wrecked cars drop behind everyone still running.
+ */
+export const getRaceStandings = (state: RaceState, world: World): number[] => {
+  const { gates } = state.options;
+  const gatesDone = (racer: RacerProgress) =>
+    racer.lap * gates.length + ((racer.nextGate + gates.length - 1) % gates.length);
+
+  const key = (carId: number) => {
+    const car = getCar(world, carId)!;
+    const racer = state.progress[carId] ?? createProgress();
+    const target = getGateMidpoint(gates[racer.nextGate]);
+    return {
+      finished: racer.finishedTick ?? Infinity,
+      wrecked: car.wrecked ? 1 : 0,
+      done: gatesDone(racer),
+      distance: Math.hypot(target.x - car.x, target.y - car.y),
+    };
+  };
+
+  return world.cars
+    .map(car => ({ id: car.id, ...key(car.id) }))
+    .sort(
+      (a, b) =>
+        a.finished - b.finished || a.wrecked - b.wrecked || b.done - a.done || a.distance - b.distance || a.id - b.id,
+    )
+    .map(entry => entry.id);
+};
+
+// First past the flag after the last lap wins; on time up it's whoever's leading. Wrecking everyone else also works.
+export const getRaceRules = (state: RaceState): RoundRules => ({
+  getWinner: (world, timeUp) => {
+    const finishedAt = (carId: number) => state.progress[carId]?.finishedTick ?? Infinity;
+    const [first] = world.cars.map(car => car.id).sort((a, b) => finishedAt(a) - finishedAt(b) || a - b);
+    if (first !== undefined && finishedAt(first) !== Infinity) return first;
+
+    const running = world.cars.filter(car => !car.wrecked);
+    if (running.length === 0) return null;
+    if (running.length === 1) return running[0].id;
+    return timeUp ? getRaceStandings(state, world)[0] : undefined;
+  },
+  getPlacements: world => getRaceStandings(state, world),
+});
+
+// How far along a gate the AI aims, from the infield (0) to the wall (1)
+const RACING_LINE = 0.4;
+const GATE_LOOKAHEAD = 90;
+
+/**
+ * Computer racer. It aims through each gate on a racing line a little off the infield, turning in for the gate after
+ * once it's close. It never goes out of its way to ram anyone, but it won't lift for them either.
+ */
+export const createRaceDriver = (
+  carId: number,
+  getState: () => RaceState,
+  difficulty: AiDifficulty = "normal",
+  seed = carId,
+): Controller => {
+  const profile = AI_PROFILES[difficulty];
+  const random = createRng(seed);
+  const isStuck = createStuckRecovery();
+
+  let input = { ...NO_INPUT };
+  let nextDecisionTick = 0;
+
+  const aimAt = (gate: RaceGate): Vec2 => ({
+    x: gate.a.x + (gate.b.x - gate.a.x) * RACING_LINE,
+    y: gate.a.y + (gate.b.y - gate.a.y) * RACING_LINE,
+  });
+
+  return {
+    decide: (world: WorldSnapshot) => {
+      const self = getCar(world, carId);
+      const { options, progress } = getState();
+      const racer = progress[carId];
+      if (!self || self.wrecked || !racer || racer.finishedTick !== null) return { ...NO_INPUT };
+
+      if (isStuck(world, self, input)) {
+        input = { forward: 0, reverse: 1, left: 0, right: 0 };
+        return { ...input };
+      }
+
+      if (world.tick >= nextDecisionTick) {
+        const { gates } = options;
+        const gate = aimAt(gates[racer.nextGate]);
+        const following = aimAt(gates[(racer.nextGate + 1) % gates.length]);
+        const near = Math.hypot(gate.x - self.x, gate.y - self.y) < GATE_LOOKAHEAD + getSpeed(self) * 4;
+        const aimError = (random() - 0.5) * 2 * profile.aimNoise;
+        input = driveTowards(self, near ? following : gate, profile, aimError);
+        nextDecisionTick = world.tick + profile.decisionInterval;
+      }
+      return { ...input };
+    },
+  };
+};
+
+export const createRaceControllers = (
+  world: World,
+  seed: number,
+  getState: () => RaceState,
+  options: Partial<RaceOptions> = {},
+): Record<number, Controller> => {
+  const { difficulty } = { ...DEFAULT_RACE_OPTIONS, ...options };
+  const controllers: Record<number, Controller> = {};
+  for (const car of world.cars) {
+    if (car.id !== PLAYER_ID) controllers[car.id] = createRaceDriver(car.id, getState, difficulty, seed * 31 + car.id);
+  }
+  return controllers;
+};
@@ -0,0 +1,233 @@
+import { AI_PROFILES, clampToArena, createStuckRecovery, driveTowards } from "../ai";
+import type { AiDifficulty } from "../ai";
+import { createBall } from "../ball";
+import { createCar } from "../car";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, CAR_WIDTH, DEFAULT_GOAL_WIDTH, TICK_RATE, WALL_THICKNESS } from "../constants";
+import type { RoundRules } from "../match";
+import { OPEN_ARENA } from "../physics";
+import { createRng } from "../rng";
+import type { Ball, Car, Controller, Vec2, World, WorldSnapshot } from "../types";
+import { NO_INPUT, PLAYER_ID, createWorld, getCar } from "../world";
+
+export const SOCCER_MAX_TEAM_SIZE = 3;
+
+// Team 0 (the player's) defends the left goal, team 1 the right
+export type SoccerTeam = 0 | 1;
+
+export const TEAM_COLORS: Record<SoccerTeam, string> = { 0: "#e74c3c", 1: "#3498db" };
+
+export interface SoccerOptions {
+  teamSize: number;
+  difficulty: AiDifficulty;
+  goalWidth: number;
+  targetGoals: number; // Goals needed to take the round outright
+  kickoffTicks: number; // How long everyone is held still after a goal
+}
+
+export interface SoccerGoal {
+  team: SoccerTeam;
+  tick: number;
+}
+
+export interface SoccerState {
+  options: SoccerOptions;
+  score: [number, number];
+  lastGoal: SoccerGoal | null;
+  // Inputs are ignored until this tick so both teams line up for the kickoff
+  kickoffUntil: number;
+}
+
+export const DEFAULT_SOCCER_OPTIONS: SoccerOptions = {
+  teamSize: 1,
+  difficulty: "normal",
+  goalWidth: DEFAULT_GOAL_WIDTH,
+  targetGoals: 5,
+  kickoffTicks: TICK_RATE * 1.5,
+};
+
+// Cars alternate between the teams, so the player (car 0) and car 1 captain them
+export const getSoccerTeam = (carId: number): SoccerTeam => (carId % 2 === 0 ? 0 : 1);
+
+const clampTeamSize = (teamSize: number) => Math.max(1, Math.min(SOCCER_MAX_TEAM_SIZE, Math.round(teamSize)));
+
+// Kickoff spots for one side: a striker near the centre line and the rest spread out behind
+const KICKOFF_SLOTS: Vec2[] = [
+  { x: 200, y: 0 },
+  { x: 300, y: -140 },
+  { x: 300, y: 140 },
+];
+
+const getKickoffCar = (carId: number): Car => {
+  const team = getSoccerTeam(carId);
+  const slot = KICKOFF_SLOTS[Math.floor(carId / 2) % KICKOFF_SLOTS.length];
+  const x = team === 0 ? CANVAS_WIDTH / 2 - slot.x : CANVAS_WIDTH / 2 + slot.x;
+  return createCar(x, CANVAS_HEIGHT / 2 + slot.y, TEAM_COLORS[team], team === 0 ? 0 : Math.PI);
+};
+
+export const createSoccerWorld = (seed: number, options: Partial<SoccerOptions> = {}): World => {
+  const { teamSize, goalWidth } = { ...DEFAULT_SOCCER_OPTIONS, ...options };
+  const cars = Array.from({ length: clampTeamSize(teamSize) * 2 }, (_, id) => getKickoffCar(id));
+  return createWorld(seed, cars, { ...OPEN_ARENA, goalWidth }, [createBall(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2)]);
+};
+
+// Put every car back on its spot and the ball on the centre spot. Damage carries over.
+export const resetKickoff = (world: World): World => ({
+  ...world,
+  cars: world.cars.map(car => {
+    const spot = getKickoffCar(car.id);
+    return { ...car, x: spot.x, y: spot.y, angle: spot.angle, vx: 0, vy: 0, angularVel: 0 };
+  }),
+  balls: world.balls.map(ball => ({ ...ball, x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2, vx: 0, vy: 0, angularVel: 0 })),
+});
+
+export const createSoccerState = (options: Partial<SoccerOptions> = {}): SoccerState => ({
+  options: { ...DEFAULT_SOCCER_OPTIONS, ...options },
+  score: [0, 0],
+  lastGoal: null,
+  kickoffUntil: 0,
+});
+
+export const isKickoffPause = (state: SoccerState, world: World) => world.tick < state.kickoffUntil;
+
+// The team that scores when the ball's centre crosses a goal line, or null while it's in play
+export const getScoringTeam = (ball: Ball): SoccerTeam | null => {
+  if (ball.x < WALL_THICKNESS) return 1;
+  if (ball.x > CANVAS_WIDTH - WALL_THICKNESS) return 0;
+  return null;
+};
+
+/**
+ * Check for goals after a tick of play. A goal is counted once and sends everyone back for a kickoff,
+ * so the world comes back too.
+ */
+export const updateSoccer = (state: SoccerState, world: World): { state: SoccerState; world: World } => {
+  const ball = world.balls[0];
+  const team = ball ? getScoringTeam(ball) : null;
+  if (team === null) return { state, world };
+
+  const score: [number, number] = [...state.score];
+  score[team]++;
+  return {
+    state: {
+      ...state,
+      score,
+      lastGoal: { team, tick: world.tick },
+      kickoffUntil: world.tick + state.options.kickoffTicks,
+    },
+    world: resetKickoff(world),
+  };
+};
+
+// Most goals wins. The captain's car id stands in for the team, and a team that's been wrecked out forfeits.
+export const getSoccerRules = (state: SoccerState): RoundRules => {
+  const teamScore = (carId: number) => state.score[getSoccerTeam(carId)];
+
+  return {
+    getWinner: (world, timeUp) => {
+      const [left, right] = state.score;
+      const { targetGoals } = state.options;
+      if (left >= targetGoals) return 0;
+      if (right >= targetGoals) return 1;
+
+      const running = (team: SoccerTeam) => world.cars.some(car => getSoccerTeam(car.id) === team && !car.wrecked);
+      if (!running(0) || !running(1)) return running(0) ? 0 : running(1) ? 1 : null;
+      if (!timeUp) return undefined;
+      return left === right ? null : left > right ? 0 : 1;
+    },
+    // The winning side first, each side in car order
+    getPlacements: world =>
+      world.cars
+        .map(car => car.id)
+        .sort((a, b) => teamScore(b) - teamScore(a) || getSoccerTeam(a) - getSoccerTeam(b) || a - b),
+  };
+};
+
+const DEFEND_DISTANCE = 130;
+
+const distance = (a: Vec2, b: Vec2) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const angleBetween = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+
+/**
+ * Computer player for soccer. Whoever on the team is closest to the ball gets round behind it and drives it at the
+ * opponent's goal; everyone else drops back to guard their own.
+ */
+export const createSoccerDriver = (carId: number, difficulty: AiDifficulty = "normal", seed = carId): Controller => {
+  const profile = AI_PROFILES[difficulty];
+  const random = createRng(seed);
+  const team = getSoccerTeam(carId);
+  const attackX = team === 0 ? CANVAS_WIDTH : 0;
+  const defendX = team === 0 ? WALL_THICKNESS + DEFEND_DISTANCE : CANVAS_WIDTH - WALL_THICKNESS - DEFEND_DISTANCE;
+
+  let input = { ...NO_INPUT };
+  let nextDecisionTick = 0;
+  const isStuck = createStuckRecovery();
+
+  const plan = (world: WorldSnapshot, self: Car, ball: Ball) => {
+    const aimError = (random() - 0.5) * 2 * profile.aimNoise;
+
+    const chaser = world.cars
+      .filter(car => getSoccerTeam(car.id) === team && !car.wrecked)
+      .reduce((best, car) => (distance(car, ball) < distance(best, ball) ? car : best), self);
+    if (chaser.id !== self.id) {
+      const guard = { x: defendX, y: Math.max(CANVAS_HEIGHT / 3, Math.min((CANVAS_HEIGHT * 2) / 3, ball.y)) };
+      return distance(self, guard) < 30 ? { ...NO_INPUT } : driveTowards(self, guard, profile, aimError);
+    }
+
+    // Line of the shot, from the ball to the middle of the goal
+    const lead = { x: ball.x + ball.vx * profile.lookahead * 0.5, y: ball.y + ball.vy * profile.lookahead * 0.5 };
+    const shotX = attackX - lead.x;
+    const shotY = CANVAS_HEIGHT / 2 - lead.y;
+    const shotLength = Math.hypot(shotX, shotY) || 1;
+    const shot = { x: shotX / shotLength, y: shotY / shotLength };
+
+    // Behind the ball and facing the goal, or close enough behind it to nudge it along a wall - drive straight through it
+    const alongShot = (self.x - lead.x) * shot.x + (self.y - lead.y) * shot.y;
+    const lined = angleBetween(Math.atan2(lead.y - self.y, lead.x - self.x), Math.atan2(shot.y, shot.x)) < 0.5;
+    if (alongShot < 0 && (lined || distance(self, lead) < CAR_WIDTH * 2)) {
+      return driveTowards(self, { x: lead.x + shot.x * 30, y: lead.y + shot.y * 30 }, profile, aimError);
+    }
+
+    // Otherwise get round behind it, swinging wide rather than knocking it back towards our own goal
+    const behind = { x: lead.x - shot.x * CAR_WIDTH * 1.5, y: lead.y - shot.y * CAR_WIDTH * 1.5 };
+    if (alongShot > -CAR_WIDTH) {
+      const side = Math.sign((self.x - lead.x) * -shot.y + (self.y - lead.y) * shot.x) || 1;
+      behind.x += -shot.y * side * CAR_WIDTH * 1.5;
+      behind.y += shot.x * side * CAR_WIDTH * 1.5;
+    }
+    return driveTowards(self, clampToArena(behind, world.arena), profile, aimError);
+  };
+
+  return {
+    decide: (world: WorldSnapshot) => {
+      const self = getCar(world, carId);
+      const ball = world.balls[0];
+      if (!self || self.wrecked || !ball) return { ...NO_INPUT };
+
+      if (isStuck(world, self, input)) {
+        input = { forward: 0, reverse: 1, left: 0, right: 0 };
+        return { ...input };
+      }
+
+      if (world.tick >= nextDecisionTick) {
+        input = plan(world, self, ball);
+        nextDecisionTick = world.tick + profile.decisionInterval;
+      }
+      return { ...input };
+    },
+  };
+};
+
+// AI players for everyone but the player, on both teams
+export const createSoccerControllers = (
+  world: World,
+  seed: number,
+  options: Partial<SoccerOptions> = {},
+): Record<number, Controller> => {
+  const { difficulty } = { ...DEFAULT_SOCCER_OPTIONS, ...options };
+  const controllers: Record<number, Controller> = {};
+  for (const car of world.cars) {
+    if (car.id !== PLAYER_ID) controllers[car.id] = createSoccerDriver(car.id, difficulty, seed * 31 + car.id);
+  }
+  return controllers;
+};
@@ -0,0 +1,71 @@
+import { createAiDriver } from "../ai";
+import type { AiDifficulty } from "../ai";
+import { createCar } from "../car";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, TICK_RATE } from "../constants";
+import { OPEN_ARENA } from "../physics";
+import type { Controller, World } from "../types";
+import { CAR_COLORS, PLAYER_ID, createWorld } from "../world";
+
+export const SUMO_MAX_OPPONENTS = 7;
+
+export interface SumoOptions {
+  opponents: number;
+  difficulty: AiDifficulty;
+  startRadius: number;
+  minRadius: number;
+  shrinkDelayTicks: number; // Full-size time before the edge starts creeping in
+  shrinkTicks: number; // Time taken to go from startRadius to minRadius
+}
+
+export const DEFAULT_SUMO_OPTIONS: SumoOptions = {
+  opponents: 3,
+  difficulty: "normal",
+  startRadius: 270,
+  minRadius: 90,
+  shrinkDelayTicks: TICK_RATE * 10,
+  shrinkTicks: TICK_RATE * 45,
+};
+
+const clampOpponents = (opponents: number) => Math.max(1, Math.min(SUMO_MAX_OPPONENTS, Math.round(opponents)));
+
+// Platform size at a given tick: full size, then a steady shrink down to the minimum
+export const getSumoRadius = (options: SumoOptions, tick: number): number => {
+  const progress = Math.max(0, Math.min(1, (tick - options.shrinkDelayTicks) / options.shrinkTicks));
+  return options.startRadius + (options.minRadius - options.startRadius) * progress;
+};
+
+// Everyone on a ring halfway out, facing the middle, with the player on the left
+export const createSumoWorld = (seed: number, options: Partial<SumoOptions> = {}): World => {
+  const { opponents, startRadius } = { ...DEFAULT_SUMO_OPTIONS, ...options };
+  const count = clampOpponents(opponents) + 1;
+  const center = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 };
+
+  const cars = Array.from({ length: count }, (_, i) => {
+    const theta = Math.PI + (i / count) * Math.PI * 2;
+    const x = center.x + Math.cos(theta) * startRadius * 0.55;
+    const y = center.y + Math.sin(theta) * startRadius * 0.55;
+    return createCar(x, y, CAR_COLORS[i % CAR_COLORS.length], theta + Math.PI);
+  });
+  return createWorld(seed, cars, { ...OPEN_ARENA, platform: { ...center, radius: startRadius } });
+};
+
+// Shrink the platform for the current tick. Anyone left hanging over the new edge drops on the next step.
+export const updateSumo = (options: SumoOptions, world: World): World => {
+  const { platform } = world.arena;
+  if (!platform) return world;
+  return { ...world, arena: { ...world.arena, platform: { ...platform, radius: getSumoRadius(options, world.tick) } } };
+};
+
+// Ordinary AI drivers - they already keep clear of a platform's edge
+export const createSumoControllers = (
+  world: World,
+  seed: number,
+  options: Partial<SumoOptions> = {},
+): Record<number, Controller> => {
+  const { difficulty } = { ...DEFAULT_SUMO_OPTIONS, ...options };
+  const controllers: Record<number, Controller> = {};
+  for (const car of world.cars) {
+    if (car.id !== PLAYER_ID) controllers[car.id] = createAiDriver(car.id, difficulty, seed * 31 + car.id);
+  }
+  return controllers;
+};
@@ -0,0 +1,246 @@
+import { createAiDriver } from "../ai";
+import type { AiDifficulty, AiDriver } from "../ai";
+import { createCar } from "../car";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, CAR_MASS, CAR_WIDTH, TICK_RATE, WALL_THICKNESS } from "../constants";
+import type { RoundRules } from "../match";
+import { nextRandom } from "../rng";
+import type { Car, Controller, HitZone, Vec2, World } from "../types";
+import { CAR_COLORS, NO_INPUT, PLAYER_ID, cloneWorld, createWorld, getCar } from "../world";
+
+export type SurvivalPhase = "intermission" | "wave";
+
+export interface SurvivalOptions {
+  difficulty: AiDifficulty; // How smart the first wave is - later waves climb from here
+  firstWaveSize: number;
+  maxHostiles: number; // Most hostile cars on the floor at once, which also caps the wave size
+  intermissionTicks: number; // Breather between waves
+  repairPerSecond: number; // Health given back to each of the player's zones during a breather
+}
+
+// One bot in a wave
+export interface SurvivalHostile {
+  difficulty: AiDifficulty;
+  heavy: boolean;
+  mass: number;
+  points: number; // Score for wrecking it
+}
+
+export interface SurvivalState {
+  options: SurvivalOptions;
+  phase: SurvivalPhase;
+  wave: number; // The wave on the floor, or the one just cleared during a breather. 0 before the first.
+  phaseEndsTick: number; // When the breather ends; unused during a wave
+  wavesSurvived: number;
+  kills: number;
+  score: number;
+  // This wave's bots, keyed by car id
+  hostiles: Record<number, SurvivalHostile>;
+  rngState: number;
+}
+
+export const DEFAULT_SURVIVAL_OPTIONS: SurvivalOptions = {
+  difficulty: "easy",
+  firstWaveSize: 2,
+  maxHostiles: 8,
+  intermissionTicks: TICK_RATE * 5,
+  repairPerSecond: 12,
+};
+
+const DIFFICULTIES: AiDifficulty[] = ["easy", "normal", "hard"];
+const KILL_POINTS: Record<AiDifficulty, number> = { easy: 100, normal: 150, hard: 200 };
+const WAVE_BONUS = 250;
+const HEAVY_MASS = 1.6;
+const MASS_PER_WAVE = 0.04;
+const MAX_EXTRA_MASS = 0.4;
+const SPAWN_CLEARANCE = 140;
+const SPAWN_ATTEMPTS = 12;
+const ZONES: HitZone[] = ["front", "rear", "left", "right"];
+
+// Light and dark paint for each level of smarts, so heavies stand out
+const HOSTILE_COLORS: Record<AiDifficulty, [string, string]> = {
+  easy: ["#f39c12", "#b9770e"],
+  normal: ["#d35400", "#873600"],
+  hard: ["#8e44ad", "#5b2c6f"],
+};
+
+/**
+ * Who turns up in a wave. Each wave brings one more car, up to `maxHostiles`. Every other wave one more of them
+ * gets a level smarter (and every fourth, two levels), every third wave adds a heavy, and the whole wave
+ * bulks up a little each time.
+ */
+export const getWaveHostiles = (wave: number, options: Partial<SurvivalOptions> = {}): SurvivalHostile[] => {
+  const { difficulty, firstWaveSize, maxHostiles } = { ...DEFAULT_SURVIVAL_OPTIONS, ...options };
+  const size = Math.min(maxHostiles, firstWaveSize + wave - 1);
+  const base = DIFFICULTIES.indexOf(difficulty);
+  const smarter = Math.floor((wave - 1) / 2);
+  const smartest = Math.floor((wave - 1) / 4);
+  const heavies = Math.floor(wave / 3);
+  const bulk = 1 + Math.min(MAX_EXTRA_MASS, (wave - 1) * MASS_PER_WAVE);
+
+  return Array.from({ length: size }, (_, i) => {
+    const level = Math.min(DIFFICULTIES.length - 1, base + (i < smarter ? 1 : 0) + (i < smartest ? 1 : 0));
+    const heavy = i >= size - heavies;
+    const points = KILL_POINTS[DIFFICULTIES[level]] * (heavy ? 1.5 : 1);
+    return { difficulty: DIFFICULTIES[level], heavy, mass: CAR_MASS * bulk * (heavy ? HEAVY_MASS : 1), points };
+  });
+};
+
+// The player alone in the middle. The first wave rolls in on the first tick of play.
+export const createSurvivalWorld = (seed: number): World =>
+  createWorld(seed, [createCar(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CAR_COLORS[0], 0)]);
+
+export const createSurvivalState = (seed: number, options: Partial<SurvivalOptions> = {}): SurvivalState => ({
+  options: { ...DEFAULT_SURVIVAL_OPTIONS, ...options },
+  phase: "intermission",
+  wave: 0,
+  phaseEndsTick: 0,
+  wavesSurvived: 0,
+  kills: 0,
+  score: 0,
+  hostiles: {},
+  rngState: seed >>> 0,
+});
+
+// A point on the loop just inside the walls, `along` from 0 to 1 going round clockwise from the top-left corner
+const getEdgePoint = (along: number): Vec2 => {
+  const margin = WALL_THICKNESS + CAR_WIDTH;
+  const width = CANVAS_WIDTH - margin * 2;
+  const height = CANVAS_HEIGHT - margin * 2;
+  let d = along * 2 * (width + height);
+  if (d < width) return { x: margin + d, y: margin };
+  d -= width;
+  if (d < height) return { x: margin + width, y: margin + d };
+  d -= height;
+  if (d < width) return { x: margin + width - d, y: margin + height };
+  return { x: margin, y: margin + height - (d - width) };
+};
+
+const getClearance = (point: Vec2, others: Vec2[]) =>
+  Math.min(Infinity, ...others.map(other => Math.hypot(other.x - point.x, other.y - point.y)));
+
+// Roll the next wave in from the edges, clear of anything still on the floor, reusing the slots of wrecked bots
+const spawnWave = (state: SurvivalState, world: World): { state: SurvivalState; world: World } => {
+  const next = cloneWorld(world);
+  const wave = state.wave + 1;
+  const hostiles: Record<number, SurvivalHostile> = {};
+  const taken: Vec2[] = next.cars.filter(car => !car.wrecked);
+  let { rngState } = state;
+
+  const isFree = (id: number) => !getCar(next, id) || getCar(next, id)!.wrecked;
+  const slots = Array.from({ length: state.options.maxHostiles }, (_, i) => PLAYER_ID + 1 + i).filter(isFree);
+
+  getWaveHostiles(wave, state.options).forEach((hostile, i) => {
+    const id = slots[i];
+    if (id === undefined) return;
+
+    let spot = getEdgePoint(0);
+    let bestClearance = -1;
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS && bestClearance < SPAWN_CLEARANCE; attempt++) {
+      const roll = nextRandom(rngState);
+      rngState = roll.state;
+      const point = getEdgePoint(roll.value);
+      const clearance = getClearance(point, taken);
+      if (clearance > bestClearance) [spot, bestClearance] = [point, clearance];
+    }
+    taken.push(spot);
+
+    const angle = Math.atan2(CANVAS_HEIGHT / 2 - spot.y, CANVAS_WIDTH / 2 - spot.x);
+    const color = HOSTILE_COLORS[hostile.difficulty][hostile.heavy ? 1 : 0];
+    const car: Car = { ...createCar(spot.x, spot.y, color, angle, false, hostile.mass), id };
+    const index = next.cars.findIndex(existing => existing.id === id);
+    if (index === -1) next.cars.push(car);
+    else next.cars[index] = car;
+    hostiles[id] = hostile;
+  });
+
+  return { state: { ...state, phase: "wave", wave, hostiles, rngState }, world: next };
+};
+
+const repairPlayer = (state: SurvivalState, world: World): World => {
+  const player = getCar(world, PLAYER_ID);
+  if (!player || ZONES.every(zone => player.health[zone] >= 100)) return world;
+
+  const next = cloneWorld(world);
+  const repaired = getCar(next, PLAYER_ID)!;
+  const amount = state.options.repairPerSecond / TICK_RATE;
+  for (const zone of ZONES) repaired.health[zone] = Math.min(100, repaired.health[zone] + amount);
+  return next;
+};
+
+/**
+ * Run the waves: bank points for every bot wrecked (however it happened), call the wave cleared once none are
+ * left running, repair the player through the breather, then roll the next wave in. Nothing happens once the
+ * player is out - that's the end of the run.
+ */
+export const updateSurvival = (state: SurvivalState, world: World): { state: SurvivalState; world: World } => {
+  const player = getCar(world, PLAYER_ID);
+  if (!player || player.wrecked) return { state, world };
+
+  let next = state;
+  for (const event of world.events) {
+    const hostile = event.type === "wrecked" ? state.hostiles[event.carId] : undefined;
+    if (hostile) next = { ...next, kills: next.kills + 1, score: next.score + hostile.points };
+  }
+
+  if (next.phase === "wave") {
+    const running = world.cars.some(car => next.hostiles[car.id] && !car.wrecked);
+    if (running) return { state: next, world };
+    return {
+      state: {
+        ...next,
+        phase: "intermission",
+        phaseEndsTick: world.tick + next.options.intermissionTicks,
+        wavesSurvived: next.wave,
+        score: next.score + WAVE_BONUS * next.wave,
+      },
+      world,
+    };
+  }
+
+  if (world.tick >= next.phaseEndsTick) return spawnWave(next, world);
+  return { state: next, world: repairPlayer(next, world) };
+};
+
+export const getIntermissionTicksLeft = (state: SurvivalState, world: World) =>
+  state.phase === "intermission" ? Math.max(0, state.phaseEndsTick - world.tick) : 0;
+
+// A run has no clock and no winner: it goes on until the player is wrecked
+export const getSurvivalRules = (): RoundRules => ({
+  getWinner: world => (getCar(world, PLAYER_ID)?.wrecked ? null : undefined),
+  // The bots are interchangeable, so the only placing that means anything is the player's
+  getPlacements: () => [PLAYER_ID],
+});
+
+/**
+ * One controller per hostile slot. Slots are reused from wave to wave, so each gets a fresh driver at the
+ * wave's level of smarts whenever a new wave arrives. Every bot hunts the player, never each other.
+ */
+export const createSurvivalControllers = (
+  seed: number,
+  getState: () => SurvivalState,
+  options: Partial<SurvivalOptions> = {},
+): Record<number, Controller> => {
+  const { maxHostiles } = { ...DEFAULT_SURVIVAL_OPTIONS, ...options };
+  const getTarget = () => PLAYER_ID;
+
+  const controllers: Record<number, Controller> = {};
+  for (let i = 0; i < maxHostiles; i++) {
+    const carId = PLAYER_ID + 1 + i;
+    let driver: AiDriver | null = null;
+    let driverWave = 0;
+
+    controllers[carId] = {
+      decide: world => {
+        const state = getState();
+        const hostile = state.hostiles[carId];
+        if (!hostile) return { ...NO_INPUT };
+        if (!driver || driverWave !== state.wave) {
+          driver = createAiDriver(carId, hostile.difficulty, seed * 31 + state.wave * 101 + carId, { getTarget });
+          driverWave = state.wave;
+        }
+        return driver.decide(world);
+      },
+    };
+  }
+  return controllers;
+};
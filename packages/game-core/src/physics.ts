@@ -0,0 +1,241 @@
+import { getSpeed, getCarCorners } from "./car";
+import {
+  ACCELERATION,
+  ANGULAR_FRICTION,
+  BOUNCE_FACTOR,
+  BRAKE_DECEL,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  COAST_ANGULAR_FRICTION,
+  COAST_FORWARD_FRICTION,
+  COAST_SIDEWAYS_FRICTION,
+  FORWARD_FRICTION,
+  MAX_ANGULAR_VEL,
+  MAX_SPEED,
+  MAX_SUBSTEPS,
+  MAX_SUBSTEP_DISTANCE,
+  MIN_SPEED_TO_TURN,
+  MIN_WALL_HIT_SPEED,
+  RING_OUT_CREDIT_TICKS,
+  TURN_RATE,
+  WALL_FRICTION,
+  WALL_THICKNESS,
+} from "./constants";
+import { getHandling } from "./damage";
+import { resolveImpulse, separateBodies } from "./impulse";
+import { collideCarCircle, collideCarPolygon } from "./sat";
+import { FLOOR_GRIP, scaleFriction } from "./surfaces";
+import type { AnalogInput, Arena, Car, Contact, Platform, RigidBody, SurfaceGrip, Vec2, World } from "./types";
+
+// Apply driver input, grip and the speed limit to a car. Position is integrated separately by `moveCar`.
+// `surface` is the grip of the floor under the car, from `getSurfaceGrip`.
+export const driveCar = (car: Car, input: AnalogInput, surface: SurfaceGrip = FLOOR_GRIP) => {
+  const handling = getHandling(car);
+  const currentSpeed = getSpeed(car);
+
+  const steeringFactor =
+    currentSpeed < MIN_SPEED_TO_TURN ? (currentSpeed / MIN_SPEED_TO_TURN) * 0.3 : Math.min(1, currentSpeed / 3);
+
+  // Steering can't spin the car faster than MAX_ANGULAR_VEL, but it mustn't cancel a spin-out from an impact either
+  const spinLimit = Math.max(MAX_ANGULAR_VEL, Math.abs(car.angularVel));
+
+  // Analog steering - intensity scales the turn rate
+  if (input.left > 0) car.angularVel -= TURN_RATE * steeringFactor * input.left;
+  if (input.right > 0) car.angularVel += TURN_RATE * steeringFactor * input.right;
+
+  // Bent suspension drags the car towards its damaged side whenever it's rolling
+  car.angularVel += TURN_RATE * steeringFactor * handling.steeringPull;
+
+  car.angularVel = Math.max(-spinLimit, Math.min(spinLimit, car.angularVel));
+
+  car.angularVel *= ANGULAR_FRICTION;
+  car.angle += car.angularVel;
+
+  const forwardX = Math.cos(car.angle);
+  const forwardY = Math.sin(car.angle);
+
+  // Analog acceleration - intensity scales the acceleration. A stalled engine still has brakes.
+  const acceleration = ACCELERATION * handling.acceleration * surface.traction;
+  const brake = BRAKE_DECEL * surface.traction;
+  if (input.forward > 0) {
+    car.vx += forwardX * acceleration * input.forward;
+    car.vy += forwardY * acceleration * input.forward;
+  }
+  if (input.reverse > 0) {
+    const forwardSpeed = car.vx * forwardX + car.vy * forwardY;
+    if (forwardSpeed > 0.5) {
+      car.vx -= forwardX * brake * input.reverse;
+      car.vy -= forwardY * brake * input.reverse;
+    } else {
+      car.vx -= forwardX * acceleration * 0.5 * input.reverse;
+      car.vy -= forwardY * acceleration * 0.5 * input.reverse;
+    }
+  }
+
+  const rightX = -forwardY;
+  const rightY = forwardX;
+
+  const forwardVel = car.vx * forwardX + car.vy * forwardY;
+  const sidewaysVel = car.vx * rightX + car.vy * rightY;
+
+  const newForwardVel = forwardVel * scaleFriction(FORWARD_FRICTION, surface.drag);
+  const newSidewaysVel = sidewaysVel * scaleFriction(handling.sidewaysFriction, surface.grip);
+
+  car.vx = forwardX * newForwardVel + rightX * newSidewaysVel;
+  car.vy = forwardY * newForwardVel + rightY * newSidewaysVel;
+
+  const maxSpeed = MAX_SPEED * handling.topSpeed;
+  const newSpeed = getSpeed(car);
+  if (newSpeed > maxSpeed) {
+    car.vx = (car.vx / newSpeed) * maxSpeed;
+    car.vy = (car.vy / newSpeed) * maxSpeed;
+  }
+};
+
+// Let a car with no driver roll towards a stop
+export const coastCar = (car: Car, surface: SurfaceGrip = FLOOR_GRIP) => {
+  const forwardX = Math.cos(car.angle);
+  const forwardY = Math.sin(car.angle);
+  const rightX = -forwardY;
+  const rightY = forwardX;
+
+  const forwardVel = car.vx * forwardX + car.vy * forwardY;
+  const sidewaysVel = car.vx * rightX + car.vy * rightY;
+
+  const newForwardVel = forwardVel * scaleFriction(COAST_FORWARD_FRICTION, surface.drag);
+  const newSidewaysVel = sidewaysVel * scaleFriction(COAST_SIDEWAYS_FRICTION, surface.grip);
+
+  car.vx = forwardX * newForwardVel + rightX * newSidewaysVel;
+  car.vy = forwardY * newForwardVel + rightY * newSidewaysVel;
+
+  car.angularVel *= COAST_ANGULAR_FRICTION;
+  car.angle += car.angularVel;
+};
+
+// Move a car by a fraction of its per-tick velocity
+export const moveCar = (car: Car, fraction: number) => {
+  car.x += car.vx * fraction;
+  car.y += car.vy * fraction;
+};
+
+/**
+ * Number of sub-steps needed so no body travels more than MAX_SUBSTEP_DISTANCE between collision checks.
+ * This sweeps fast cars through the tick instead of teleporting them past walls and other cars.
+ */
+export const getSubstepCount = (bodies: RigidBody[]): number => {
+  const fastest = Math.max(0, ...bodies.map(getSpeed));
+  return Math.min(MAX_SUBSTEPS, Math.max(1, Math.ceil(fastest / MAX_SUBSTEP_DISTANCE)));
+};
+
+// Four plain walls round the whole canvas, and nothing in the way
+export const OPEN_ARENA: Arena = {
+  bounds: {
+    minX: WALL_THICKNESS,
+    minY: WALL_THICKNESS,
+    maxX: CANVAS_WIDTH - WALL_THICKNESS,
+    maxY: CANVAS_HEIGHT - WALL_THICKNESS,
+  },
+  goalWidth: 0,
+  platform: null,
+  walls: [],
+  pillars: [],
+  surfaces: [],
+  ramps: [],
+};
+
+// Vertical extent of the goal mouths in the left and right walls, centred on the arena
+export const getGoalMouth = (arena: Arena): { top: number; bottom: number } => {
+  const middle = (arena.bounds.minY + arena.bounds.maxY) / 2;
+  return { top: middle - arena.goalWidth / 2, bottom: middle + arena.goalWidth / 2 };
+};
+
+export const isInGoalMouth = (y: number, arena: Arena): boolean => {
+  const mouth = getGoalMouth(arena);
+  return arena.goalWidth > 0 && y > mouth.top && y < mouth.bottom;
+};
+
+// Outer walls as inward-facing planes: a corner is inside the wall when `depth(corner)` is positive.
+// Inside a goal mouth the side walls fall back to the outside of the wall, the back of the net.
+const WALLS: { normal: Vec2; depth: (corner: Vec2, arena: Arena) => number }[] = [
+  {
+    normal: { x: -1, y: 0 },
+    depth: (corner, arena) => arena.bounds.minX - (isInGoalMouth(corner.y, arena) ? WALL_THICKNESS : 0) - corner.x,
+  },
+  {
+    normal: { x: 1, y: 0 },
+    depth: (corner, arena) => corner.x - arena.bounds.maxX - (isInGoalMouth(corner.y, arena) ? WALL_THICKNESS : 0),
+  },
+  { normal: { x: 0, y: -1 }, depth: (corner, arena) => arena.bounds.minY - corner.y },
+  { normal: { x: 0, y: 1 }, depth: (corner, arena) => corner.y - arena.bounds.maxY },
+];
+
+// One contact per outer wall the car is touching, centred on the corners that dug in, then one for each obstacle.
+// Normals point into the wall.
+export const getWallContacts = (car: Car, arena: Arena = OPEN_ARENA): Contact[] => {
+  const corners = getCarCorners(car);
+  const contacts: Contact[] = [];
+  if (arena.platform) return contacts;
+
+  for (const wall of WALLS) {
+    const depths = corners.map(corner => wall.depth(corner, arena));
+    const buried = corners.filter((_, i) => depths[i] > 0);
+    if (buried.length === 0) continue;
+
+    contacts.push({
+      normal: wall.normal,
+      depth: Math.max(...depths),
+      point: {
+        x: buried.reduce((sum, corner) => sum + corner.x, 0) / buried.length,
+        y: buried.reduce((sum, corner) => sum + corner.y, 0) / buried.length,
+      },
+    });
+  }
+
+  for (const wall of arena.walls) {
+    const contact = collideCarPolygon(car, wall);
+    if (contact) contacts.push(contact);
+  }
+  for (const pillar of arena.pillars) {
+    const contact = collideCarCircle(car, pillar);
+    if (contact) contacts.push(contact);
+  }
+
+  return contacts;
+};
+
+// Bounce a car off the arena walls. Returns true if it touched a wall.
+export const handleWallCollisions = (car: Car, arena: Arena = OPEN_ARENA): boolean => {
+  const contacts = getWallContacts(car, arena);
+
+  for (const contact of contacts) {
+    resolveImpulse(car, null, contact, BOUNCE_FACTOR, WALL_FRICTION);
+    separateBodies(car, null, contact);
+  }
+
+  return contacts.length > 0;
+};
+
+// Raise a wallHit event if bouncing off the walls changed the car's velocity enough. `before` is its velocity going in.
+export const recordWallHit = (world: World, car: Car, before: Vec2) => {
+  const impactSpeed = Math.hypot(car.vx - before.x, car.vy - before.y);
+  if (impactSpeed < MIN_WALL_HIT_SPEED) return;
+  world.events.push({ type: "wallHit", carId: car.id, x: car.x, y: car.y, impactSpeed });
+};
+
+export const isOnPlatform = (point: Vec2, platform: Platform): boolean =>
+  Math.hypot(point.x - platform.x, point.y - platform.y) <= platform.radius;
+
+// Take a car out of the round once its centre has left the platform. Returns true if it fell this time.
+export const handleFallOff = (world: World, car: Car): boolean => {
+  const { platform } = world.arena;
+  if (!platform || car.fellOff || isOnPlatform(car, platform)) return false;
+
+  // Credit whoever knocked it off, unless it was already a wreck sliding over the edge
+  const { lastHitBy } = car;
+  const byId =
+    !car.wrecked && lastHitBy && world.tick - lastHitBy.tick <= RING_OUT_CREDIT_TICKS ? lastHitBy.carId : null;
+  car.fellOff = true;
+  car.wrecked = true;
+  world.events.push({ type: "fellOff", carId: car.id, byId, x: car.x, y: car.y });
+  return true;
+};
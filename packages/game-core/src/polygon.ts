@@ -0,0 +1,80 @@
+import type { Vec2 } from "./types";
+
+const cross = (o: Vec2, a: Vec2, b: Vec2) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Ray cast to the right, counting edge crossings. Works for any simple polygon, convex or not.
+export const isPointInPolygon = (point: Vec2, points: Vec2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Every turn goes the same way, in either winding, and the polygon isn't flat. The turns also have to add up to a
+// single lap: a star like a pentagram turns the same way at every point but goes round twice, crossing itself.
+export const isConvexPolygon = (points: Vec2[]): boolean => {
+  if (points.length < 3) return false;
+  let sign = 0;
+  let turning = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const turn = cross(a, b, c);
+    if (turn === 0) continue;
+    if (sign !== 0 && Math.sign(turn) !== sign) return false;
+    sign = Math.sign(turn);
+    const dot = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y);
+    turning += Math.atan2(turn, dot);
+  }
+  return sign !== 0 && Math.abs(Math.abs(turning) - Math.PI * 2) < 1e-6;
+};
+
+// Unit normals of every edge. Which side they face depends on the winding, so SAT treats them as plain axes.
+export const getEdgeAxes = (points: Vec2[]): Vec2[] =>
+  points.map((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+  });
+
+// Nearest point on the polygon's outline, whether `point` is inside it or out
+export const getClosestPointOnEdges = (point: Vec2, points: Vec2[]): Vec2 => {
+  let best = points[0];
+  let bestDistance = Infinity;
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / (dx * dx + dy * dy || 1)));
+    const candidate = { x: a.x + dx * t, y: a.y + dy * t };
+    const distance = Math.hypot(point.x - candidate.x, point.y - candidate.y);
+    if (distance < bestDistance) [best, bestDistance] = [candidate, distance];
+  });
+  return best;
+};
+
+export const getPolygonCenter = (points: Vec2[]): Vec2 => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+});
+
+// Smallest convex outline around the points, by monotone chain
+export const getConvexHull = (points: Vec2[]): Vec2[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const half = (list: Vec2[]) => {
+    const hull: Vec2[] = [];
+    for (const point of list) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+      hull.push(point);
+    }
+    hull.pop();
+    return hull;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+};
@@ -0,0 +1,162 @@
+import { isPointInCar } from "./car";
+import {
+  ARMOR_TICKS,
+  CAR_MASS,
+  NITRO_TICKS,
+  OIL_SLICK_RADIUS,
+  POWER_UP_RADIUS,
+  REPAIR_AMOUNT,
+  SHOCKWAVE_RADIUS,
+  SHOCKWAVE_SPEED,
+  TICK_RATE,
+} from "./constants";
+import { getClosestPointOnEdges, isPointInPolygon } from "./polygon";
+import { nextRandom } from "./rng";
+import { dropOilSlick } from "./surfaces";
+import type { Car, HitZone, PowerUpKind, RigidBody, Vec2, World } from "./types";
+
+export const POWER_UP_KINDS: PowerUpKind[] = ["nitro", "armor", "repair", "shockwave", "oil"];
+
+// When and what a mode drops on the floor
+export interface PowerUpRules {
+  kinds: PowerUpKind[]; // What can turn up, picked evenly
+  intervalTicks: number; // Time between drops
+  maxOnField: number; // Drops are skipped while this many are already waiting
+  lifetimeTicks: number; // How long a pickup waits before vanishing
+}
+
+export const DEFAULT_POWER_UP_RULES: PowerUpRules = {
+  kinds: POWER_UP_KINDS,
+  intervalTicks: TICK_RATE * 8,
+  maxOnField: 2,
+  lifetimeTicks: TICK_RATE * 15,
+};
+
+const SPAWN_CLEARANCE = 80;
+const SPAWN_ATTEMPTS = 10;
+const ZONES: HitZone[] = ["front", "rear", "left", "right"];
+
+const distanceToEdges = (point: Vec2, points: Vec2[]) => {
+  const closest = getClosestPointOnEdges(point, points);
+  return Math.hypot(closest.x - point.x, closest.y - point.y);
+};
+
+// Whether a pickup here would be stuck inside a wall, pillar or prop, or too close to reach
+const isBlocked = (point: Vec2, { arena, props }: World) =>
+  [...arena.walls, ...props.map(prop => prop.points)].some(
+    wall => isPointInPolygon(point, wall) || distanceToEdges(point, wall) < POWER_UP_RADIUS * 2,
+  ) ||
+  arena.pillars.some(
+    pillar => Math.hypot(pillar.x - point.x, pillar.y - point.y) < pillar.radius + POWER_UP_RADIUS * 2,
+  );
+
+// A random spot cars can reach, keeping clear of the cars if we can. On a platform, well away from the edge.
+const pickSpawnPoint = (world: World, random: () => number): Vec2 => {
+  const { bounds, platform } = world.arena;
+  const margin = 60;
+  const randomPoint = (): Vec2 => {
+    if (platform) {
+      const angle = random() * Math.PI * 2;
+      const distance = Math.sqrt(random()) * platform.radius * 0.6;
+      return { x: platform.x + Math.cos(angle) * distance, y: platform.y + Math.sin(angle) * distance };
+    }
+    return {
+      x: bounds.minX + margin + random() * (bounds.maxX - bounds.minX - margin * 2),
+      y: bounds.minY + margin + random() * (bounds.maxY - bounds.minY - margin * 2),
+    };
+  };
+
+  let best = randomPoint();
+  let bestClearance = -Infinity;
+  for (let attempt = 0; attempt < SPAWN_ATTEMPTS && bestClearance < SPAWN_CLEARANCE; attempt++) {
+    const point = attempt === 0 ? best : randomPoint();
+    // Blocked spots only win if nothing better turns up
+    const clearance = isBlocked(point, world)
+      ? -1
+      : Math.min(
+          Infinity,
+          ...world.cars.filter(car => !car.fellOff).map(car => Math.hypot(car.x - point.x, car.y - point.y)),
+        );
+    if (clearance > bestClearance) [best, bestClearance] = [point, clearance];
+  }
+  return best;
+};
+
+/**
+ * Drop a new pickup every `intervalTicks` while there's room for it, and clear away any that have waited too long.
+ * Pure, like `step`. Positions come from the world's generator, so drops replay for the same seed.
+ */
+export const updatePowerUps = (rules: PowerUpRules, world: World): World => {
+  const expired = world.powerUps.some(powerUp => world.tick >= powerUp.expiresTick);
+  const due = world.tick > 0 && world.tick % rules.intervalTicks === 0 && rules.kinds.length > 0;
+  if (!expired && !due) return world;
+
+  const powerUps = world.powerUps.filter(powerUp => world.tick < powerUp.expiresTick);
+  if (!due || powerUps.length >= rules.maxOnField) return { ...world, powerUps };
+
+  let { rngState } = world;
+  const random = () => {
+    const roll = nextRandom(rngState);
+    rngState = roll.state;
+    return roll.value;
+  };
+  const kind = rules.kinds[Math.floor(random() * rules.kinds.length)];
+  const point = pickSpawnPoint(world, random);
+  powerUps.push({ id: world.nextPowerUpId, kind, ...point, expiresTick: world.tick + rules.lifetimeTicks });
+  return { ...world, powerUps, nextPowerUpId: world.nextPowerUpId + 1, rngState };
+};
+
+// Shove a body straight away from the blast, harder the closer it is and the lighter it is
+const blastAway = (body: RigidBody, origin: Vec2) => {
+  const dx = body.x - origin.x;
+  const dy = body.y - origin.y;
+  const distance = Math.hypot(dx, dy);
+  if (body.isStatic || distance >= SHOCKWAVE_RADIUS || distance === 0) return;
+
+  const speed = SHOCKWAVE_SPEED * (1 - distance / SHOCKWAVE_RADIUS) * (CAR_MASS / body.mass);
+  body.vx += (dx / distance) * speed;
+  body.vy += (dy / distance) * speed;
+};
+
+// Use a power-up on a car. Nitro and armour run on a timer; the rest happen at once.
+export const applyPowerUp = (world: World, car: Car, kind: PowerUpKind) => {
+  switch (kind) {
+    case "nitro":
+      car.effects.nitro = NITRO_TICKS;
+      return;
+    case "armor":
+      car.effects.armor = ARMOR_TICKS;
+      return;
+    case "repair":
+      for (const zone of ZONES) car.health[zone] = Math.min(100, car.health[zone] + REPAIR_AMOUNT);
+      return;
+    case "shockwave":
+      for (const other of world.cars) if (other !== car && !other.fellOff) blastAway(other, car);
+      for (const ball of world.balls) blastAway(ball, car);
+      return;
+    case "oil": {
+      // Spilled just behind the car, for whoever's chasing
+      const distance = car.width / 2 + OIL_SLICK_RADIUS;
+      dropOilSlick(world, { x: car.x - Math.cos(car.angle) * distance, y: car.y - Math.sin(car.angle) * distance });
+      return;
+    }
+  }
+};
+
+// Pick up anything the car is touching and use it straight away, raising an event for each
+export const collectPowerUps = (world: World, car: Car) => {
+  const touching = world.powerUps.filter(powerUp => isPointInCar(car, powerUp, POWER_UP_RADIUS));
+  if (touching.length === 0) return;
+
+  world.powerUps = world.powerUps.filter(powerUp => !touching.includes(powerUp));
+  for (const powerUp of touching) {
+    applyPowerUp(world, car, powerUp.kind);
+    world.events.push({ type: "powerUp", carId: car.id, kind: powerUp.kind, x: powerUp.x, y: powerUp.y });
+  }
+};
+
+// Run the clocks on timed power-ups
+export const tickEffects = (car: Car) => {
+  car.effects.nitro = Math.max(0, car.effects.nitro - 1);
+  car.effects.armor = Math.max(0, car.effects.armor - 1);
+};
@@ -0,0 +1,167 @@
+import { collideBallPolygon, collideCarBall, createBall } from "./ball";
+import {
+  BALL_BOUNCE,
+  BALL_CAR_RESTITUTION,
+  BALL_FRICTION_ON_CONTACT,
+  BOUNCE_FACTOR,
+  COLLISION_COOLDOWN_TICKS,
+  DEBRIS_CARRY,
+  DEBRIS_MASS,
+  DEBRIS_RADIUS,
+  DEBRIS_SCATTER,
+  DEBRIS_TICKS,
+  PROP_SMASH_SPEED_KEPT,
+  SEPARATION_SLOP,
+  WALL_FRICTION,
+} from "./constants";
+import { getImpactDamage } from "./damage";
+import { getPointVelocity, resolveImpulse, separateBodies } from "./impulse";
+import { getPolygonCenter } from "./polygon";
+import { random } from "./rng";
+import { collideCarPolygon } from "./sat";
+import type { Ball, Car, Contact, Debris, Prop, PropKind, Vec2, World } from "./types";
+
+export const PROP_KINDS: PropKind[] = ["crate", "fence", "wall"];
+
+// Hit points for each kind, against damage worked out the same way as for a car-to-car hit
+export const PROP_HP: Record<PropKind, number> = {
+  // Splinters under one flat-out hit
+  crate: 15,
+  // Flimsy panels that any decent knock goes through
+  fence: 6,
+  // Takes a proper pounding, but it does come down
+  wall: 50,
+};
+
+// How many pieces each kind breaks into
+const DEBRIS_COUNT: Record<Debris["source"], number> = { crate: 5, fence: 3, wall: 7, barrel: 4 };
+
+// Props get their id when they're added to a world (see `createWorld`)
+export const createProp = (kind: PropKind, points: Vec2[]): Prop => ({
+  id: 0,
+  kind,
+  points,
+  hp: PROP_HP[kind],
+  maxHp: PROP_HP[kind],
+});
+
+// Cooldown key for a car and a prop or barrel, so a car grinding against one only dents it every so often
+export const getPropKey = (car: Car, target: Prop | Ball): string => `${car.id}:${target.kind}${target.id}`;
+
+// How fast the car's point of contact was heading into something that doesn't move
+const getClosingSpeed = (car: Car, contact: Contact): number => {
+  const velocity = getPointVelocity(car, contact.point);
+  return Math.max(0, velocity.x * contact.normal.x + velocity.y * contact.normal.y);
+};
+
+// Take a hit off a prop or barrel, unless the same car hit it moments ago. Returns true if that finished it off.
+const takeHit = (world: World, car: Car, target: Prop | Ball, impactSpeed: number): boolean => {
+  const damage = getImpactDamage(impactSpeed);
+  if (damage <= 0 || target.hp === undefined) return false;
+
+  const key = getPropKey(car, target);
+  const lastHitTick = world.collisionCooldowns[key];
+  if (lastHitTick !== undefined && world.tick - lastHitTick < COLLISION_COOLDOWN_TICKS) return false;
+
+  target.hp = Math.max(0, target.hp - damage);
+  world.collisionCooldowns[key] = world.tick;
+  return target.hp <= 0;
+};
+
+// Raise the event and scatter the pieces over the outline of whatever broke, flying off the way the car was going
+const shatter = (world: World, car: Car, source: Debris["source"], outline: Vec2[]) => {
+  const centre = getPolygonCenter(outline);
+  world.events.push({ type: "propBroken", kind: source, carId: car.id, x: centre.x, y: centre.y });
+
+  const pieces = Array.from({ length: DEBRIS_COUNT[source] }, (): Debris => {
+    const corner = outline[Math.floor(random(world) * outline.length)];
+    const reach = random(world) * 0.8;
+    const sprayAngle = random(world) * Math.PI * 2;
+    const spray = random(world) * DEBRIS_SCATTER;
+    return {
+      ...createBall(
+        centre.x + (corner.x - centre.x) * reach,
+        centre.y + (corner.y - centre.y) * reach,
+        DEBRIS_RADIUS,
+        DEBRIS_MASS,
+      ),
+      kind: "debris",
+      vx: car.vx * DEBRIS_CARRY + Math.cos(sprayAngle) * spray,
+      vy: car.vy * DEBRIS_CARRY + Math.sin(sprayAngle) * spray,
+      angle: random(world) * Math.PI * 2,
+      angularVel: (random(world) - 0.5) * 0.4,
+      source,
+      expiresTick: world.tick + DEBRIS_TICKS,
+    };
+  });
+  world.debris = [...world.debris, ...pieces];
+};
+
+/**
+ * Bounce a car off the props still standing, denting any it hits hard enough. A hit that breaks a prop doesn't
+ * bounce the car at all: it smashes straight through and only loses some speed. Returns true if it touched any.
+ */
+export const handlePropCollisions = (world: World, car: Car): boolean => {
+  let touched = false;
+
+  for (const prop of world.props) {
+    const contact = collideCarPolygon(car, prop.points);
+    if (!contact) continue;
+    touched = true;
+
+    if (takeHit(world, car, prop, getClosingSpeed(car, contact))) {
+      shatter(world, car, prop.kind, prop.points);
+      world.props = world.props.filter(standing => standing.id !== prop.id);
+      car.vx *= PROP_SMASH_SPEED_KEPT;
+      car.vy *= PROP_SMASH_SPEED_KEPT;
+      continue;
+    }
+    resolveImpulse(car, null, contact, BOUNCE_FACTOR, WALL_FRICTION);
+    separateBodies(car, null, contact);
+  }
+
+  return touched;
+};
+
+// Knock a barrel away from a car like any ball, denting it by the impact. Returns true if they touched.
+export const handleCarBarrelCollision = (world: World, car: Car, barrel: Ball): boolean => {
+  // Already burst earlier in this sub-step
+  if (barrel.hp !== undefined && barrel.hp <= 0) return false;
+  const contact = collideCarBall(car, barrel);
+  if (!contact) return false;
+
+  const impactSpeed = resolveImpulse(car, barrel, contact, BALL_CAR_RESTITUTION, BALL_FRICTION_ON_CONTACT);
+  separateBodies(car, barrel, contact, SEPARATION_SLOP);
+
+  if (takeHit(world, car, barrel, impactSpeed)) {
+    const outline = [0, 1, 2, 3].map(i => ({
+      x: barrel.x + Math.cos((i * Math.PI) / 2) * barrel.radius,
+      y: barrel.y + Math.sin((i * Math.PI) / 2) * barrel.radius,
+    }));
+    shatter(world, car, "barrel", outline);
+    world.balls = world.balls.filter(ball => ball.id !== barrel.id);
+  }
+  return true;
+};
+
+// Bounce a ball, barrel or piece of debris off the props still standing. Only cars can break them.
+export const handleBallPropCollisions = (world: World, ball: Ball): boolean => {
+  let touched = false;
+
+  for (const prop of world.props) {
+    const contact = collideBallPolygon(ball, prop.points);
+    if (!contact) continue;
+    resolveImpulse(ball, null, contact, BALL_BOUNCE, WALL_FRICTION);
+    separateBodies(ball, null, contact);
+    touched = true;
+  }
+
+  return touched;
+};
+
+// Sweep away debris that has had its time
+export const clearOldDebris = (world: World) => {
+  if (world.debris.some(piece => world.tick >= piece.expiresTick)) {
+    world.debris = world.debris.filter(piece => world.tick < piece.expiresTick);
+  }
+};
@@ -0,0 +1,32 @@
+import { RAMP_HANG_TICKS, RAMP_LAUNCH_BOOST, RAMP_MIN_LAUNCH_SPEED } from "./constants";
+import { isPointInPolygon } from "./polygon";
+import type { Arena, Car, Ramp, Vec2 } from "./types";
+
+// The ramp under `point`, if any. Where ramps overlap, the later one is on top.
+export const getRampAt = (arena: Arena, point: Vec2): Ramp | null => {
+  for (let i = arena.ramps.length - 1; i >= 0; i--) {
+    if (isPointInPolygon(point, arena.ramps[i].points)) return arena.ramps[i];
+  }
+  return null;
+};
+
+/**
+ * Throw a car into the air if it was on `ramp` at the start of the tick and has just gone off it heading up.
+ * The faster it was going, the further it flies. Cars crawling off it, or coming down it the wrong way, just drive on.
+ */
+export const launchOffRamp = (car: Car, ramp: Ramp | null) => {
+  if (!ramp || car.airborne > 0 || isPointInPolygon(car, ramp.points)) return;
+  const up = { x: Math.cos(ramp.angle), y: Math.sin(ramp.angle) };
+  const speedUp = car.vx * up.x + car.vy * up.y;
+  if (speedUp < RAMP_MIN_LAUNCH_SPEED) return;
+
+  car.vx += up.x * speedUp * (RAMP_LAUNCH_BOOST - 1);
+  car.vy += up.y * speedUp * (RAMP_LAUNCH_BOOST - 1);
+  car.airborne = Math.round(speedUp * RAMP_HANG_TICKS);
+};
+
+// Up in the air nothing grips the car, so it keeps its speed and its spin until it lands
+export const flyCar = (car: Car) => {
+  car.angle += car.angularVel;
+  car.airborne--;
+};
@@ -0,0 +1,30 @@
+import type { World } from "./types";
+
+/**
+ * Mulberry32 PRNG step. Returns a value in [0, 1) and the next generator state.
+ * Keeping the state as a plain number lets it live on the world so `step` stays pure.
+ */
+export const nextRandom = (state: number): { value: number; state: number } => {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: nextState };
+};
+
+// Draw the next random number from the world's generator
+export const random = (world: World): number => {
+  const { value, state } = nextRandom(world.rngState);
+  world.rngState = state;
+  return value;
+};
+
+// Standalone seeded generator for code that doesn't own a world
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    const next = nextRandom(state);
+    state = next.state;
+    return next.value;
+  };
+};
@@ -0,0 +1,135 @@
+import { getCarAxes, getCarCorners, isPointInCar, toCarLocal } from "./car";
+import { getEdgeAxes, isPointInPolygon } from "./polygon";
+import type { Car, Circle, Contact, Vec2 } from "./types";
+
+const dot = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y;
+
+const project = (corners: Vec2[], axis: Vec2): { min: number; max: number } => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const corner of corners) {
+    const d = dot(corner, axis);
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return { min, max };
+};
+
+/**
+ * Contact point for two overlapping boxes: the average of every corner buried in the other box.
+ * A corner clip yields that corner, a side swipe yields the middle of the overlapping edges.
+ */
+const getContactPoint = (a: Car, b: Car, cornersA: Vec2[], cornersB: Vec2[], normal: Vec2): Vec2 => {
+  const buried = [...cornersB.filter(c => isPointInCar(a, c)), ...cornersA.filter(c => isPointInCar(b, c))];
+
+  if (buried.length > 0) {
+    const sum = buried.reduce((acc, c) => ({ x: acc.x + c.x, y: acc.y + c.y }), { x: 0, y: 0 });
+    return { x: sum.x / buried.length, y: sum.y / buried.length };
+  }
+
+  // Edges cross without any corner inside (shallow X overlap) - use the midpoint of the two support points
+  const supportA = cornersA.reduce((best, c) => (dot(c, normal) > dot(best, normal) ? c : best));
+  const supportB = cornersB.reduce((best, c) => (dot(c, normal) < dot(best, normal) ? c : best));
+  return { x: (supportA.x + supportB.x) / 2, y: (supportA.y + supportB.y) / 2 };
+};
+
+// Separating-axis test between two oriented car rectangles. Returns null when they don't overlap.
+export const collideCars = (a: Car, b: Car): Contact | null => {
+  const cornersA = getCarCorners(a);
+  const cornersB = getCarCorners(b);
+
+  let depth = Infinity;
+  let normal: Vec2 = { x: 0, y: 0 };
+
+  for (const axis of [...getCarAxes(a), ...getCarAxes(b)]) {
+    const pa = project(cornersA, axis);
+    const pb = project(cornersB, axis);
+    const overlap = Math.min(pa.max, pb.max) - Math.max(pa.min, pb.min);
+
+    if (overlap <= 0) return null;
+    if (overlap < depth) {
+      depth = overlap;
+      normal = axis;
+    }
+  }
+
+  // Make the normal point from a to b
+  if ((b.x - a.x) * normal.x + (b.y - a.y) * normal.y < 0) {
+    normal = { x: -normal.x, y: -normal.y };
+  }
+
+  return { normal, depth, point: getContactPoint(a, b, cornersA, cornersB, normal) };
+};
+
+// Circle against an oriented car box. The normal points from the car to the circle.
+export const collideCarCircle = (car: Car, circle: Circle): Contact | null => {
+  const local = toCarLocal(car, circle);
+  const hw = car.width / 2;
+  const hh = car.height / 2;
+  const [forward, right] = getCarAxes(car);
+  const toWorld = (x: number, y: number): Vec2 => ({
+    x: car.x + forward.x * x + right.x * y,
+    y: car.y + forward.y * x + right.y * y,
+  });
+
+  const inside = Math.abs(local.x) <= hw && Math.abs(local.y) <= hh;
+  if (inside) {
+    // Centre is already inside the box - push it out through the nearest side
+    const outX = hw - Math.abs(local.x);
+    const outY = hh - Math.abs(local.y);
+    const alongX = outX < outY;
+    const sign = Math.sign(alongX ? local.x : local.y) || 1;
+    const axis = alongX ? forward : right;
+    return {
+      normal: { x: axis.x * sign, y: axis.y * sign },
+      depth: (alongX ? outX : outY) + circle.radius,
+      point: alongX ? toWorld(hw * sign, local.y) : toWorld(local.x, hh * sign),
+    };
+  }
+
+  const closestX = Math.max(-hw, Math.min(hw, local.x));
+  const closestY = Math.max(-hh, Math.min(hh, local.y));
+  const point = toWorld(closestX, closestY);
+  const dx = circle.x - point.x;
+  const dy = circle.y - point.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance >= circle.radius) return null;
+
+  return { normal: { x: dx / distance, y: dy / distance }, depth: circle.radius - distance, point };
+};
+
+// Car box against a convex polygon, like an arena wall. The normal points from the car into the polygon.
+export const collideCarPolygon = (car: Car, points: Vec2[]): Contact | null => {
+  const corners = getCarCorners(car);
+
+  let depth = Infinity;
+  let normal: Vec2 = { x: 0, y: 0 };
+
+  // Walls can be much bigger than a car, so measure how far the car has to go back out of each side
+  for (const axis of [...getCarAxes(car), ...getEdgeAxes(points)]) {
+    const pa = project(corners, axis);
+    const pb = project(points, axis);
+    const intoHigh = pa.max - pb.min;
+    const intoLow = pb.max - pa.min;
+
+    if (intoHigh <= 0 || intoLow <= 0) return null;
+    if (Math.min(intoHigh, intoLow) < depth) {
+      depth = Math.min(intoHigh, intoLow);
+      normal = intoHigh < intoLow ? axis : { x: -axis.x, y: -axis.y };
+    }
+  }
+
+  const buried = [
+    ...corners.filter(corner => isPointInPolygon(corner, points)),
+    ...points.filter(point => isPointInCar(car, point)),
+  ];
+  const point =
+    buried.length > 0
+      ? {
+          x: buried.reduce((sum, p) => sum + p.x, 0) / buried.length,
+          y: buried.reduce((sum, p) => sum + p.y, 0) / buried.length,
+        }
+      : corners.reduce((best, c) => (dot(c, normal) > dot(best, normal) ? c : best));
+
+  return { normal, depth, point };
+};
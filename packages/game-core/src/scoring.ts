@@ -0,0 +1,136 @@
+import { TICK_RATE } from "./constants";
+import type { HitClass, World } from "./types";
+
+export const HIT_CLASSES: HitClass[] = ["headOn", "tbone", "rearEnd", "sideswipe", "glancing"];
+
+// Points for each kind of hit at the reference impact speed
+export const HIT_POINTS: Record<HitClass, number> = {
+  headOn: 150,
+  tbone: 200,
+  rearEnd: 100,
+  sideswipe: 60,
+  glancing: 25,
+};
+
+export const WRECK_BONUS = 500;
+export const COMBO_WINDOW_TICKS = TICK_RATE * 2; // Land the next hit within this long to keep the chain going
+export const COMBO_STEP = 0.5; // Extra multiplier for each hit in the chain
+export const MAX_COMBO_MULTIPLIER = 4;
+const REFERENCE_IMPACT_SPEED = 5;
+
+export interface HitTally {
+  count: number;
+  points: number;
+}
+
+export interface CarScore {
+  total: number;
+  hits: Record<HitClass, HitTally>;
+  wrecks: number;
+  wreckPoints: number;
+  combo: number; // Hits in the current chain
+  bestCombo: number;
+  lastHitTick: number; // -1 until the first hit of a round
+}
+
+// A score worth shouting about, raised by the update that awarded it
+export interface ScoreCallout {
+  carId: number;
+  kind: HitClass | "wreck";
+  points: number;
+  multiplier: number;
+  x: number;
+  y: number;
+}
+
+// Scores for a whole match, keyed by car id
+export interface ScoreState {
+  cars: Record<number, CarScore>;
+  callouts: ScoreCallout[];
+}
+
+export const createScoreState = (): ScoreState => ({ cars: {}, callouts: [] });
+
+const tallyHits = (getTally: (hitClass: HitClass) => HitTally) =>
+  Object.fromEntries(HIT_CLASSES.map(hitClass => [hitClass, getTally(hitClass)])) as Record<HitClass, HitTally>;
+
+const createCarScore = (): CarScore => ({
+  total: 0,
+  hits: tallyHits(() => ({ count: 0, points: 0 })),
+  wrecks: 0,
+  wreckPoints: 0,
+  combo: 0,
+  bestCombo: 0,
+  lastHitTick: -1,
+});
+
+const cloneCarScore = (score: CarScore): CarScore => ({
+  ...score,
+  hits: tallyHits(hitClass => ({ ...score.hits[hitClass] })),
+});
+
+const isChainAlive = (score: CarScore, tick: number) =>
+  score.lastHitTick >= 0 && tick - score.lastHitTick <= COMBO_WINDOW_TICKS;
+
+export const getComboMultiplier = (combo: number) => Math.min(MAX_COMBO_MULTIPLIER, 1 + (combo - 1) * COMBO_STEP);
+
+// Points for one hit before the combo: the class's base points, scaled by how hard the cars met
+export const getHitPoints = (hitClass: HitClass, impactSpeed: number) =>
+  Math.round(HIT_POINTS[hitClass] * (impactSpeed / REFERENCE_IMPACT_SPEED));
+
+// Ticks restart every round, so chains can't carry over from the last one
+export const startScoreRound = (state: ScoreState): ScoreState => ({
+  cars: Object.fromEntries(
+    Object.entries(state.cars).map(([carId, score]) => [carId, { ...cloneCarScore(score), combo: 0, lastHitTick: -1 }]),
+  ),
+  callouts: [],
+});
+
+/**
+ * Score the hits and wrecks from the step that produced `world`. The attacker gets the hit, multiplied by their
+ * current chain, and whoever dealt the final blow gets the wreck bonus at the same multiplier. Knocking a car off a
+ * platform counts as wrecking it. Hits on cars that were already wrecked never reach here (see `handleCarCollision`).
+ * Pure, like `step`.
+ */
+export const updateScores = (state: ScoreState, world: World): ScoreState => {
+  const cars = { ...state.cars };
+  const callouts: ScoreCallout[] = [];
+  // Copy a car's score the first time this update touches it
+  const touched = new Set<number>();
+  const getScore = (carId: number) => {
+    if (!touched.has(carId)) {
+      cars[carId] = state.cars[carId] ? cloneCarScore(state.cars[carId]) : createCarScore();
+      touched.add(carId);
+    }
+    return cars[carId];
+  };
+
+  for (const event of world.events) {
+    if (event.type === "collision") {
+      const score = getScore(event.attackerId);
+      score.combo = isChainAlive(score, world.tick) ? score.combo + 1 : 1;
+      score.bestCombo = Math.max(score.bestCombo, score.combo);
+      score.lastHitTick = world.tick;
+
+      const multiplier = getComboMultiplier(score.combo);
+      const points = Math.round(getHitPoints(event.hitClass, event.impactSpeed) * multiplier);
+      score.hits[event.hitClass].count++;
+      score.hits[event.hitClass].points += points;
+      score.total += points;
+      callouts.push({ carId: event.attackerId, kind: event.hitClass, points, multiplier, x: event.x, y: event.y });
+    }
+
+    if ((event.type === "wrecked" || event.type === "fellOff") && event.byId !== null && event.byId !== event.carId) {
+      const score = getScore(event.byId);
+      const multiplier = isChainAlive(score, world.tick) ? getComboMultiplier(score.combo) : 1;
+      const points = Math.round(WRECK_BONUS * multiplier);
+      score.wrecks++;
+      score.wreckPoints += points;
+      score.total += points;
+      callouts.push({ carId: event.byId, kind: "wreck", points, multiplier, x: event.x, y: event.y });
+    }
+  }
+
+  if (callouts.length === 0 && state.callouts.length === 0) return state;
+  return { cars, callouts };
+};
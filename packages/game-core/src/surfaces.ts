@@ -0,0 +1,53 @@
+import { getCarCorners } from "./car";
+import { OIL_SLICK_RADIUS, OIL_SLICK_TICKS } from "./constants";
+import { isPointInPolygon } from "./polygon";
+import type { Car, SurfaceGrip, SurfaceKind, Vec2, World } from "./types";
+
+// The bare dirt floor, which the base friction constants are tuned for
+export const FLOOR_GRIP: SurfaceGrip = { traction: 1, drag: 1, grip: 1 };
+
+export const SURFACE_GRIP: Record<SurfaceKind, SurfaceGrip> = {
+  // Bites hard: quicker off the line, faster flat out and hardly any slide
+  asphalt: { traction: 1.25, drag: 0.75, grip: 1.4 },
+  // Wheels spin and the car wallows, but it holds a line
+  mud: { traction: 0.6, drag: 2, grip: 1.2 },
+  // Slow to get going and slow to stop, and the back end goes wherever it likes
+  ice: { traction: 0.35, drag: 0.3, grip: 0.12 },
+  // Next to no grip at all while you're on it
+  oil: { traction: 0.2, drag: 0.5, grip: 0.05 },
+};
+
+// Friction for a surface, from the floor's: `scale` times as much speed is lost each tick
+export const scaleFriction = (friction: number, scale: number) => Math.min(1, Math.max(0, 1 - (1 - friction) * scale));
+
+// What's underfoot at `point`: a dropped slick on top, then the arena's own regions, the later ones on top
+export const getSurfaceAt = (world: World, point: Vec2): SurfaceKind | null => {
+  if (world.slicks.some(slick => Math.hypot(slick.x - point.x, slick.y - point.y) < slick.radius)) return "oil";
+  const regions = world.arena.surfaces;
+  for (let i = regions.length - 1; i >= 0; i--) {
+    if (isPointInPolygon(point, regions[i].points)) return regions[i].kind;
+  }
+  return null;
+};
+
+// Each wheel feels the floor under its own corner of the car, and the car gets the average of the four
+export const getSurfaceGrip = (world: World, car: Car): SurfaceGrip => {
+  const wheels = getCarCorners(car).map(corner => {
+    const kind = getSurfaceAt(world, corner);
+    return kind ? SURFACE_GRIP[kind] : FLOOR_GRIP;
+  });
+  const average = (key: keyof SurfaceGrip) => wheels.reduce((sum, wheel) => sum + wheel[key], 0) / wheels.length;
+  return { traction: average("traction"), drag: average("drag"), grip: average("grip") };
+};
+
+// Spill oil that stays on the floor for a while
+export const dropOilSlick = (world: World, point: Vec2, radius = OIL_SLICK_RADIUS) => {
+  world.slicks = [...world.slicks, { x: point.x, y: point.y, radius, expiresTick: world.tick + OIL_SLICK_TICKS }];
+};
+
+// Mop up slicks that have had their time
+export const clearOldSlicks = (world: World) => {
+  if (world.slicks.some(slick => world.tick >= slick.expiresTick)) {
+    world.slicks = world.slicks.filter(slick => world.tick < slick.expiresTick);
+  }
+};
@@ -0,0 +1,181 @@
+import { getTotalHealth } from "./car";
+import { TICK_RATE } from "./constants";
+import { createSnapshot, sanitizeInput } from "./controller";
+import type { Controller, StepInputs } from "./types";
+import { createRingCars, createWorld, step } from "./world";
+
+/**
+ * A derby bot. Each match gets fresh controllers from `createController`, so bots can keep whatever state they like
+ * in closures without leaking it between matches.
+ */
+export interface BotDefinition {
+  name: string;
+  author?: string;
+  createController: (carId: number, seed: number) => Controller;
+}
+
+// Identity helper so bot modules get type checking without importing the interface
+export const defineBot = (bot: BotDefinition): BotDefinition => bot;
+
+export interface MatchOptions {
+  seed: number;
+  maxTicks: number;
+}
+
+export const DEFAULT_MATCH_TICKS = TICK_RATE * 60;
+
+export type MatchSide = 0 | 1;
+
+export interface MatchResult {
+  seed: number;
+  ticks: number;
+  winner: MatchSide | null; // null for a draw
+  // How it was decided: a wreck, more health left at the time limit, or the other bot throwing
+  reason: "wreck" | "health" | "draw" | "error";
+  damageDealt: [number, number];
+  health: [number, number];
+  error?: string;
+}
+
+const getErrorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Play one match between two bots. Side 0 starts on the left, side 1 on the right.
+export const runMatch = (bots: [BotDefinition, BotDefinition], options: Partial<MatchOptions> = {}): MatchResult => {
+  const { seed = 1, maxTicks = DEFAULT_MATCH_TICKS } = options;
+  let world = createWorld(seed, createRingCars(2));
+  const damageDealt: [number, number] = [0, 0];
+
+  const finish = (winner: MatchSide | null, reason: MatchResult["reason"], error?: string): MatchResult => ({
+    seed,
+    ticks: world.tick,
+    winner,
+    reason,
+    damageDealt,
+    health: [getTotalHealth(world.cars[0]), getTotalHealth(world.cars[1])],
+    ...(error !== undefined && { error }),
+  });
+
+  // A bot that can't even set up loses before a wheel turns, the same as one that throws mid-match
+  const controllers: Controller[] = [];
+  for (const side of [0, 1] as const) {
+    try {
+      controllers.push(bots[side].createController(side, seed * 2 + side));
+    } catch (err) {
+      return finish(side === 0 ? 1 : 0, "error", getErrorMessage(err));
+    }
+  }
+
+  while (world.tick < maxTicks) {
+    const snapshot = createSnapshot(world);
+    const inputs: StepInputs = {};
+    for (const side of [0, 1] as const) {
+      try {
+        inputs[side] = sanitizeInput(controllers[side].decide(snapshot));
+      } catch (err) {
+        return finish(side === 0 ? 1 : 0, "error", getErrorMessage(err));
+      }
+    }
+
+    world = step(world, inputs);
+
+    for (const event of world.events) {
+      if (event.type === "collision") damageDealt[event.attackerId] += event.damage;
+    }
+
+    const [leftWrecked, rightWrecked] = [world.cars[0].wrecked, world.cars[1].wrecked];
+    if (leftWrecked && rightWrecked) return finish(null, "draw");
+    if (leftWrecked) return finish(1, "wreck");
+    if (rightWrecked) return finish(0, "wreck");
+  }
+
+  const [leftHealth, rightHealth] = [getTotalHealth(world.cars[0]), getTotalHealth(world.cars[1])];
+  if (leftHealth === rightHealth) return finish(null, "draw");
+  return finish(leftHealth > rightHealth ? 0 : 1, "health");
+};
+
+// A match in a round robin, with bots referenced by their index in the entry list
+export interface Fixture {
+  home: number;
+  away: number;
+  seed: number;
+}
+
+export interface FixtureResult extends Fixture {
+  result: MatchResult;
+}
+
+export interface Standing {
+  bot: number;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number;
+  damageDealt: number;
+  damageTaken: number;
+}
+
+export const POINTS_FOR_WIN = 3;
+export const POINTS_FOR_DRAW = 1;
+
+// Every bot plays every other bot once per leg, swapping starting sides each leg
+export const createRoundRobin = (botCount: number, seed = 1, legs = 2): Fixture[] => {
+  const fixtures: Fixture[] = [];
+  for (let leg = 0; leg < legs; leg++) {
+    for (let i = 0; i < botCount; i++) {
+      for (let j = i + 1; j < botCount; j++) {
+        const [home, away] = leg % 2 === 0 ? [i, j] : [j, i];
+        fixtures.push({ home, away, seed: seed + fixtures.length });
+      }
+    }
+  }
+  return fixtures;
+};
+
+export const playFixture = (bots: BotDefinition[], fixture: Fixture, maxTicks?: number): FixtureResult => ({
+  ...fixture,
+  result: runMatch([bots[fixture.home], bots[fixture.away]], { seed: fixture.seed, maxTicks }),
+});
+
+// League table, best first: points, then damage difference, then damage dealt
+export const getStandings = (botCount: number, results: FixtureResult[]): Standing[] => {
+  const standings: Standing[] = Array.from({ length: botCount }, (_, bot) => ({
+    bot,
+    played: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    points: 0,
+    damageDealt: 0,
+    damageTaken: 0,
+  }));
+
+  for (const { home, away, result } of results) {
+    const sides = [standings[home], standings[away]];
+    sides.forEach((standing, side) => {
+      standing.played++;
+      standing.damageDealt += result.damageDealt[side];
+      standing.damageTaken += result.damageDealt[1 - side];
+      if (result.winner === null) {
+        standing.draws++;
+        standing.points += POINTS_FOR_DRAW;
+      } else if (result.winner === side) {
+        standing.wins++;
+        standing.points += POINTS_FOR_WIN;
+      } else {
+        standing.losses++;
+      }
+    });
+  }
+
+  const damageDiff = (standing: Standing) => standing.damageDealt - standing.damageTaken;
+  return standings.sort(
+    (a, b) => b.points - a.points || damageDiff(b) - damageDiff(a) || b.damageDealt - a.damageDealt || a.bot - b.bot,
+  );
+};
+
+// Play a whole round robin in one go. The browser plays fixtures one at a time instead to keep the page responsive.
+export const runRoundRobin = (bots: BotDefinition[], seed = 1, legs = 2, maxTicks?: number) => {
+  const results = createRoundRobin(bots.length, seed, legs).map(fixture => playFixture(bots, fixture, maxTicks));
+  return { results, standings: getStandings(bots.length, results) };
+};
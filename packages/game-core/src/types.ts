@@ -0,0 +1,267 @@
+export type HitZone = "front" | "rear" | "left" | "right";
+
+// What kind of impact a collision was, judged from the zones that met and how the cars were lined up
+export type HitClass = "headOn" | "tbone" | "rearEnd" | "sideswipe" | "glancing";
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+// Axis-aligned bounding box
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Result of a narrowphase test. The normal is a unit vector pointing from the first body to the second.
+export interface Contact {
+  normal: Vec2;
+  depth: number;
+  point: Vec2;
+}
+
+// Everything the impulse solver needs to push a body around
+export interface RigidBody {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  angularVel: number;
+  mass: number;
+  inertia: number;
+  isStatic: boolean;
+}
+
+export interface Car extends RigidBody {
+  id: number;
+  angle: number;
+  width: number;
+  height: number;
+  color: string;
+  health: Record<HitZone, number>;
+  // Out of the round: every zone smashed, or fallen off a platform (see `fellOff`). Wrecked cars ignore their driver.
+  wrecked: boolean;
+  fellOff: boolean;
+  effects: CarEffects;
+  // The last car to hit this one and when, so whoever shoves it off a platform gets the credit
+  lastHitBy: { carId: number; tick: number } | null;
+  // Ticks left in the air after flying off a ramp. Up there the wheels don't touch anything, so the car can't steer,
+  // brake or be slowed down.
+  airborne: number;
+}
+
+export type PowerUpKind = "nitro" | "armor" | "repair" | "shockwave" | "oil";
+
+// Ticks left on each timed power-up, 0 when it isn't running
+export interface CarEffects {
+  nitro: number;
+  armor: number;
+}
+
+// Anything round: balls, pillars
+export interface Circle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// A barrel is a heavy drum that rolls to a stop much sooner than a ball, and debris is what's left of a broken prop
+export type BallKind = "ball" | "barrel" | "debris";
+
+// A loose round body, like the soccer ball
+export interface Ball extends RigidBody, Circle {
+  id: number;
+  kind: BallKind;
+  angle: number; // Only for drawing the spin
+  hp?: number; // Barrels burst when this runs out. Balls have none and never break.
+}
+
+// Things standing in the arena that cars can smash: wooden crates, fence panels and weak stretches of wall
+export type PropKind = "crate" | "fence" | "wall";
+
+// A solid convex block that bounces cars like a wall until enough hits have broken it
+export interface Prop {
+  id: number;
+  kind: PropKind;
+  points: Vec2[];
+  hp: number;
+  maxHp: number;
+}
+
+// A chunk knocked off a broken prop or barrel. It rolls about like a small ball and is swept away at `expiresTick`.
+export interface Debris extends Ball {
+  source: PropKind | "barrel";
+  expiresTick: number;
+}
+
+// A round stage with a drop all the way round it
+export interface Platform {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export type SurfaceKind = "asphalt" | "mud" | "ice" | "oil";
+
+// A patch of floor with its own grip. Where regions overlap, the later one is on top.
+export interface SurfaceRegion {
+  kind: SurfaceKind;
+  points: Vec2[];
+}
+
+// A wedge cars drive up to fly off the far end. `angle` is the way up, and the lip is the edge it points at.
+export interface Ramp {
+  points: Vec2[];
+  angle: number;
+}
+
+// A puddle of oil dropped during a round, which soaks away at `expiresTick`
+export interface OilSlick extends Circle {
+  expiresTick: number;
+}
+
+// Where a car starts a round, and which way it faces
+export interface Spawn {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// Static layout of the arena
+export interface Arena {
+  bounds: Bounds; // Inside faces of the four outer walls
+  goalWidth: number; // Width of the goal mouths cut into the middle of the left and right walls, 0 for none
+  // With a platform there are no walls at all - cars that drive off the edge are out
+  platform: Platform | null;
+  walls: Vec2[][]; // Solid convex polygons standing inside the bounds
+  pillars: Circle[];
+  surfaces: SurfaceRegion[];
+  ramps: Ramp[];
+}
+
+// A pickup waiting on the arena floor
+export interface PowerUp {
+  id: number;
+  kind: PowerUpKind;
+  x: number;
+  y: number;
+  expiresTick: number; // Gone if nobody has picked it up by then
+}
+
+// Handling after damage, as multipliers on the base physics constants
+export interface Handling {
+  acceleration: number; // Multiplier on ACCELERATION
+  topSpeed: number; // Multiplier on MAX_SPEED
+  steeringPull: number; // Fraction of TURN_RATE applied every tick, positive pulls right
+  sidewaysFriction: number;
+  engineStalled: boolean;
+  lostWheel: "left" | "right" | null;
+}
+
+// How the floor under a car changes its grip, as scales on the floor's own friction. 1 is bare floor for all three.
+export interface SurfaceGrip {
+  traction: number; // Multiplier on acceleration and braking
+  drag: number; // Multiplier on the forward speed lost each tick
+  grip: number; // Multiplier on the sideways slide killed each tick - low grip means drifting
+}
+
+// Analog input values (0 to 1 for intensity)
+export interface AnalogInput {
+  forward: number; // 0 to 1
+  reverse: number; // 0 to 1
+  left: number; // 0 to 1
+  right: number; // 0 to 1
+}
+
+// Emitted when a car-to-car impact is hard enough to deal damage
+export interface CollisionEvent {
+  type: "collision";
+  x: number;
+  y: number;
+  damage: number; // Dealt to the victim, after its armour
+  attackerDamage: number; // Taken by the attacker from its own hit, after its armour
+  attackerId: number;
+  victimId: number;
+  attackerZone: HitZone;
+  victimZone: HitZone;
+  hitClass: HitClass;
+  impactSpeed: number; // Closing speed along the contact normal
+}
+
+// Emitted when a car loses the last of its health
+export interface WreckedEvent {
+  type: "wrecked";
+  carId: number;
+  byId: number | null; // The car that dealt the final blow, if any
+  x: number;
+  y: number;
+}
+
+// Emitted when a car's centre leaves the platform
+export interface FellOffEvent {
+  type: "fellOff";
+  carId: number;
+  byId: number | null; // The car that knocked it off, if one hit it just before
+  x: number;
+  y: number;
+}
+
+// Emitted when a car drives over a power-up
+export interface PowerUpEvent {
+  type: "powerUp";
+  carId: number;
+  kind: PowerUpKind;
+  x: number;
+  y: number;
+}
+
+// Emitted when a car bounces off an arena wall, or the hulk of a wrecked car, hard enough to hear
+export interface WallHitEvent {
+  type: "wallHit";
+  carId: number;
+  x: number;
+  y: number;
+  impactSpeed: number; // How much the wall changed the car's velocity
+}
+
+// Emitted when a car smashes a prop or barrel to pieces
+export interface PropBrokenEvent {
+  type: "propBroken";
+  kind: PropKind | "barrel";
+  carId: number;
+  x: number;
+  y: number;
+}
+
+export type GameEvent = CollisionEvent | WreckedEvent | FellOffEvent | PowerUpEvent | WallHitEvent | PropBrokenEvent;
+
+export interface World {
+  tick: number;
+  rngState: number;
+  cars: Car[];
+  balls: Ball[];
+  arena: Arena;
+  powerUps: PowerUp[];
+  nextPowerUpId: number;
+  slicks: OilSlick[];
+  props: Prop[]; // Only the ones still standing
+  debris: Debris[];
+  // Tick of the last damaging hit for each pair of cars, keyed by `getPairKey`, or a car and a prop (see `getPropKey`)
+  collisionCooldowns: Record<string, number>;
+  // Events raised during the step that produced this world
+  events: GameEvent[];
+}
+
+// Inputs keyed by car id. Cars without an entry have no driver and coast.
+export type StepInputs = Record<number, AnalogInput>;
+
+// The world as a controller sees it. Controllers are handed a frozen copy, so writing to it throws.
+export type WorldSnapshot = Readonly<World>;
+
+// Anything that can drive a car: the keyboard, the built-in AI or a user-written bot
+export interface Controller {
+  decide: (world: WorldSnapshot) => AnalogInput;
+}
@@ -0,0 +1,186 @@
+import {
+  cloneBall,
+  handleBallBallCollision,
+  handleBallWallCollisions,
+  handleCarBallCollision,
+  moveBall,
+  rollBall,
+} from "./ball";
+import { cloneCar, createCar } from "./car";
+import { findCollisionPairs } from "./broadphase";
+import { handleCarCollision } from "./collision";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, COLLISION_COOLDOWN_TICKS } from "./constants";
+import {
+  OPEN_ARENA,
+  coastCar,
+  driveCar,
+  getSubstepCount,
+  handleFallOff,
+  handleWallCollisions,
+  moveCar,
+  recordWallHit,
+} from "./physics";
+import { collectPowerUps, tickEffects } from "./powerups";
+import { clearOldDebris, handleBallPropCollisions, handleCarBarrelCollision, handlePropCollisions } from "./props";
+import { flyCar, getRampAt, launchOffRamp } from "./ramps";
+import { clearOldSlicks, getSurfaceGrip } from "./surfaces";
+import type { AnalogInput, Arena, Ball, Car, Prop, StepInputs, World } from "./types";
+
+export const NO_INPUT: AnalogInput = { forward: 0, reverse: 0, left: 0, right: 0 };
+
+// The human driver is always the first car in the world
+export const PLAYER_ID = 0;
+
+export const CAR_COLORS = [
+  "#e74c3c",
+  "#3498db",
+  "#2ecc71",
+  "#f1c40f",
+  "#9b59b6",
+  "#e67e22",
+  "#1abc9c",
+  "#ecf0f1",
+  "#fd79a8",
+  "#6c5ce7",
+  "#00cec9",
+  "#fab1a0",
+];
+
+// The classic one-on-one setup: the player on the left and a target car in the middle
+export const createDefaultCars = (): Car[] => [
+  createCar(200, CANVAS_HEIGHT / 2, CAR_COLORS[0], 0),
+  createCar(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CAR_COLORS[1], Math.PI / 4, false),
+];
+
+// Lay out `count` cars on a ring around the arena centre, all facing inwards
+export const createRingCars = (count: number): Car[] => {
+  const radiusX = CANVAS_WIDTH / 2 - 100;
+  const radiusY = CANVAS_HEIGHT / 2 - 80;
+
+  return Array.from({ length: count }, (_, i) => {
+    const theta = Math.PI + (i / count) * Math.PI * 2;
+    const x = CANVAS_WIDTH / 2 + Math.cos(theta) * radiusX;
+    const y = CANVAS_HEIGHT / 2 + Math.sin(theta) * radiusY;
+    return createCar(x, y, CAR_COLORS[i % CAR_COLORS.length], theta + Math.PI);
+  });
+};
+
+// Cars are numbered in the order given, so the first one is PLAYER_ID. Balls and props are numbered the same way.
+export const createWorld = (
+  seed: number,
+  cars: Car[] = createDefaultCars(),
+  arena: Arena = OPEN_ARENA,
+  balls: Ball[] = [],
+  props: Prop[] = [],
+): World => ({
+  tick: 0,
+  rngState: seed >>> 0,
+  cars: cars.map((car, id) => ({ ...cloneCar(car), id })),
+  balls: balls.map((ball, id) => ({ ...cloneBall(ball), id })),
+  arena: { ...arena },
+  powerUps: [],
+  nextPowerUpId: 0,
+  slicks: [],
+  props: props.map((prop, id) => ({ ...prop, id })),
+  debris: [],
+  collisionCooldowns: {},
+  events: [],
+});
+
+export const cloneWorld = (world: World): World => ({
+  ...world,
+  cars: world.cars.map(cloneCar),
+  balls: world.balls.map(cloneBall),
+  powerUps: [...world.powerUps],
+  slicks: [...world.slicks],
+  props: world.props.map(prop => ({ ...prop })),
+  debris: world.debris.map(piece => ({ ...piece })),
+  collisionCooldowns: { ...world.collisionCooldowns },
+  events: [...world.events],
+});
+
+export const getCar = (world: World, id: number): Car | undefined => world.cars.find(car => car.id === id);
+
+/**
+ * Advance the simulation by exactly one fixed tick.
+ * Pure: the given world is left untouched and a new world is returned.
+ */
+export const step = (world: World, inputs: StepInputs): World => {
+  const next = cloneWorld(world);
+  next.events = [];
+
+  // Cars that fell off a platform are gone from the arena altogether
+  const activeCars = next.cars.filter(car => !car.fellOff);
+  const movingCars = activeCars.filter(car => !car.isStatic);
+
+  // Where each car starts the tick, to see who flies off the end of a ramp once they've all moved
+  const rampsUnder = movingCars.map(car => getRampAt(next.arena, car));
+
+  for (const car of movingCars) {
+    const input = inputs[car.id];
+    const surface = getSurfaceGrip(next, car);
+    if (car.airborne > 0) {
+      flyCar(car);
+    } else if (input && !car.wrecked) {
+      driveCar(car, input, surface);
+    } else {
+      coastCar(car, surface);
+    }
+  }
+
+  for (const ball of [...next.balls, ...next.debris]) rollBall(ball);
+
+  // Swept movement: check walls, props, cars and balls at every sub-step so fast bodies can't tunnel
+  const substeps = getSubstepCount([...movingCars, ...next.balls, ...next.debris]);
+  for (let i = 0; i < substeps; i++) {
+    for (const car of movingCars) moveCar(car, 1 / substeps);
+    for (const ball of [...next.balls, ...next.debris]) moveBall(ball, 1 / substeps);
+
+    for (const [a, b] of findCollisionPairs(activeCars)) {
+      handleCarCollision(next, a, b);
+    }
+
+    for (const ball of next.balls) {
+      for (const car of activeCars) {
+        if (ball.kind === "barrel") handleCarBarrelCollision(next, car, ball);
+        else handleCarBallCollision(car, ball);
+      }
+    }
+    // Debris is kicked about by the cars but too light to bother the balls
+    for (const piece of next.debris) {
+      for (const car of activeCars) handleCarBallCollision(car, piece);
+    }
+    for (let a = 0; a < next.balls.length; a++) {
+      for (let b = a + 1; b < next.balls.length; b++) handleBallBallCollision(next.balls[a], next.balls[b]);
+    }
+
+    for (const car of movingCars) {
+      const before = { x: car.vx, y: car.vy };
+      const hitWall = handleWallCollisions(car, next.arena);
+      if (handlePropCollisions(next, car) || hitWall) recordWallHit(next, car, before);
+    }
+    for (const ball of [...next.balls, ...next.debris]) {
+      handleBallWallCollisions(ball, next.arena);
+      handleBallPropCollisions(next, ball);
+    }
+  }
+
+  movingCars.forEach((car, i) => launchOffRamp(car, rampsUnder[i]));
+
+  for (const car of movingCars) {
+    if (!car.wrecked) collectPowerUps(next, car);
+    tickEffects(car);
+  }
+
+  for (const car of movingCars) handleFallOff(next, car);
+
+  // Forget cooldowns that have run out so the map doesn't grow forever
+  for (const [pair, hitTick] of Object.entries(next.collisionCooldowns)) {
+    if (next.tick - hitTick >= COLLISION_COOLDOWN_TICKS) delete next.collisionCooldowns[pair];
+  }
+
+  next.tick++;
+  clearOldSlicks(next);
+  clearOldDebris(next);
+  return next;
+};
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import {
+  AiDifficulty,
+  AnalogInput,
+  NO_INPUT,
+  PLAYER_ID,
+  World,
+  createAiDriver,
+  createCar,
+  createWorld,
+  getCar,
+  getTotalHealth,
+  step,
+} from "../src";
+
+describe("ai", function () {
+  const AI_ID = 1;
+
+  const run = (world: World, difficulty: AiDifficulty, ticks: number, seed = AI_ID) => {
+    const driver = createAiDriver(AI_ID, difficulty, seed);
+    const inputs: AnalogInput[] = [];
+    let current = world;
+    for (let i = 0; i < ticks; i++) {
+      const input = driver.decide(current);
+      inputs.push(input);
+      current = step(current, { [PLAYER_ID]: NO_INPUT, [AI_ID]: input });
+    }
+    return { world: current, inputs, driver };
+  };
+
+  const gap = (world: World) => {
+    const [player, ai] = [getCar(world, PLAYER_ID)!, getCar(world, AI_ID)!];
+    return Math.hypot(ai.x - player.x, ai.y - player.y);
+  };
+
+  it("Should only produce inputs in the analog range", function () {
+    for (const difficulty of ["easy", "normal", "hard"] as const) {
+      const { inputs } = run(createWorld(3), difficulty, 600);
+
+      for (const input of inputs) {
+        for (const value of Object.values(input)) {
+          expect(value).to.be.within(0, 1);
+        }
+      }
+    }
+  });
+
+  it("Should close in on its target", function () {
+    const world = createWorld(1, [createCar(200, 300, "#e74c3c"), createCar(700, 300, "#3498db", Math.PI)]);
+
+    const { world: after } = run(world, "normal", 60);
+
+    expect(gap(after)).to.be.lessThan(gap(world) - 100);
+  });
+
+  it("Should land damaging hits", function () {
+    const { world } = run(createWorld(1), "hard", 1200);
+
+    expect(getTotalHealth(getCar(world, PLAYER_ID)!)).to.be.lessThan(100);
+  });
+
+  it("Should reverse out when stuck against a wall", function () {
+    // Nose against the top wall, target straight through it
+    const world = createWorld(1, [createCar(450, 550, "#e74c3c"), createCar(450, 45, "#3498db", -Math.PI / 2)]);
+    world.cars[PLAYER_ID].isStatic = true;
+
+    const { inputs } = run(world, "easy", 90);
+
+    expect(inputs.some(input => input.reverse === 1)).to.equal(true);
+  });
+
+  it("Should evade when its front is badly damaged", function () {
+    const attacker = createCar(250, 300, "#e74c3c");
+    attacker.vx = 6;
+    const weak = createCar(450, 300, "#3498db", Math.PI);
+    weak.health.front = 10;
+    const world = createWorld(1, [attacker, weak]);
+
+    const driver = createAiDriver(AI_ID, "hard");
+    driver.decide(world);
+
+    expect(driver.behaviour).to.equal("evade");
+  });
+
+  it("Should run from a threat instead of chasing it", function () {
+    const world = createWorld(1, [createCar(300, 300, "#e74c3c"), createCar(420, 300, "#3498db", Math.PI)]);
+
+    const driver = createAiDriver(AI_ID, "normal", AI_ID, { getThreat: () => PLAYER_ID });
+    let current = world;
+    for (let i = 0; i < 180; i++) current = step(current, { [AI_ID]: driver.decide(current) });
+
+    expect(driver.behaviour).to.equal("evade");
+    expect(gap(current)).to.be.greaterThan(gap(world) + 100);
+  });
+
+  it("Should go after its given target and ignore nearer cars", function () {
+    const world = createWorld(1, [
+      createCar(200, 300, "#e74c3c"),
+      createCar(600, 300, "#3498db", Math.PI),
+      createCar(700, 300, "#2ecc71", Math.PI),
+    ]);
+
+    const driver = createAiDriver(AI_ID, "normal", AI_ID, { getTarget: () => PLAYER_ID });
+    let current = world;
+    for (let i = 0; i < 60; i++) current = step(current, { [AI_ID]: driver.decide(current) });
+
+    expect(gap(current)).to.be.lessThan(gap(world) - 100);
+  });
+
+  it("Should replay exactly for the same seed", function () {
+    const a = run(createWorld(5), "normal", 600, 9);
+    const b = run(createWorld(5), "normal", 600, 9);
+
+    expect(JSON.stringify(a.world)).to.equal(JSON.stringify(b.world));
+  });
+});
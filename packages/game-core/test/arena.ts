@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import {
+  ARENA_FORMAT_VERSION,
+  ArenaFile,
+  BUNDLED_ARENAS,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  checkCarCollision,
+  createArenaWorld,
+  createCar,
+  createDerbyWorld,
+  createRingCars,
+  getBundledArena,
+  getCarCorners,
+  loadArena,
+  parseArenaFile,
+  validateArenaFile,
+} from "../src";
+
+describe("arena", function () {
+  const square = (x: number, y: number, size: number) => [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ];
+
+  const validFile = (): ArenaFile => ({
+    version: ARENA_FORMAT_VERSION,
+    name: "Test yard",
+    bounds: { width: 600, height: 400 },
+    walls: [{ points: square(400, 250, 100) }],
+    pillars: [{ x: 300, y: 200, radius: 20 }],
+    barrels: [{ x: 600, y: 200 }],
+    spawns: [
+      { x: 250, y: 300, angle: 0 },
+      { x: 650, y: 400, angle: Math.PI },
+    ],
+    surfaces: [{ kind: "mud", points: square(200, 400, 80) }],
+  });
+
+  it("Should accept every bundled arena", function () {
+    expect(BUNDLED_ARENAS.length).to.be.greaterThan(1);
+    for (const file of BUNDLED_ARENAS) expect(validateArenaFile(file), file.name).to.deep.equal([]);
+    expect(getBundledArena("Nowhere")).to.equal(BUNDLED_ARENAS[0]);
+  });
+
+  it("Should name every field that's wrong", function () {
+    const file = {
+      ...validFile(),
+      name: "",
+      bounds: { width: 5000, height: 400 },
+      pillars: [{ x: 300, y: "200", radius: 20 }],
+      surfaces: [{ kind: "lava", points: [{ x: 1, y: 1 }] }],
+    };
+
+    expect(validateArenaFile(file)).to.have.members([
+      "name must be a non-empty string",
+      "bounds.width must be between 300 and 860, got 5000",
+      "pillars[0].y must be a number",
+      "surfaces[0].kind must be one of asphalt, mud, ice, oil",
+      "surfaces[0].points must be a list of at least 3 points",
+    ]);
+  });
+
+  it("Should stop at an unknown version", function () {
+    expect(validateArenaFile({ version: 2, name: 7 })).to.deep.equal(["version must be 1, got 2"]);
+    expect(validateArenaFile([])).to.deep.equal(["An arena must be a JSON object"]);
+  });
+
+  it("Should reject concave walls and spawns that can't be driven from", function () {
+    const file = validFile();
+    file.walls!.push({
+      points: [
+        { x: 100, y: 100 },
+        { x: 200, y: 100 },
+        { x: 150, y: 130 },
+        { x: 200, y: 160 },
+        { x: 100, y: 160 },
+      ],
+    });
+    file.spawns = [
+      { x: 450, y: 300, angle: 0 },
+      { x: 305, y: 205, angle: 0 },
+      { x: 320, y: 205, angle: 0 },
+      { x: 50, y: 300, angle: 0 },
+    ];
+
+    expect(validateArenaFile(file)).to.have.members([
+      "walls[1] must be convex - split concave walls into several convex ones",
+    ]);
+
+    // A pentagram turns the same way at every point, but its edges cross
+    file.walls![1] = {
+      points: [0, 2, 4, 1, 3].map(i => ({
+        x: 150 + Math.sin((i * 2 * Math.PI) / 5) * 40,
+        y: 130 - Math.cos((i * 2 * Math.PI) / 5) * 40,
+      })),
+    };
+    expect(validateArenaFile(file)).to.have.members([
+      "walls[1] must be convex - split concave walls into several convex ones",
+    ]);
+
+    file.walls!.pop();
+    expect(validateArenaFile(file)).to.have.members([
+      "spawns[0] is inside walls[0]",
+      "spawns[1] is inside pillars[0]",
+      "spawns[2] is too close to spawns[1] for two cars",
+      "spawns[3] is outside the bounds",
+    ]);
+  });
+
+  it("Should report JSON it can't parse", function () {
+    const broken = parseArenaFile("{ version: 1");
+    const good = parseArenaFile(JSON.stringify(validFile()));
+
+    expect(broken.file).to.equal(null);
+    expect(broken.errors[0]).to.match(/^Not valid JSON/);
+    expect(good.errors).to.deep.equal([]);
+    expect(good.file!.name).to.equal("Test yard");
+  });
+
+  it("Should load the layout centred on the canvas with barrels to push around", function () {
+    const layout = loadArena(validFile());
+
+    expect(layout.arena.bounds).to.deep.equal({ minX: 150, minY: 100, maxX: 750, maxY: 500 });
+    expect(layout.arena.walls).to.have.length(1);
+    expect(layout.arena.pillars).to.have.length(1);
+    expect(layout.arena.surfaces[0].kind).to.equal("mud");
+    expect(layout.barrels[0].kind).to.equal("barrel");
+    expect(layout.arena.bounds.maxX).to.be.at.most(CANVAS_WIDTH);
+    expect(layout.arena.bounds.maxY).to.be.at.most(CANVAS_HEIGHT);
+  });
+
+  it("Should put cars on the spawns and leave the rest where the mode put them", function () {
+    const cars = createRingCars(3);
+    const world = createArenaWorld(1, loadArena(validFile()), [...cars.slice(0, 2), createCar(500, 150, "#fff")]);
+
+    expect(world.cars.map(car => [car.x, car.y, car.angle])).to.deep.equal([
+      [250, 300, 0],
+      [650, 400, Math.PI],
+      [500, 150, 0],
+    ]);
+    expect(world.cars[1].color).to.equal(cars[1].color);
+    expect(world.balls).to.have.length(1);
+  });
+
+  it("Should find room inside a small arena for cars without a spawn", function () {
+    const layout = loadArena({
+      version: ARENA_FORMAT_VERSION,
+      name: "Shed",
+      bounds: { width: 320, height: 220 },
+      pillars: [{ x: 450, y: 300, radius: 15 }],
+      spawns: [
+        { x: 330, y: 250, angle: 0 },
+        { x: 570, y: 350, angle: Math.PI },
+      ],
+    });
+    const { bounds } = layout.arena;
+
+    const world = createDerbyWorld(1, { opponents: 7 }, layout);
+
+    expect(world.cars).to.have.length(8);
+    expect(world.cars[0]).to.include({ x: 330, y: 250 });
+    for (const [i, car] of world.cars.entries()) {
+      for (const corner of getCarCorners(car)) {
+        expect(corner.x, `car ${i}`).to.be.within(bounds.minX, bounds.maxX);
+        expect(corner.y, `car ${i}`).to.be.within(bounds.minY, bounds.maxY);
+      }
+      expect(Math.hypot(car.x - 450, car.y - 300), `car ${i}`).to.be.above(15 + 25);
+      for (const other of world.cars.slice(i + 1)) expect(checkCarCollision(car, other), `car ${i}`).to.equal(false);
+    }
+  });
+});
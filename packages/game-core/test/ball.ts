@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import {
+  OPEN_ARENA,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  NO_INPUT,
+  PLAYER_ID,
+  WALL_THICKNESS,
+  collideCarBall,
+  createBall,
+  createBarrel,
+  createCar,
+  createWorld,
+  getSpeed,
+  handleBallBallCollision,
+  handleBallWallCollisions,
+  handleCarBallCollision,
+  step,
+} from "../src";
+
+describe("ball", function () {
+  it("Should bounce off the top wall", function () {
+    const ball = createBall(450, WALL_THICKNESS + 10);
+    ball.vy = -6;
+
+    expect(handleBallWallCollisions(ball)).to.equal(true);
+    expect(ball.vy).to.be.greaterThan(0);
+    expect(ball.y - ball.radius).to.be.at.least(WALL_THICKNESS - 1e-9);
+  });
+
+  it("Should roll into a goal mouth but bounce off the wall beside it", function () {
+    const arena = { ...OPEN_ARENA, goalWidth: 160 };
+    const inMouth = createBall(WALL_THICKNESS + 5, CANVAS_HEIGHT / 2);
+    inMouth.vx = -6;
+    const besideMouth = createBall(WALL_THICKNESS + 5, 100);
+    besideMouth.vx = -6;
+
+    expect(handleBallWallCollisions(inMouth, arena)).to.equal(false);
+    expect(handleBallWallCollisions(besideMouth, arena)).to.equal(true);
+    expect(besideMouth.vx).to.be.greaterThan(0);
+  });
+
+  it("Should bounce off pillars and wall polygons", function () {
+    const arena = {
+      ...OPEN_ARENA,
+      walls: [
+        [
+          { x: 600, y: 250 },
+          { x: 700, y: 250 },
+          { x: 700, y: 350 },
+          { x: 600, y: 350 },
+        ],
+      ],
+      pillars: [{ x: 300, y: 300, radius: 20 }],
+    };
+    const intoPillar = createBall(300 - 20 - 10, 300);
+    intoPillar.vx = 6;
+    const intoWall = createBall(590, 300);
+    intoWall.vx = 6;
+
+    expect(handleBallWallCollisions(intoPillar, arena)).to.equal(true);
+    expect(handleBallWallCollisions(intoWall, arena)).to.equal(true);
+    expect(intoPillar.vx).to.be.lessThan(0);
+    expect(intoWall.vx).to.be.lessThan(0);
+  });
+
+  it("Should knock a barrel along when a ball rolls into it", function () {
+    const ball = createBall(300, 300);
+    ball.vx = 6;
+    const barrel = createBarrel(300 + ball.radius + 10, 300);
+
+    expect(handleBallBallCollision(ball, barrel)).to.equal(true);
+    expect(barrel.vx).to.be.greaterThan(0);
+    expect(ball.vx).to.be.lessThan(6);
+  });
+
+  it("Should find contact with a car's side and push away from it", function () {
+    const car = createCar(450, 300, "#fff");
+    const ball = createBall(450, 300 + car.height / 2 + 8);
+
+    const contact = collideCarBall(car, ball);
+
+    expect(contact).to.not.equal(null);
+    expect(contact!.normal.y).to.be.closeTo(1, 1e-9);
+    expect(contact!.depth).to.be.closeTo(ball.radius - 8, 1e-9);
+  });
+
+  it("Should be knocked away faster than the car that hits it", function () {
+    const car = createCar(450, 300, "#fff");
+    car.vx = 5;
+    // Overlapping the front bumper by a few pixels
+    const ball = createBall(450 + car.width / 2 + 8, 300);
+
+    expect(handleCarBallCollision(car, ball)).to.equal(true);
+    expect(ball.vx).to.be.greaterThan(5);
+    expect(car.vx).to.be.lessThan(5);
+  });
+
+  it("Should roll to a stop in a world step", function () {
+    let world = createWorld(1, [createCar(200, 300, "#fff")], undefined, [createBall(450, 300)]);
+    world.balls[0].vx = 8;
+
+    for (let i = 0; i < 600; i++) world = step(world, { [PLAYER_ID]: NO_INPUT });
+
+    expect(getSpeed(world.balls[0])).to.be.lessThan(0.1);
+    expect(world.balls[0].x).to.be.within(WALL_THICKNESS, CANVAS_WIDTH - WALL_THICKNESS);
+  });
+});
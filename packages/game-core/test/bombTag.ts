@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import {
+  BombTagState,
+  CollisionEvent,
+  World,
+  createBombTagState,
+  createBombTagWorld,
+  getFuseTicksLeft,
+  updateBombTag,
+} from "../src";
+
+describe("bombTag", function () {
+  const ram = (world: World, attackerId: number, victimId: number, tick: number): World => {
+    const event: CollisionEvent = {
+      type: "collision",
+      x: 0,
+      y: 0,
+      damage: 5,
+      attackerDamage: 1.5,
+      attackerId,
+      victimId,
+      attackerZone: "front",
+      victimZone: "left",
+      hitClass: "tbone",
+      impactSpeed: 4,
+    };
+    return { ...world, tick, events: [event] };
+  };
+
+  const setup = (): { world: World; state: BombTagState } => {
+    const world = createBombTagWorld(1, { opponents: 3 });
+    return { world, state: createBombTagState(1, world) };
+  };
+
+  it("Should hand the first bomb to one of the cars", function () {
+    const { world, state } = setup();
+
+    expect(world.cars.map(car => car.id)).to.include(state.holderId);
+    expect(getFuseTicksLeft(state, world)).to.equal(state.options.fuseTicks);
+    expect(createBombTagState(1, world).holderId).to.equal(state.holderId);
+  });
+
+  it("Should pass the bomb when the holder rams someone", function () {
+    const { world, state } = setup();
+    const victimId = (state.holderId! + 1) % world.cars.length;
+
+    const { state: after } = updateBombTag(state, ram(world, state.holderId!, victimId, 100));
+
+    expect(after.holderId).to.equal(victimId);
+    expect(after.lastTag).to.deep.equal({ fromId: state.holderId, toId: victimId, tick: 100 });
+    expect(after.fuseEndsTick).to.equal(state.fuseEndsTick);
+  });
+
+  it("Should keep the bomb when the holder is the one rammed", function () {
+    const { world, state } = setup();
+    const attackerId = (state.holderId! + 1) % world.cars.length;
+
+    const { state: after } = updateBombTag(state, ram(world, attackerId, state.holderId!, 100));
+
+    expect(after.holderId).to.equal(state.holderId);
+  });
+
+  it("Should not allow a tag-back during the cooldown", function () {
+    const { world, state } = setup();
+    const firstHolder = state.holderId!;
+    const victimId = (firstHolder + 1) % world.cars.length;
+
+    const passed = updateBombTag(state, ram(world, firstHolder, victimId, 100)).state;
+    const tagBack = updateBombTag(passed, ram(world, victimId, firstHolder, 101)).state;
+    const later = updateBombTag(passed, ram(world, victimId, firstHolder, passed.tagCooldownUntil)).state;
+
+    expect(tagBack.holderId).to.equal(victimId);
+    expect(later.holderId).to.equal(firstHolder);
+  });
+
+  it("Should blow up the holder when the fuse runs out and light a new bomb", function () {
+    const { world, state } = setup();
+    const holderId = state.holderId!;
+
+    const { state: after, world: exploded } = updateBombTag(state, { ...world, tick: state.fuseEndsTick });
+
+    expect(exploded.cars[holderId].wrecked).to.equal(true);
+    expect(exploded.events).to.deep.include({
+      type: "wrecked",
+      carId: holderId,
+      byId: null,
+      x: world.cars[holderId].x,
+      y: world.cars[holderId].y,
+    });
+    expect(world.cars[holderId].wrecked).to.equal(false);
+    expect(after.holderId).to.not.equal(holderId);
+    expect(after.fuseEndsTick).to.equal(state.fuseEndsTick + state.options.fuseTicks);
+  });
+});
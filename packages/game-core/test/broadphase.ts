@@ -0,0 +1,37 @@
+import { expect } from "chai";
+import { collideCars, createCar, createRingCars, createWorld, findCollisionPairs } from "../src";
+
+describe("broadphase", function () {
+  it("Should only pair cars whose bounds overlap", function () {
+    const { cars } = createWorld(1, [
+      createCar(100, 100, "#fff"),
+      createCar(140, 110, "#fff"),
+      createCar(400, 100, "#fff"),
+      createCar(120, 400, "#fff"),
+    ]);
+
+    const pairs = findCollisionPairs(cars).map(([a, b]) => [a.id, b.id]);
+
+    expect(pairs).to.deep.equal([[0, 1]]);
+  });
+
+  it("Should find every pair the brute-force check finds", function () {
+    const { cars } = createWorld(1, createRingCars(24));
+    // Pull everyone towards the middle so plenty of them overlap
+    for (const car of cars) {
+      car.x = 450 + (car.x - 450) * 0.15;
+      car.y = 300 + (car.y - 300) * 0.15;
+    }
+
+    const expected: string[] = [];
+    for (let i = 0; i < cars.length; i++) {
+      for (let j = i + 1; j < cars.length; j++) {
+        if (collideCars(cars[i], cars[j])) expected.push(`${cars[i].id}:${cars[j].id}`);
+      }
+    }
+    const found = findCollisionPairs(cars).map(([a, b]) => `${a.id}:${b.id}`);
+
+    expect(expected.length).to.be.greaterThan(0);
+    expect(found).to.include.members(expected);
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import {
+  ATTACKER_DAMAGE_RATIO,
+  COLLISION_COOLDOWN_TICKS,
+  CollisionEvent,
+  checkCarCollision,
+  classifyHit,
+  createCar,
+  createWorld,
+  getPairKey,
+  handleCarCollision,
+  World,
+} from "../src";
+
+describe("collision", function () {
+  const setupRam = () => {
+    const world = createWorld(7);
+    const attacker = createCar(400, 300, "#e74c3c", 0);
+    const victim = createCar(435, 300, "#3498db", Math.PI / 2);
+    victim.id = 1;
+    attacker.vx = 7;
+    return { world, attacker, victim };
+  };
+
+  const getCollisions = (world: World) =>
+    world.events.filter((event): event is CollisionEvent => event.type === "collision");
+
+  it("Should split damage between victim and attacker", function () {
+    const { world, attacker, victim } = setupRam();
+
+    handleCarCollision(world, attacker, victim);
+
+    expect(world.events).to.have.length(1);
+    const [event] = getCollisions(world);
+    expect(event.victimZone).to.equal("right");
+    expect(event.attackerZone).to.equal("front");
+    expect(event.attackerId).to.equal(attacker.id);
+    expect(event.victimId).to.equal(victim.id);
+    expect(victim.health.right).to.equal(100 - event.damage);
+    expect(attacker.health.front).to.be.closeTo(100 - event.damage * ATTACKER_DAMAGE_RATIO, 1e-9);
+    expect(victim.lastHitBy).to.deep.equal({ carId: attacker.id, tick: world.tick });
+    expect(attacker.lastHitBy).to.equal(null);
+  });
+
+  it("Should blame the car that drove into the contact", function () {
+    const { world, attacker, victim } = setupRam();
+
+    // Same crash with the arguments swapped
+    handleCarCollision(world, victim, attacker);
+
+    expect(getCollisions(world)[0].attackerId).to.equal(attacker.id);
+    expect(victim.health.right).to.be.lessThan(attacker.health.front);
+  });
+
+  it("Should not deal damage again during the cooldown", function () {
+    const { world, attacker, victim } = setupRam();
+    world.collisionCooldowns[getPairKey(attacker, victim)] = world.tick - COLLISION_COOLDOWN_TICKS + 1;
+
+    handleCarCollision(world, attacker, victim);
+
+    expect(world.events).to.have.length(0);
+    expect(victim.health.right).to.equal(100);
+  });
+
+  it("Should treat a wrecked car as scenery, with no damage or collision event", function () {
+    const { world, attacker, victim } = setupRam();
+    victim.wrecked = true;
+
+    handleCarCollision(world, attacker, victim);
+
+    expect(getCollisions(world)).to.deep.equal([]);
+    expect(world.events.map(event => event.type)).to.deep.equal(["wallHit"]);
+    expect(attacker.health.front).to.equal(100);
+    expect(victim.lastHitBy).to.equal(null);
+    expect(attacker.vx).to.be.lessThan(7);
+  });
+
+  it("Should let a hulk shoved into a parked car bump it without hurting it or scoring", function () {
+    const { world, attacker: hulk, victim: parked } = setupRam();
+    hulk.wrecked = true;
+
+    handleCarCollision(world, hulk, parked);
+
+    expect(getCollisions(world)).to.deep.equal([]);
+    expect(world.events).to.have.length(1);
+    expect(world.events[0]).to.include({ type: "wallHit", carId: parked.id });
+    expect(parked.health).to.deep.equal({ front: 100, rear: 100, left: 100, right: 100 });
+    expect(parked.lastHitBy).to.equal(null);
+    expect(parked.vx).to.be.greaterThan(0);
+  });
+
+  it("Should push overlapping cars apart", function () {
+    const { world, attacker, victim } = setupRam();
+
+    handleCarCollision(world, attacker, victim);
+
+    expect(checkCarCollision(attacker, victim)).to.equal(false);
+    expect(victim.vx).to.be.greaterThan(0);
+  });
+
+  it("Should call a nose into the side at right angles a T-bone", function () {
+    const { world, attacker, victim } = setupRam();
+
+    handleCarCollision(world, attacker, victim);
+
+    expect(getCollisions(world)[0].hitClass).to.equal("tbone");
+    expect(getCollisions(world)[0].impactSpeed).to.be.greaterThan(0);
+  });
+
+  it("Should classify impacts from the zones and headings", function () {
+    const facing = (angle: number) => createCar(0, 0, "#fff", angle);
+
+    expect(classifyHit(facing(0), facing(Math.PI), "front", "front")).to.equal("headOn");
+    expect(classifyHit(facing(0), facing(0.2), "front", "rear")).to.equal("rearEnd");
+    expect(classifyHit(facing(0), facing(0), "left", "right")).to.equal("sideswipe");
+    // Nose skimming along a side, nearly parallel
+    expect(classifyHit(facing(0), facing(0.3), "front", "left")).to.equal("glancing");
+    expect(classifyHit(facing(0), facing(0), "rear", "front")).to.equal("glancing");
+  });
+});
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import {
+  Controller,
+  NO_INPUT,
+  OPEN_ARENA,
+  createInputController,
+  createProp,
+  createSnapshot,
+  createWorld,
+  getControllerInputs,
+  sanitizeInput,
+} from "../src";
+
+describe("controller", function () {
+  it("Should hand controllers a snapshot they cannot write to", function () {
+    const world = createWorld(1);
+    const snapshot = createSnapshot(world);
+
+    expect(() => {
+      snapshot.cars[0].x = 0;
+    }).to.throw(TypeError);
+    expect(world.cars[0].x).to.equal(200);
+  });
+
+  it("Should leave the live world unfrozen", function () {
+    const box = [
+      { x: 100, y: 100 },
+      { x: 140, y: 100 },
+      { x: 140, y: 140 },
+    ];
+    const world = createWorld(1, undefined, { ...OPEN_ARENA, walls: [box] }, [], [createProp("crate", box)]);
+    world.powerUps.push({ id: 0, kind: "nitro", x: 300, y: 300, expiresTick: 100 });
+
+    const snapshot = createSnapshot(world);
+
+    expect(Object.isFrozen(snapshot.arena.walls[0][0])).to.equal(true);
+    expect(Object.isFrozen(world.arena)).to.equal(false);
+    expect(Object.isFrozen(world.arena.bounds)).to.equal(false);
+    expect(Object.isFrozen(world.arena.walls[0][0])).to.equal(false);
+    expect(Object.isFrozen(world.powerUps[0])).to.equal(false);
+    expect(Object.isFrozen(world.props[0].points)).to.equal(false);
+  });
+
+  it("Should clamp out-of-range and garbage inputs", function () {
+    expect(sanitizeInput({ forward: 3, reverse: -1, left: NaN, right: 0.5 })).to.deep.equal({
+      forward: 1,
+      reverse: 0,
+      left: 0,
+      right: 0.5,
+    });
+    expect(sanitizeInput(undefined)).to.deep.equal(NO_INPUT);
+  });
+
+  it("Should collect one input per controlled car", function () {
+    const world = createWorld(1);
+    const seen: number[] = [];
+    const bot: Controller = {
+      decide: snapshot => {
+        seen.push(snapshot.tick);
+        return { ...NO_INPUT, forward: 1 };
+      },
+    };
+
+    const inputs = getControllerInputs(world, { 0: createInputController(() => NO_INPUT), 1: bot });
+
+    expect(inputs[0]).to.deep.equal(NO_INPUT);
+    expect(inputs[1].forward).to.equal(1);
+    expect(seen).to.deep.equal([0]);
+  });
+});
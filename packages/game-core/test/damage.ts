@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import {
+  ACCELERATION,
+  MAX_SPEED,
+  NO_INPUT,
+  createCar,
+  createWorld,
+  driveCar,
+  getHandling,
+  getSpeed,
+  handleCarCollision,
+  step,
+} from "../src";
+
+describe("damage", function () {
+  describe("getHandling", function () {
+    it("Should leave a pristine car untouched", function () {
+      const handling = getHandling(createCar(0, 0, "#fff"));
+
+      expect(handling.acceleration).to.equal(1);
+      expect(handling.topSpeed).to.equal(1);
+      expect(handling.steeringPull).to.equal(0);
+      expect(handling.engineStalled).to.equal(false);
+      expect(handling.lostWheel).to.equal(null);
+    });
+
+    it("Should cut acceleration with front damage and stall at 0", function () {
+      const car = createCar(450, 300, "#fff");
+      car.health.front = 50;
+      driveCar(car, { ...NO_INPUT, forward: 1 });
+      expect(car.vx).to.be.lessThan(ACCELERATION).and.greaterThan(0);
+
+      const stalled = createCar(450, 300, "#fff");
+      stalled.health.front = 0;
+      driveCar(stalled, { ...NO_INPUT, forward: 1 });
+      expect(stalled.vx).to.equal(0);
+      expect(getHandling(stalled).engineStalled).to.equal(true);
+    });
+
+    it("Should lower top speed with rear damage", function () {
+      const car = createCar(450, 300, "#fff");
+      car.health.rear = 0;
+      car.vx = 20;
+
+      driveCar(car, { ...NO_INPUT, forward: 1 });
+
+      expect(getSpeed(car)).to.be.lessThan(MAX_SPEED * 0.6);
+    });
+
+    it("Should pull towards the damaged side", function () {
+      const drift = (zone: "left" | "right", health: number) => {
+        const car = createCar(450, 300, "#fff");
+        car.health[zone] = health;
+        car.vx = 5;
+        for (let i = 0; i < 10; i++) driveCar(car, { ...NO_INPUT, forward: 1 });
+        return car.angle;
+      };
+
+      expect(drift("left", 30)).to.be.lessThan(0);
+      expect(drift("right", 30)).to.be.greaterThan(0);
+      expect(drift("left", 0)).to.be.lessThan(drift("left", 30));
+      expect(
+        getHandling({ ...createCar(0, 0, "#fff"), health: { front: 100, rear: 100, left: 0, right: 100 } }).lostWheel,
+      ).to.equal("left");
+    });
+  });
+
+  describe("wrecking", function () {
+    it("Should wreck a car whose last zone is destroyed and ignore its driver", function () {
+      const attacker = createCar(400, 300, "#e74c3c", 0);
+      const victim = createCar(435, 300, "#3498db", Math.PI / 2);
+      victim.health = { front: 0, rear: 0, left: 0, right: 5 };
+      attacker.vx = 8;
+      const world = createWorld(1, [attacker, victim]);
+
+      handleCarCollision(world, world.cars[0], world.cars[1]);
+
+      const [, wreck] = world.cars;
+      expect(wreck.wrecked).to.equal(true);
+      expect(world.events.map(e => e.type)).to.deep.equal(["collision", "wrecked"]);
+      expect(world.events[1]).to.include({ carId: 1, byId: 0 });
+
+      const parked = createWorld(1, [{ ...wreck, vx: 0, vy: 0 }]);
+      const next = step(parked, { 0: { ...NO_INPUT, forward: 1 } });
+      expect(getSpeed(next.cars[0])).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import {
+  DERBY_MAX_OPPONENTS,
+  DERBY_MIN_OPPONENTS,
+  NO_INPUT,
+  PLAYER_ID,
+  World,
+  checkCarCollision,
+  createDerbyControllers,
+  createDerbyWorld,
+  createMatch,
+  getControllerInputs,
+  getPlacements,
+  startMatch,
+  step,
+  updateMatch,
+} from "../src";
+
+describe("derby", function () {
+  it("Should spawn between 5 and 11 opponents without overlaps", function () {
+    expect(createDerbyWorld(1, { opponents: 2 }).cars).to.have.length(DERBY_MIN_OPPONENTS + 1);
+    expect(createDerbyWorld(1, { opponents: 40 }).cars).to.have.length(DERBY_MAX_OPPONENTS + 1);
+
+    const { cars } = createDerbyWorld(1, { opponents: DERBY_MAX_OPPONENTS });
+    for (let i = 0; i < cars.length; i++) {
+      for (let j = i + 1; j < cars.length; j++) {
+        expect(checkCarCollision(cars[i], cars[j])).to.equal(false);
+      }
+    }
+  });
+
+  it("Should drive every opponent but leave the player and idle cars alone", function () {
+    const world = createDerbyWorld(1, { opponents: 5 });
+
+    expect(Object.keys(createDerbyControllers(world, 1, { opponentKind: "ai" })).map(Number)).to.deep.equal([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(createDerbyControllers(world, 1, { opponentKind: "idle" })).to.deep.equal({});
+  });
+
+  it("Should place survivors first and the first car wrecked last", function () {
+    const world = createDerbyWorld(1, { opponents: 5 });
+    world.cars[2].health.front = 40;
+    for (const id of [4, 1, 3]) world.cars[id].wrecked = true;
+
+    expect(getPlacements(world, [4, 1, 3])).to.deep.equal([0, 5, 2, 3, 1, 4]);
+  });
+
+  it("Should rank every car when a derby round ends", function () {
+    let world: World = createDerbyWorld(3, { opponents: 5, difficulty: "hard" });
+    const controllers = createDerbyControllers(world, 3, { difficulty: "hard" });
+    let match = startMatch(createMatch({ bestOf: 1, countdownTicks: 1, roundTicks: 60 * 30 }));
+    match = updateMatch(match, world);
+
+    for (let i = 0; i < 60 * 30 && match.phase === "playing"; i++) {
+      world = step(world, { ...getControllerInputs(world, controllers), [PLAYER_ID]: NO_INPUT });
+      match = updateMatch(match, world);
+    }
+
+    expect(match.phase).to.equal("roundOver");
+    const [round] = match.rounds;
+    expect(round.placements).to.have.length(6);
+    expect(new Set(round.placements).size).to.equal(6);
+    expect(round.placements[0]).to.equal(round.winnerId);
+  });
+});
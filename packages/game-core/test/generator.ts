@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import {
+  CAR_WIDTH,
+  DERBY_MAX_OPPONENTS,
+  GENERATED_ARENA_SIZES,
+  type GeneratedArenaSize,
+  createArenaWorld,
+  createRingCars,
+  formatArenaCode,
+  generateArena,
+  generateFloorPatches,
+  getArenaBounds,
+  getCarCorners,
+  isPointInPolygon,
+  loadArena,
+  parseArenaCode,
+  step,
+  validateArenaFile,
+} from "../src";
+
+describe("generator", function () {
+  const sizes = Object.keys(GENERATED_ARENA_SIZES) as GeneratedArenaSize[];
+
+  it("Should build the same arena from the same seed", function () {
+    expect(generateArena(42, { size: "medium", density: 4 })).to.deep.equal(
+      generateArena(42, { size: "medium", density: 4 }),
+    );
+    expect(generateArena(42)).to.not.deep.equal(generateArena(43));
+  });
+
+  it("Should always build a valid arena with a ramp, and a spawn for every derby car", function () {
+    for (let seed = 1; seed <= 15; seed++) {
+      for (const size of sizes) {
+        for (const density of [1, 5]) {
+          const file = generateArena(seed, { size, density });
+          expect(validateArenaFile(file), `${seed} ${size} ${density}`).to.deep.equal([]);
+          expect(file.bounds).to.deep.equal(GENERATED_ARENA_SIZES[size]);
+          expect(file.spawns).to.have.length(DERBY_MAX_OPPONENTS + 1);
+          expect(file.ramps!.length, `${seed} ${size} ${density}`).to.be.greaterThan(0);
+        }
+      }
+    }
+  });
+
+  it("Should leave room round every spawn for the car on it", function () {
+    const file = generateArena(7, { size: "small", density: 5 });
+    const world = createArenaWorld(1, loadArena(file), createRingCars(file.spawns!.length));
+    const after = step(world, {});
+
+    // Nothing is touching a car on the first tick, so nothing has pushed one off its spot
+    after.cars.forEach((car, i) => {
+      expect(car.x, `car ${i}`).to.be.closeTo(file.spawns![i].x, 0.001);
+      expect(car.y, `car ${i}`).to.be.closeTo(file.spawns![i].y, 0.001);
+    });
+    for (const [i, a] of file.spawns!.entries()) {
+      for (const b of file.spawns!.slice(i + 1)) expect(Math.hypot(a.x - b.x, a.y - b.y)).to.be.at.least(CAR_WIDTH);
+    }
+  });
+
+  it("Should keep every spawn off the ramps and hazards", function () {
+    for (let seed = 1; seed <= 20; seed++) {
+      for (const size of sizes) {
+        const file = generateArena(seed, { size, density: 5 });
+        const floor = [...file.ramps!, ...file.surfaces!];
+        const world = createArenaWorld(1, loadArena(file), createRingCars(file.spawns!.length));
+        for (const car of world.cars) {
+          const onFloor = floor.some(({ points }) =>
+            getCarCorners(car).some(corner => isPointInPolygon(corner, points)),
+          );
+          expect(onFloor, `${seed} ${size} car ${car.id}`).to.equal(false);
+        }
+      }
+    }
+  });
+
+  it("Should put more in the way at a higher density", function () {
+    const count = (density: number) => {
+      let total = 0;
+      for (let seed = 1; seed <= 10; seed++) {
+        const file = generateArena(seed, { size: "large", density });
+        total += file.walls!.length + file.pillars!.length + file.barrels!.length + file.props!.length;
+      }
+      return total;
+    };
+
+    expect(count(5)).to.be.greaterThan(count(1) * 1.5);
+  });
+
+  it("Should turn seed codes back into the arena they came from", function () {
+    const code = formatArenaCode(123456, { size: "small", density: 2 });
+
+    expect(code).to.equal("2N9C-S2");
+    expect(parseArenaCode(code.toLowerCase())).to.deep.equal({ seed: 123456, options: { size: "small", density: 2 } });
+    expect(generateArena(123456, { size: "small", density: 2 }).name).to.equal("Random 2N9C-S2");
+    expect(parseArenaCode("2N9C-X2")).to.equal(null);
+    expect(parseArenaCode("2N9C-S9")).to.equal(null);
+    expect(parseArenaCode("hello")).to.equal(null);
+  });
+
+  it("Should scatter floor patches inside the bounds", function () {
+    const bounds = getArenaBounds(GENERATED_ARENA_SIZES.small);
+    const patches = generateFloorPatches(3, bounds);
+
+    expect(patches).to.deep.equal(generateFloorPatches(3, bounds));
+    for (const patch of patches) {
+      expect(patch.x).to.be.within(bounds.minX, bounds.maxX);
+      expect(patch.y).to.be.within(bounds.minY, bounds.maxY);
+    }
+  });
+});
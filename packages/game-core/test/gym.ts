@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import {
+  CollisionEvent,
+  NO_INPUT,
+  createDerbyEnv,
+  createDerbyVecEnv,
+  defineBot,
+  getObservationSize,
+  getTotalHealth,
+} from "../src";
+
+describe("gym", function () {
+  const idle = defineBot({ name: "Idle", createController: () => ({ decide: () => NO_INPUT }) });
+  const floorIt = { ...NO_INPUT, forward: 1 };
+
+  it("Should return observations of the advertised size", function () {
+    const env = createDerbyEnv({ opponents: 3 });
+
+    const observation = env.reset(1);
+    const { observation: next } = env.step(NO_INPUT);
+
+    expect(env.observationSize).to.equal(getObservationSize(3));
+    expect(observation).to.have.length(env.observationSize);
+    expect(next).to.have.length(env.observationSize);
+    expect(next.every(Number.isFinite)).to.equal(true);
+  });
+
+  it("Should reward the health knocked off an idle opponent, less the health lost doing it", function () {
+    const env = createDerbyEnv({ opponent: idle });
+    env.reset(1);
+    const health = (id: number) => getTotalHealth(env.world!.cars[id]) * 4;
+
+    let total = 0;
+    for (let i = 0; i < 240; i++) {
+      const [agentBefore, opponentBefore] = [health(0), health(1)];
+      const { reward } = env.step(floorIt);
+      total += reward;
+      expect(reward).to.be.closeTo(opponentBefore - health(1) - (agentBefore - health(0)), 1e-9);
+    }
+
+    expect(total).to.be.greaterThan(0);
+  });
+
+  it("Should only count the agent's own hits, not a third car's on the same victim", function () {
+    const env = createDerbyEnv({ opponent: idle, opponents: 2 });
+    env.reset(1);
+    // The agent noses into the victim's side while the third car rams it from below, all on the same tick
+    const [agent, victim, third] = env.world!.cars;
+    Object.assign(agent, { x: 300, y: 300, angle: 0, vx: 7, vy: 0 });
+    Object.assign(victim, { x: 335, y: 300, angle: Math.PI / 2, vx: 0, vy: 0 });
+    Object.assign(third, { x: 345, y: 335, angle: -Math.PI / 2, vx: 0, vy: -7 });
+    const victimBefore = getTotalHealth(victim) * 4;
+
+    const { info } = env.step(NO_INPUT);
+
+    const collisions = env.world!.events.filter((event): event is CollisionEvent => event.type === "collision");
+    const agentHit = collisions.find(event => event.attackerId === 0 && event.victimId === 1)!;
+    expect(collisions.some(event => event.attackerId === 2 && event.victimId === 1)).to.equal(true);
+    expect(info.damageDealt).to.equal(agentHit.damage);
+    expect(victimBefore - getTotalHealth(env.world!.cars[1]) * 4).to.be.greaterThan(info.damageDealt);
+  });
+
+  it("Should give nothing for ramming a wreck", function () {
+    // Two opponents, so the episode carries on with one of them wrecked
+    const env = createDerbyEnv({ opponent: idle, opponents: 2 });
+    env.reset(1);
+    const [agent, wreck] = env.world!.cars;
+    const start = { x: agent.x + Math.cos(agent.angle) * 100, y: agent.y + Math.sin(agent.angle) * 100 };
+    Object.assign(wreck, { ...start, wrecked: true, health: { front: 5, rear: 5, left: 5, right: 5 } });
+
+    for (let i = 0; i < 120; i++) {
+      const { reward, info } = env.step(floorIt);
+      expect(reward).to.equal(0);
+      expect(info.damageDealt).to.equal(0);
+    }
+
+    // It was hit, and shoved out of the way
+    const { x, y } = env.world!.cars[1];
+    expect(Math.hypot(x - start.x, y - start.y)).to.be.greaterThan(20);
+  });
+
+  it("Should end the episode at the time limit", function () {
+    const env = createDerbyEnv({ opponent: idle, maxTicks: 10 });
+    env.reset(1);
+
+    const results = Array.from({ length: 10 }, () => env.step(NO_INPUT));
+
+    expect(results.slice(0, 9).every(result => !result.done)).to.equal(true);
+    expect(results[9].done).to.equal(true);
+    expect(results[9].info.truncated).to.equal(true);
+    expect(() => env.step(NO_INPUT)).to.throw("Episode is over");
+  });
+
+  it("Should refuse to step before reset", function () {
+    expect(() => createDerbyEnv().step(NO_INPUT)).to.throw("reset");
+  });
+
+  it("Should replay an episode exactly for the same seed", function () {
+    const run = () => {
+      const env = createDerbyEnv();
+      env.reset(7);
+      return Array.from({ length: 300 }, () => env.step(floorIt).observation);
+    };
+
+    expect(run()).to.deep.equal(run());
+  });
+
+  it("Should step a batch and reset finished envs on its own", function () {
+    const vec = createDerbyVecEnv(4, { opponent: idle, maxTicks: 5 });
+    vec.reset(100);
+
+    let result = vec.step(Array(4).fill(NO_INPUT));
+    for (let i = 1; i < 5; i++) result = vec.step(Array(4).fill(NO_INPUT));
+
+    expect(result.observations).to.have.length(4);
+    expect(result.dones).to.deep.equal([true, true, true, true]);
+    expect(result.infos[0].finalObservation).to.have.length(vec.observationSize);
+    // Fresh episodes, so stepping again is fine
+    expect(vec.step(Array(4).fill(NO_INPUT)).dones).to.deep.equal([false, false, false, false]);
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import { collideCars, createCar, createWorld, handleCarCollision, resolveImpulse } from "../src";
+
+describe("impulse", function () {
+  // Victim sits still facing +x, attacker drives up into it from below
+  const tBone = (attackerX: number) => {
+    const world = createWorld(1);
+    const victim = createCar(400, 300, "#3498db", 0);
+    const attacker = createCar(attackerX, 337, "#e74c3c", -Math.PI / 2);
+    attacker.vy = -6;
+    handleCarCollision(world, attacker, victim);
+    return { attacker, victim };
+  };
+
+  it("Should spin the victim when its rear corner is hit", function () {
+    const { victim } = tBone(380);
+
+    expect(victim.angularVel).to.be.greaterThan(0.01);
+  });
+
+  it("Should barely spin the victim when hit square in the middle", function () {
+    const { victim: corner } = tBone(380);
+    const { victim: middle } = tBone(400);
+
+    expect(Math.abs(middle.angularVel)).to.be.lessThan(Math.abs(corner.angularVel) / 4);
+  });
+
+  it("Should let a heavy car shove a light one", function () {
+    const ram = (attackerMass: number, victimMass: number) => {
+      const attacker = createCar(300, 300, "#fff", 0, false, attackerMass);
+      const victim = createCar(348, 300, "#fff", 0, false, victimMass);
+      attacker.vx = 6;
+      resolveImpulse(attacker, victim, collideCars(attacker, victim)!, 0.3, 0.4);
+      return { attacker, victim };
+    };
+
+    const truckHitsCar = ram(3, 1);
+    const carHitsTruck = ram(1, 3);
+
+    expect(truckHitsCar.victim.vx).to.be.greaterThan(carHitsTruck.victim.vx * 2);
+    expect(truckHitsCar.attacker.vx).to.be.greaterThan(0);
+  });
+
+  it("Should conserve momentum", function () {
+    const a = createCar(300, 300, "#fff", 0.3, false, 2);
+    const b = createCar(340, 310, "#fff", -0.4, false, 1);
+    a.vx = 5;
+    a.vy = 1;
+    b.vx = -2;
+
+    const before = { x: a.vx * a.mass + b.vx * b.mass, y: a.vy * a.mass + b.vy * b.mass };
+    const closingSpeed = resolveImpulse(a, b, collideCars(a, b)!, 0.3, 0.4);
+
+    expect(closingSpeed).to.be.greaterThan(0);
+    expect(a.vx * a.mass + b.vx * b.mass).to.be.closeTo(before.x, 1e-9);
+    expect(a.vy * a.mass + b.vy * b.mass).to.be.closeTo(before.y, 1e-9);
+  });
+
+  it("Should not push cars that are already separating", function () {
+    const a = createCar(300, 300, "#fff");
+    const b = createCar(345, 300, "#fff");
+    b.vx = 3;
+
+    expect(resolveImpulse(a, b, collideCars(a, b)!, 0.3, 0.4)).to.equal(0);
+    expect(a.vx).to.equal(0);
+    expect(b.vx).to.equal(3);
+  });
+});
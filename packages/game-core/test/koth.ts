@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  NO_INPUT,
+  TICK_RATE,
+  WALL_THICKNESS,
+  World,
+  createKothControllers,
+  createKothState,
+  createKothWorld,
+  getControllerInputs,
+  getKothRules,
+  isInZone,
+  step,
+  updateKoth,
+} from "../src";
+
+describe("koth", function () {
+  // Park car `id` in the middle of the zone and everyone else in a corner
+  const parkIn = (world: World, ids: number[]): World => ({
+    ...world,
+    cars: world.cars.map((car, i) =>
+      ids.includes(car.id)
+        ? { ...car, x: CANVAS_WIDTH / 2 + i * 5, y: CANVAS_HEIGHT / 2 }
+        : { ...car, x: 100 + i * 60, y: 60 },
+    ),
+  });
+
+  it("Should score a car that is alone in the zone", function () {
+    const world = parkIn(createKothWorld(1), [2]);
+
+    const state = updateKoth(createKothState(1), world);
+
+    expect(state.holderId).to.equal(2);
+    expect(state.scores).to.deep.equal({ 2: 1 });
+  });
+
+  it("Should not score a contested zone", function () {
+    const world = parkIn(createKothWorld(1), [0, 1]);
+
+    const state = updateKoth(createKothState(1), world);
+
+    expect(state.holderId).to.equal(null);
+    expect(state.contested).to.equal(true);
+    expect(state.scores).to.deep.equal({});
+  });
+
+  it("Should move the zone on its timer and keep it inside the walls", function () {
+    let state = createKothState(9, { moveTicks: 10 });
+    const zones = [state.zone];
+    let world = createKothWorld(1);
+
+    for (let i = 0; i < 50; i++) {
+      world = { ...world, tick: world.tick + 1 };
+      state = updateKoth(state, world);
+      if (state.zone !== zones[zones.length - 1]) zones.push(state.zone);
+    }
+
+    expect(zones).to.have.length(6);
+    for (const zone of zones) {
+      expect(zone.x - zone.radius).to.be.greaterThan(WALL_THICKNESS);
+      expect(zone.x + zone.radius).to.be.lessThan(CANVAS_WIDTH - WALL_THICKNESS);
+      expect(zone.y - zone.radius).to.be.greaterThan(WALL_THICKNESS);
+      expect(zone.y + zone.radius).to.be.lessThan(CANVAS_HEIGHT - WALL_THICKNESS);
+    }
+  });
+
+  it("Should end the round when someone reaches the target score", function () {
+    const world = createKothWorld(1);
+    const state = { ...createKothState(1), scores: { 1: 40, 2: 12 } };
+    const rules = getKothRules(state);
+
+    expect(rules.getWinner(world, false)).to.equal(undefined);
+    expect(rules.getWinner(world, true)).to.equal(1);
+    expect(getKothRules({ ...state, scores: { 1: state.options.targetScore } }).getWinner(world, false)).to.equal(1);
+    expect(rules.getPlacements(world, [])[0]).to.equal(1);
+    expect(rules.getPlacements(world, [])[1]).to.equal(2);
+  });
+
+  it("Should send the AI to the zone", function () {
+    let world = createKothWorld(2, { opponents: 1 });
+    let state = createKothState(2);
+    const controllers = createKothControllers(world, 2, () => state);
+
+    for (let i = 0; i < TICK_RATE * 8; i++) {
+      world = step(world, { ...getControllerInputs(world, controllers), 0: NO_INPUT });
+      state = updateKoth(state, world);
+    }
+
+    expect(isInZone(state.zone, world.cars[1])).to.equal(true);
+    expect(state.scores[1]).to.be.greaterThan(0);
+  });
+});
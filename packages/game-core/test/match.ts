@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import {
+  MatchState,
+  TICK_RATE,
+  World,
+  createMatch,
+  createWorld,
+  getRoundWinner,
+  startMatch,
+  updateMatch,
+} from "../src";
+
+describe("match", function () {
+  const settings = { bestOf: 3, roundTicks: 100, countdownTicks: TICK_RATE * 3, roundOverTicks: 10 };
+
+  // Run the match until it reaches `phase`, collecting every event on the way
+  const runUntil = (start: MatchState, world: World, phase: MatchState["phase"]) => {
+    let match = start;
+    const events = [...start.events];
+    for (let i = 0; i < 10_000 && match.phase !== phase; i++) {
+      match = updateMatch(match, world);
+      events.push(...match.events);
+    }
+    return { match, events };
+  };
+
+  const wreck = (world: World, id: number): World => ({
+    ...world,
+    cars: world.cars.map(car => (car.id === id ? { ...car, wrecked: true } : car)),
+  });
+
+  it("Should wait in the lobby until started", function () {
+    const match = updateMatch(createMatch(settings), createWorld(1));
+
+    expect(match.phase).to.equal("lobby");
+    expect(match.round).to.equal(0);
+  });
+
+  it("Should count down 3, 2, 1 then start the round", function () {
+    const { match, events } = runUntil(startMatch(createMatch(settings)), createWorld(1), "playing");
+
+    expect(events.filter(event => event.type === "countdownTick").map(event => event.count)).to.deep.equal([3, 2, 1]);
+    expect(events.at(-1)).to.deep.equal({ type: "roundStart", round: 1 });
+    expect(match.phaseTick).to.equal(0);
+  });
+
+  it("Should end the round when only one car is left running", function () {
+    const playing = runUntil(startMatch(createMatch(settings)), createWorld(1), "playing").match;
+
+    const match = updateMatch(playing, wreck(createWorld(1), 1));
+
+    expect(match.phase).to.equal("roundOver");
+    expect(match.wins).to.deep.equal({ 0: 1 });
+    expect(match.events[0]).to.deep.equal({ type: "roundOver", round: 1, winnerId: 0, timeUp: false });
+  });
+
+  it("Should give the round to the healthier car when time runs out", function () {
+    const world = createWorld(1);
+    world.cars[1].health.front = 50;
+
+    expect(getRoundWinner(world, false)).to.equal(undefined);
+    expect(getRoundWinner(world, true)).to.equal(0);
+    expect(getRoundWinner(createWorld(1), true)).to.equal(null);
+  });
+
+  it("Should finish a best of 3 once someone wins two rounds", function () {
+    const playerWins = wreck(createWorld(1), 1);
+    const { match, events } = runUntil(startMatch(createMatch(settings)), playerWins, "results");
+
+    expect(match.round).to.equal(2);
+    expect(match.rounds.map(round => round.winnerId)).to.deep.equal([0, 0]);
+    expect(match.matchWinnerId).to.equal(0);
+    expect(events.filter(event => event.type === "roundCountdown")).to.have.length(2);
+    expect(events.at(-1)).to.deep.equal({ type: "matchOver", winnerId: 0 });
+  });
+
+  it("Should call the match a draw when every round is drawn", function () {
+    const { match } = runUntil(startMatch(createMatch(settings)), createWorld(1), "results");
+
+    expect(match.round).to.equal(3);
+    expect(match.rounds.map(round => round.winnerId)).to.deep.equal([null, null, null]);
+    expect(match.rounds.every(round => round.timeUp)).to.equal(true);
+    expect(match.matchWinnerId).to.equal(null);
+  });
+
+  it("Should start a clean match on rematch", function () {
+    const finished = runUntil(startMatch(createMatch(settings)), wreck(createWorld(1), 1), "results").match;
+
+    const rematch = startMatch(finished);
+
+    expect(rematch.phase).to.equal("countdown");
+    expect(rematch.round).to.equal(1);
+    expect(rematch.wins).to.deep.equal({});
+    expect(rematch.settings).to.deep.equal(finished.settings);
+  });
+});
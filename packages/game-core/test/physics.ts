@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import {
+  OPEN_ARENA,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  MAX_SPEED,
+  NO_INPUT,
+  WALL_THICKNESS,
+  createCar,
+  driveCar,
+  getCarCorners,
+  getSpeed,
+  handleWallCollisions,
+} from "../src";
+
+describe("physics", function () {
+  describe("driveCar", function () {
+    it("Should clamp speed at MAX_SPEED", function () {
+      const car = createCar(450, 300, "#fff");
+      car.vx = 20;
+
+      driveCar(car, { ...NO_INPUT, forward: 1 });
+
+      expect(getSpeed(car)).to.be.closeTo(MAX_SPEED, 1e-9);
+    });
+
+    it("Should not turn a stationary car", function () {
+      const car = createCar(450, 300, "#fff");
+
+      driveCar(car, { ...NO_INPUT, left: 1 });
+
+      expect(car.angle).to.equal(0);
+    });
+  });
+
+  describe("handleWallCollisions", function () {
+    it("Should bounce a car off the left wall", function () {
+      const car = createCar(WALL_THICKNESS + 10, 300, "#fff");
+      car.vx = -6;
+
+      const collided = handleWallCollisions(car);
+
+      expect(collided).to.equal(true);
+      expect(car.vx).to.be.greaterThan(0);
+      for (const corner of getCarCorners(car)) {
+        expect(corner.x).to.be.at.least(WALL_THICKNESS - 1e-9);
+      }
+    });
+
+    it("Should bounce a car off the right wall", function () {
+      const car = createCar(CANVAS_WIDTH - WALL_THICKNESS - 10, 300, "#fff");
+      car.vx = 6;
+
+      handleWallCollisions(car);
+
+      expect(car.vx).to.be.lessThan(0);
+      for (const corner of getCarCorners(car)) {
+        expect(corner.x).to.be.at.most(CANVAS_WIDTH - WALL_THICKNESS + 1e-9);
+      }
+    });
+
+    it("Should let a car nose into a goal mouth", function () {
+      const car = createCar(WALL_THICKNESS + 10, CANVAS_HEIGHT / 2, "#fff");
+      car.vx = -6;
+
+      const collided = handleWallCollisions(car, { ...OPEN_ARENA, goalWidth: 160 });
+
+      expect(collided).to.equal(false);
+      expect(car.vx).to.equal(-6);
+    });
+
+    it("Should bounce a car off a wall polygon and a pillar inside the arena", function () {
+      const arena = {
+        ...OPEN_ARENA,
+        walls: [
+          [
+            { x: 500, y: 250 },
+            { x: 560, y: 300 },
+            { x: 500, y: 350 },
+          ],
+        ],
+        pillars: [{ x: 300, y: 150, radius: 20 }],
+      };
+      const intoWall = createCar(480, 300, "#fff");
+      intoWall.vx = 6;
+      const intoPillar = createCar(300, 180, "#fff", -Math.PI / 2);
+      intoPillar.vy = -6;
+
+      expect(handleWallCollisions(intoWall, arena)).to.equal(true);
+      expect(handleWallCollisions(intoPillar, arena)).to.equal(true);
+      expect(intoWall.vx).to.be.lessThan(0);
+      expect(intoWall.x).to.be.lessThan(480);
+      expect(intoPillar.vy).to.be.greaterThan(0);
+    });
+
+    it("Should leave a car in the open untouched", function () {
+      const car = createCar(450, 300, "#fff");
+      car.vx = 3;
+
+      expect(handleWallCollisions(car)).to.equal(false);
+      expect(car.vx).to.equal(3);
+    });
+  });
+});
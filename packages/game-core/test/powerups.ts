@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import {
+  ARMOR_DAMAGE_RATIO,
+  DEFAULT_POWER_UP_RULES,
+  NITRO_SPEED_BOOST,
+  NITRO_TICKS,
+  NO_INPUT,
+  PowerUpKind,
+  World,
+  applyPowerUp,
+  createCar,
+  createWorld,
+  getHandling,
+  handleCarCollision,
+  step,
+  updatePowerUps,
+} from "../src";
+
+describe("powerups", function () {
+  const withPowerUp = (world: World, kind: PowerUpKind, x: number, y: number): World => ({
+    ...world,
+    powerUps: [{ id: 0, kind, x, y, expiresTick: 1000 }],
+  });
+
+  it("Should drop pickups on the interval, up to the cap", function () {
+    const rules = { ...DEFAULT_POWER_UP_RULES, maxOnField: 2, lifetimeTicks: 10000 };
+    let world = createWorld(1);
+
+    for (let drop = 1; drop <= 3; drop++) {
+      world = updatePowerUps(rules, { ...world, tick: rules.intervalTicks * drop });
+    }
+    const between = { ...world, tick: rules.intervalTicks * 3 + 1 };
+
+    expect(world.powerUps.map(powerUp => powerUp.id)).to.deep.equal([0, 1]);
+    expect(updatePowerUps(rules, between)).to.equal(between);
+  });
+
+  it("Should clear away pickups nobody collects", function () {
+    const world = withPowerUp(createWorld(1), "nitro", 100, 100);
+
+    expect(updatePowerUps(DEFAULT_POWER_UP_RULES, { ...world, tick: 1000 }).powerUps).to.deep.equal([]);
+  });
+
+  it("Should use a pickup the car drives over, once", function () {
+    const world = withPowerUp(createWorld(1), "nitro", 200 + 20, 300);
+
+    const after = step(world, {});
+    const again = step(after, {});
+
+    expect(after.powerUps).to.deep.equal([]);
+    expect(after.events).to.deep.include({ type: "powerUp", carId: 0, kind: "nitro", x: 220, y: 300 });
+    expect(after.cars[0].effects.nitro).to.equal(NITRO_TICKS - 1);
+    expect(again.events.filter(event => event.type === "powerUp")).to.have.length(0);
+  });
+
+  it("Should boost top speed while the nitro burns", function () {
+    const car = createCar(0, 0, "#fff");
+    const normal = getHandling(car).topSpeed;
+
+    car.effects.nitro = 1;
+
+    expect(getHandling(car).topSpeed).to.be.closeTo(normal * NITRO_SPEED_BOOST, 1e-9);
+    expect(getHandling(car).acceleration).to.be.greaterThan(1);
+  });
+
+  it("Should cut the damage an armoured car takes", function () {
+    const ram = (armored: boolean) => {
+      const world = createWorld(7);
+      const attacker = createCar(400, 300, "#e74c3c", 0);
+      const victim = createCar(435, 300, "#3498db", Math.PI / 2);
+      victim.id = 1;
+      attacker.vx = 7;
+      if (armored) victim.effects.armor = 10;
+      handleCarCollision(world, attacker, victim);
+      return 100 - victim.health.right;
+    };
+
+    expect(ram(true)).to.be.closeTo(ram(false) * ARMOR_DAMAGE_RATIO, 1);
+  });
+
+  it("Should repair every zone without going over full", function () {
+    const world = createWorld(1);
+    const car = world.cars[0];
+    car.health = { front: 20, rear: 90, left: 0, right: 100 };
+
+    applyPowerUp(world, car, "repair");
+
+    expect(car.health).to.deep.equal({ front: 55, rear: 100, left: 35, right: 100 });
+  });
+
+  it("Should blast nearby cars away and leave distant ones alone", function () {
+    const world = createWorld(1, [
+      createCar(400, 300, "#e74c3c"),
+      createCar(480, 300, "#3498db"),
+      createCar(800, 300, "#2ecc71"),
+    ]);
+
+    applyPowerUp(world, world.cars[0], "shockwave");
+    const after = step(world, { 0: NO_INPUT });
+
+    expect(world.cars[1].vx).to.be.greaterThan(0);
+    expect(world.cars[0].vx).to.equal(0);
+    expect(after.cars[2].vx).to.equal(0);
+  });
+});
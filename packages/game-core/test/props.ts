@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import {
+  BARREL_HP,
+  COAST_FORWARD_FRICTION,
+  DEBRIS_TICKS,
+  OPEN_ARENA,
+  PROP_HP,
+  PropKind,
+  World,
+  createArenaWorld,
+  createBarrel,
+  createCar,
+  createProp,
+  createWorld,
+  getImpactDamage,
+  loadArena,
+  step,
+  validateArenaFile,
+} from "../src";
+
+describe("props", function () {
+  // A 40 pixel square just in front of the nose of a car at (200, 300) facing right
+  const BOX = [
+    { x: 230, y: 280 },
+    { x: 270, y: 280 },
+    { x: 270, y: 320 },
+    { x: 230, y: 320 },
+  ];
+
+  // A car rolling into a prop at `speed`
+  const ram = (kind: PropKind, speed: number): World => {
+    const car = { ...createCar(200, 300, "#fff"), vx: speed };
+    return createWorld(1, [car], OPEN_ARENA, [], [createProp(kind, BOX)]);
+  };
+
+  it("Should take damage worked out the same way as a car-to-car hit, and bounce the car", function () {
+    const after = step(ram("wall", 6), {});
+
+    expect(after.props[0].hp).to.equal(PROP_HP.wall - getImpactDamage(6 * COAST_FORWARD_FRICTION));
+    expect(after.cars[0].vx).to.be.below(0);
+    expect(after.events.map(event => event.type)).to.deep.equal(["wallHit"]);
+  });
+
+  it("Should shrug off a gentle nudge", function () {
+    let world = ram("fence", 1.5);
+    for (let i = 0; i < 30; i++) world = step(world, { 0: { forward: 0.3, reverse: 0, left: 0, right: 0 } });
+
+    expect(world.props[0].hp).to.equal(PROP_HP.fence);
+    expect(world.cars[0].x).to.be.below(210);
+  });
+
+  it("Should break into debris when its hit points run out, letting the car through", function () {
+    const after = step(ram("crate", 8), {});
+
+    expect(after.props).to.deep.equal([]);
+    expect(after.cars[0].vx).to.be.above(4);
+    expect(after.debris.length).to.be.greaterThan(0);
+    expect(after.debris.every(piece => piece.source === "crate" && piece.kind === "debris")).to.equal(true);
+    expect(after.events).to.deep.include({ type: "propBroken", kind: "crate", carId: 0, x: 250, y: 300 });
+  });
+
+  it("Should sweep the debris away after a while", function () {
+    let world = step(ram("crate", 8), {});
+    for (let i = 1; i < DEBRIS_TICKS - 1; i++) world = step(world, {});
+    expect(world.debris.length).to.be.greaterThan(0);
+
+    expect(step(world, {}).debris).to.deep.equal([]);
+  });
+
+  it("Should burst a barrel that's rammed hard enough", function () {
+    const car = { ...createCar(200, 300, "#fff"), vx: 8 };
+    let world = createWorld(1, [car], OPEN_ARENA, [createBarrel(242, 300)]);
+    expect(world.balls[0].hp).to.equal(BARREL_HP);
+
+    world = step(world, {});
+    expect(world.balls).to.deep.equal([]);
+    expect(world.debris.every(piece => piece.source === "barrel")).to.equal(true);
+    expect(world.events.some(event => event.type === "propBroken" && event.kind === "barrel")).to.equal(true);
+  });
+
+  it("Should load props from an arena file and check them", function () {
+    const file = {
+      version: 1 as const,
+      name: "Yard",
+      bounds: { width: 600, height: 400 },
+      props: [
+        { kind: "crate" as const, points: BOX },
+        { kind: "fence" as const, points: BOX.map(({ x, y }) => ({ x: x + 100, y })) },
+      ],
+      spawns: [
+        { x: 250, y: 300, angle: 0 },
+        { x: 600, y: 300, angle: Math.PI },
+      ],
+    };
+
+    expect(validateArenaFile(file)).to.deep.equal(["spawns[0] is inside props[0]"]);
+    expect(validateArenaFile({ ...file, spawns: undefined, props: [{ kind: "tyre", points: BOX }] })).to.deep.equal([
+      "props[0].kind must be one of crate, fence, wall",
+    ]);
+
+    const world = createArenaWorld(1, loadArena({ ...file, spawns: undefined }), [createCar(400, 450, "#fff")]);
+    expect(world.props.map(({ id, kind, hp }) => ({ id, kind, hp }))).to.deep.equal([
+      { id: 0, kind: "crate", hp: PROP_HP.crate },
+      { id: 1, kind: "fence", hp: PROP_HP.fence },
+    ]);
+  });
+});
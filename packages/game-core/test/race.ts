@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import {
+  Controller,
+  DEFAULT_RACE_OPTIONS,
+  RaceState,
+  Vec2,
+  World,
+  createRaceControllers,
+  createRaceState,
+  createRaceWorld,
+  getControllerInputs,
+  getGateCrossing,
+  getGateMidpoint,
+  getRaceRules,
+  getRaceStandings,
+  step,
+  updateRace,
+} from "../src";
+
+describe("race", function () {
+  const { gates } = DEFAULT_RACE_OPTIONS;
+
+  // Points just before and just after a gate's midpoint, in the forward direction
+  const straddle = (gateIndex: number): [Vec2, Vec2] => {
+    const gate = gates[gateIndex];
+    const mid = getGateMidpoint(gate);
+    const length = Math.hypot(gate.b.x - gate.a.x, gate.b.y - gate.a.y);
+    const forward = { x: -(gate.b.y - gate.a.y) / length, y: (gate.b.x - gate.a.x) / length };
+    return [
+      { x: mid.x - forward.x * 5, y: mid.y - forward.y * 5 },
+      { x: mid.x + forward.x * 5, y: mid.y + forward.y * 5 },
+    ];
+  };
+
+  const moveCar = (world: World, carId: number, to: Vec2, tick: number): World => ({
+    ...world,
+    tick,
+    cars: world.cars.map(car => (car.id === carId ? { ...car, x: to.x, y: to.y } : car)),
+  });
+
+  // Drive car `carId` forwards through each gate in turn
+  const driveThrough = (state: RaceState, world: World, carId: number, gateOrder: number[]) => {
+    let current = { state, world };
+    for (const gateIndex of gateOrder) {
+      const [before, after] = straddle(gateIndex);
+      const tick = current.world.tick + 10;
+      const beforeWorld = moveCar(current.world, carId, before, tick);
+      const afterWorld = moveCar(beforeWorld, carId, after, tick + 1);
+      current = { state: updateRace(updateRace(current.state, beforeWorld), afterWorld), world: afterWorld };
+    }
+    return current;
+  };
+
+  it("Should tell forward crossings from backward ones and misses", function () {
+    const [before, after] = straddle(2);
+
+    expect(getGateCrossing(gates[2], before, after)).to.equal(1);
+    expect(getGateCrossing(gates[2], after, before)).to.equal(-1);
+    expect(getGateCrossing(gates[2], before, before)).to.equal(0);
+  });
+
+  it("Should count a lap with split times once every gate is crossed in order", function () {
+    const world = createRaceWorld(1, { opponents: 1 });
+
+    const { state } = driveThrough(createRaceState(world), world, 0, [1, 2, 3, 4, 5, 6, 7, 0]);
+
+    const racer = state.progress[0];
+    expect(racer.lap).to.equal(1);
+    expect(racer.nextGate).to.equal(1);
+    expect(racer.bestSplits).to.have.length(gates.length);
+    expect(racer.bestLap).to.equal(racer.bestSplits[gates.length - 1]);
+  });
+
+  it("Should not count a lap for cutting across the infield", function () {
+    const world = createRaceWorld(1, { opponents: 1 });
+
+    const { state } = driveThrough(createRaceState(world), world, 0, [1, 2, 0]);
+
+    expect(state.progress[0].lap).to.equal(0);
+    expect(state.progress[0].nextGate).to.equal(3);
+  });
+
+  it("Should flag a car backing over the last gate as going the wrong way", function () {
+    const world = createRaceWorld(1, { opponents: 1 });
+    const [before, after] = straddle(0);
+    const state = updateRace(createRaceState(moveCar(world, 0, after, 0)), moveCar(world, 0, before, 1));
+
+    expect(state.progress[0].wrongWay).to.equal(true);
+  });
+
+  it("Should rank cars by progress and finish the race for the first to the flag", function () {
+    const world = createRaceWorld(1, { opponents: 1 });
+    const laps = [1, 2, 3, 4, 5, 6, 7, 0];
+
+    const { state, world: after } = driveThrough(createRaceState(world, { laps: 1 }), world, 1, laps);
+
+    expect(getRaceStandings(state, after)).to.deep.equal([1, 0]);
+    expect(state.progress[1].finishedTick).to.equal(after.tick);
+    expect(getRaceRules(state).getWinner(after, false)).to.equal(1);
+  });
+
+  it("Should get the AI round the track", function () {
+    let world = createRaceWorld(1, { opponents: 2 });
+    let state = createRaceState(world, { laps: 2 });
+    const controllers: Record<number, Controller> = createRaceControllers(world, 1, () => state);
+
+    for (let i = 0; i < 60 * 30 && getRaceRules(state).getWinner(world, false) === undefined; i++) {
+      world = step(world, getControllerInputs(world, controllers));
+      state = updateRace(state, world);
+    }
+
+    expect(getRaceRules(state).getWinner(world, false)).to.be.oneOf([1, 2]);
+  });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import {
+  MAX_SPEED,
+  OPEN_ARENA,
+  RAMP_HANG_TICKS,
+  RAMP_LAUNCH_BOOST,
+  World,
+  createCar,
+  createWorld,
+  getSpeed,
+  loadArena,
+  step,
+  validateArenaFile,
+} from "../src";
+
+describe("ramps", function () {
+  // A ramp going up to the right, with its lip at x = 280
+  const RAMP = {
+    points: [
+      { x: 200, y: 260 },
+      { x: 280, y: 260 },
+      { x: 280, y: 340 },
+      { x: 200, y: 340 },
+    ],
+    angle: 0,
+  };
+  const FLOOR_IT = { forward: 1, reverse: 0, left: 0, right: 0 };
+
+  const onRamp = (x: number, vx: number, angle = 0): World =>
+    createWorld(1, [{ ...createCar(x, 300, "#fff", angle), vx }], { ...OPEN_ARENA, ramps: [RAMP] });
+
+  // Step until the car is past `x` one way or the other
+  const driveOff = (world: World, past: (x: number) => boolean, input = FLOOR_IT) => {
+    let before = world;
+    for (let i = 0; i < 60 && !past(world.cars[0].x); i++) {
+      before = world;
+      world = step(world, { 0: input });
+    }
+    return { before: before.cars[0], after: world };
+  };
+
+  it("Should throw a car off the lip faster than it went up, for longer the faster it was going", function () {
+    const { before, after } = driveOff(onRamp(240, 6), x => x > 280);
+    const car = after.cars[0];
+
+    expect(car.airborne).to.be.greaterThan(0);
+    expect(car.vx).to.be.greaterThan(MAX_SPEED);
+    // The last tick on the ramp drove the car up a little, so the launch is off a speed between the two
+    expect(car.airborne).to.be.within(
+      Math.round(before.vx * RAMP_HANG_TICKS),
+      Math.round((car.vx / RAMP_LAUNCH_BOOST) * RAMP_HANG_TICKS),
+    );
+  });
+
+  it("Should ignore the driver and keep every bit of speed until the car lands", function () {
+    let world = driveOff(onRamp(240, 6), x => x > 280).after;
+    const launch = world.cars[0];
+    const slam = { forward: 0, reverse: 1, left: 1, right: 0 };
+
+    for (let i = 1; i < launch.airborne; i++) world = step(world, { 0: slam });
+    expect(world.cars[0].airborne).to.equal(1);
+    expect(world.cars[0].vx).to.equal(launch.vx);
+    expect(world.cars[0].angle).to.equal(launch.angle);
+
+    world = step(world, { 0: slam });
+    world = step(world, { 0: slam });
+    expect(world.cars[0].airborne).to.equal(0);
+    expect(getSpeed(world.cars[0])).to.be.below(launch.vx);
+    expect(world.cars[0].angle).to.not.equal(launch.angle);
+  });
+
+  it("Should let cars crawl off the lip, or come down the wrong way, without flying", function () {
+    const crawl = driveOff(onRamp(270, 2), x => x > 280, { forward: 0, reverse: 0, left: 0, right: 0 });
+    expect(crawl.after.cars[0].x).to.be.greaterThan(280);
+    expect(crawl.after.cars[0].airborne).to.equal(0);
+
+    const down = driveOff(onRamp(240, -6, Math.PI), x => x < 200);
+    expect(down.after.cars[0].x).to.be.below(200);
+    expect(down.after.cars[0].airborne).to.equal(0);
+  });
+
+  it("Should load ramps from an arena file and check them", function () {
+    const file = { version: 1 as const, name: "Jumps", bounds: { width: 600, height: 400 }, ramps: [RAMP] };
+
+    expect(validateArenaFile(file)).to.deep.equal([]);
+    expect(loadArena(file).arena.ramps).to.deep.equal([RAMP]);
+    expect(
+      validateArenaFile({ ...file, ramps: [{ points: [...RAMP.points].reverse().slice(1), angle: "up" }] }),
+    ).to.deep.equal(["ramps[0].angle must be a number"]);
+    expect(
+      validateArenaFile({
+        ...file,
+        ramps: [{ points: [RAMP.points[0], RAMP.points[2], RAMP.points[1], RAMP.points[3]], angle: 0 }],
+      }),
+    ).to.deep.equal(["ramps[0] must be convex - split it into several convex ramps"]);
+  });
+});
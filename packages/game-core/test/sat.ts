@@ -0,0 +1,54 @@
+import { expect } from "chai";
+import { NO_INPUT, collideCars, createCar, createWorld, getCarCorners, getHitZoneAtPoint, step } from "../src";
+
+describe("sat", function () {
+  describe("collideCars", function () {
+    it("Should not report side-by-side cars that a circle test would", function () {
+      const a = createCar(300, 300, "#fff");
+      const b = createCar(300, 335, "#fff");
+
+      expect(collideCars(a, b)).to.equal(null);
+    });
+
+    it("Should find the normal and depth for a side swipe", function () {
+      const a = createCar(300, 300, "#fff");
+      const b = createCar(310, 326, "#fff");
+
+      const contact = collideCars(a, b);
+
+      expect(contact).to.not.equal(null);
+      expect(contact!.normal.x).to.be.closeTo(0, 1e-9);
+      expect(contact!.normal.y).to.be.closeTo(1, 1e-9);
+      expect(contact!.depth).to.be.closeTo(4, 1e-9);
+      expect(contact!.point.x).to.be.closeTo(305, 1e-9);
+    });
+
+    it("Should put the contact point on the clipping corner", function () {
+      const a = createCar(300, 300, "#fff", Math.PI / 6);
+      const b = createCar(350, 300, "#fff");
+      // The front corner of a pokes into b's rear
+      const corner = getCarCorners(a)[1];
+
+      const contact = collideCars(a, b);
+
+      expect(contact).to.not.equal(null);
+      expect(contact!.point.x).to.be.closeTo(corner.x, 1e-6);
+      expect(contact!.point.y).to.be.closeTo(corner.y, 1e-6);
+      expect(getHitZoneAtPoint(a, contact!.point, contact!.normal)).to.equal("front");
+      expect(getHitZoneAtPoint(b, contact!.point)).to.equal("rear");
+    });
+  });
+
+  describe("continuous detection", function () {
+    it("Should stop a fast car from tunnelling through another in one tick", function () {
+      const wall = createCar(200, 300, "#fff", Math.PI / 2);
+      const bullet = createCar(300, 300, "#fff", 0);
+      bullet.vx = -150;
+
+      const [nextWall, nextBullet] = step(createWorld(3, [wall, bullet]), { 0: NO_INPUT }).cars;
+
+      expect(nextBullet.x).to.be.greaterThan(nextWall.x);
+      expect(nextWall.vx).to.be.lessThan(0);
+    });
+  });
+});
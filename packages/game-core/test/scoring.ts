@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import {
+  COMBO_WINDOW_TICKS,
+  CollisionEvent,
+  GameEvent,
+  HIT_POINTS,
+  HitClass,
+  ScoreState,
+  WRECK_BONUS,
+  World,
+  createScoreState,
+  createCar,
+  createWorld,
+  getHitPoints,
+  startScoreRound,
+  step,
+  updateScores,
+} from "../src";
+
+describe("scoring", function () {
+  const hit = (hitClass: HitClass, impactSpeed = 5, attackerId = 0, victimId = 1): CollisionEvent => ({
+    type: "collision",
+    x: 100,
+    y: 100,
+    damage: 10,
+    attackerDamage: 3,
+    attackerId,
+    victimId,
+    attackerZone: "front",
+    victimZone: "left",
+    hitClass,
+    impactSpeed,
+  });
+
+  const at = (tick: number, events: GameEvent[]): World => ({ ...createWorld(1), tick, events });
+
+  it("Should scale each class's points with impact speed", function () {
+    expect(getHitPoints("tbone", 5)).to.equal(HIT_POINTS.tbone);
+    expect(getHitPoints("tbone", 10)).to.equal(HIT_POINTS.tbone * 2);
+    expect(getHitPoints("headOn", 5)).to.be.greaterThan(getHitPoints("glancing", 5));
+  });
+
+  it("Should credit the attacker and tally the hit by class", function () {
+    const state = updateScores(createScoreState(), at(10, [hit("headOn")]));
+
+    expect(state.cars[0].total).to.equal(HIT_POINTS.headOn);
+    expect(state.cars[0].hits.headOn).to.deep.equal({ count: 1, points: HIT_POINTS.headOn });
+    expect(state.cars[1]).to.equal(undefined);
+    expect(state.callouts).to.deep.equal([
+      { carId: 0, kind: "headOn", points: HIT_POINTS.headOn, multiplier: 1, x: 100, y: 100 },
+    ]);
+  });
+
+  it("Should multiply chained hits and start over once the window passes", function () {
+    let state: ScoreState = createScoreState();
+    state = updateScores(state, at(10, [hit("rearEnd")]));
+    state = updateScores(state, at(10 + COMBO_WINDOW_TICKS, [hit("rearEnd")]));
+    expect(state.callouts[0].multiplier).to.equal(1.5);
+    expect(state.cars[0].bestCombo).to.equal(2);
+
+    state = updateScores(state, at(11 + COMBO_WINDOW_TICKS * 2, [hit("rearEnd")]));
+    expect(state.callouts[0].multiplier).to.equal(1);
+    expect(state.cars[0].combo).to.equal(1);
+  });
+
+  it("Should give a wreck bonus at the current combo to whoever dealt the final blow", function () {
+    let state = updateScores(createScoreState(), at(10, [hit("tbone")]));
+    state = updateScores(state, at(20, [hit("tbone"), { type: "wrecked", carId: 1, byId: 0, x: 0, y: 0 }]));
+
+    expect(state.cars[0].wrecks).to.equal(1);
+    expect(state.cars[0].wreckPoints).to.equal(WRECK_BONUS * 1.5);
+  });
+
+  it("Should give the same bonus for knocking a car off a platform", function () {
+    let state = updateScores(createScoreState(), at(10, [hit("sideswipe")]));
+    state = updateScores(state, at(20, [{ type: "fellOff", carId: 1, byId: 0, x: 0, y: 0 }]));
+    state = updateScores(state, at(30, [{ type: "fellOff", carId: 2, byId: null, x: 0, y: 0 }]));
+
+    expect(state.cars[0].wrecks).to.equal(1);
+    expect(state.cars[0].wreckPoints).to.equal(WRECK_BONUS);
+    expect(Object.keys(state.cars)).to.deep.equal(["0"]);
+  });
+
+  it("Should score nothing for ramming a car that's already wrecked", function () {
+    const hulk = { ...createCar(435, 300, "#3498db", Math.PI / 2), wrecked: true };
+    const world = createWorld(1, [{ ...createCar(400, 300, "#e74c3c"), vx: 7 }, hulk]);
+
+    const state = updateScores(createScoreState(), step(world, {}));
+
+    expect(state).to.deep.equal(createScoreState());
+  });
+
+  it("Should not carry a chain into the next round", function () {
+    let state = updateScores(createScoreState(), at(500, [hit("sideswipe")]));
+    state = startScoreRound(state);
+    state = updateScores(state, at(5, [hit("sideswipe")]));
+
+    expect(state.cars[0].combo).to.equal(1);
+    expect(state.cars[0].hits.sideswipe.count).to.equal(2);
+  });
+
+  it("Should leave the given state untouched", function () {
+    const before = updateScores(createScoreState(), at(10, [hit("glancing")]));
+    const snapshot = JSON.stringify(before);
+
+    updateScores(before, at(20, [hit("glancing")]));
+
+    expect(JSON.stringify(before)).to.equal(snapshot);
+  });
+});
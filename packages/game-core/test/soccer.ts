@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  Controller,
+  World,
+  createSoccerControllers,
+  createSoccerDriver,
+  createSoccerState,
+  createSoccerWorld,
+  getControllerInputs,
+  getSoccerRules,
+  getSoccerTeam,
+  isKickoffPause,
+  step,
+  updateSoccer,
+} from "../src";
+
+describe("soccer", function () {
+  const withBallAt = (world: World, x: number): World => ({
+    ...world,
+    balls: world.balls.map(ball => ({ ...ball, x, y: CANVAS_HEIGHT / 2, vx: -3 })),
+  });
+
+  it("Should line the teams up on either side of the ball", function () {
+    const world = createSoccerWorld(1, { teamSize: 3 });
+
+    expect(world.cars).to.have.length(6);
+    expect(world.balls).to.have.length(1);
+    for (const car of world.cars) {
+      expect(car.x < CANVAS_WIDTH / 2).to.equal(getSoccerTeam(car.id) === 0);
+    }
+  });
+
+  it("Should score a goal and reset for the kickoff", function () {
+    const world = withBallAt(createSoccerWorld(1), 10);
+
+    const { state, world: after } = updateSoccer(createSoccerState(), world);
+
+    expect(state.score).to.deep.equal([0, 1]);
+    expect(state.lastGoal).to.deep.equal({ team: 1, tick: 0 });
+    expect(after.balls[0]).to.include({ x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2, vx: 0 });
+    expect(isKickoffPause(state, after)).to.equal(true);
+    expect(isKickoffPause(state, { ...after, tick: state.kickoffUntil })).to.equal(false);
+  });
+
+  it("Should leave the score alone while the ball is in play", function () {
+    const state = createSoccerState();
+
+    const result = updateSoccer(state, withBallAt(createSoccerWorld(1), 100));
+
+    expect(result.state).to.equal(state);
+  });
+
+  it("Should give the round to the first team to the target", function () {
+    const world = createSoccerWorld(1);
+    const rules = getSoccerRules({ ...createSoccerState({ targetGoals: 3 }), score: [1, 3] });
+
+    expect(rules.getWinner(world, false)).to.equal(1);
+    expect(rules.getPlacements(world, [])).to.deep.equal([1, 0]);
+  });
+
+  it("Should draw a level game at time up", function () {
+    const world = createSoccerWorld(1);
+    const rules = getSoccerRules({ ...createSoccerState(), score: [2, 2] });
+
+    expect(rules.getWinner(world, false)).to.equal(undefined);
+    expect(rules.getWinner(world, true)).to.equal(null);
+  });
+
+  it("Should play a game where the AI scores goals", function () {
+    let world = createSoccerWorld(1);
+    let state = createSoccerState({ targetGoals: 99 });
+    const controllers: Record<number, Controller> = {
+      ...createSoccerControllers(world, 1),
+      0: createSoccerDriver(0, "normal", 5),
+    };
+
+    for (let i = 0; i < 60 * 60; i++) {
+      world = step(world, isKickoffPause(state, world) ? {} : getControllerInputs(world, controllers));
+      ({ state, world } = updateSoccer(state, world));
+    }
+
+    expect(state.score[0] + state.score[1]).to.be.greaterThan(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import {
+  DEFAULT_SUMO_OPTIONS,
+  NO_INPUT,
+  PLAYER_ID,
+  RING_OUT_CREDIT_TICKS,
+  World,
+  createAiDriver,
+  createSumoWorld,
+  getSumoRadius,
+  getTotalHealth,
+  step,
+  updateSumo,
+} from "../src";
+
+describe("sumo", function () {
+  const pushOut = (world: World, carId: number, distance: number, speed = 0): World => {
+    const platform = world.arena.platform!;
+    return {
+      ...world,
+      cars: world.cars.map(car =>
+        car.id === carId ? { ...car, x: platform.x + distance, y: platform.y, vx: speed, vy: 0, angle: 0 } : car,
+      ),
+    };
+  };
+
+  it("Should knock a car out when its centre leaves the platform", function () {
+    const world = createSumoWorld(1, { opponents: 1 });
+    const radius = world.arena.platform!.radius;
+
+    const after = step(pushOut(world, PLAYER_ID, radius - 2, 5), {});
+
+    const player = after.cars[PLAYER_ID];
+    expect(player.fellOff).to.equal(true);
+    expect(player.wrecked).to.equal(true);
+    expect(getTotalHealth(player)).to.equal(100);
+    expect(after.events).to.deep.include({ type: "fellOff", carId: PLAYER_ID, byId: null, x: player.x, y: player.y });
+  });
+
+  it("Should credit a ring-out to the car that shoved it off, if the shove was recent", function () {
+    const start = createSumoWorld(1, { opponents: 1 });
+    const world = pushOut(start, PLAYER_ID, start.arena.platform!.radius - 2, 5);
+    const shoved = (tick: number) => ({
+      ...world,
+      tick: 500,
+      cars: world.cars.map(car => (car.id === PLAYER_ID ? { ...car, lastHitBy: { carId: 1, tick } } : car)),
+    });
+    const fellOffBy = (next: World) => next.events.find(event => event.type === "fellOff");
+
+    expect(fellOffBy(step(shoved(500 - RING_OUT_CREDIT_TICKS), {}))).to.include({ carId: PLAYER_ID, byId: 1 });
+    expect(fellOffBy(step(shoved(499 - RING_OUT_CREDIT_TICKS), {}))).to.include({ carId: PLAYER_ID, byId: null });
+  });
+
+  it("Should have no walls to bounce off", function () {
+    const world = createSumoWorld(1, { opponents: 1, startRadius: 460 });
+
+    const after = step(pushOut(world, PLAYER_ID, 430, 5), {});
+
+    expect(after.cars[PLAYER_ID].vx).to.be.greaterThan(0);
+  });
+
+  it("Should leave a fallen car out of the physics", function () {
+    let world = step(pushOut(createSumoWorld(1, { opponents: 1 }), PLAYER_ID, 300, 5), {});
+    const fallen = world.cars[PLAYER_ID];
+
+    world = step(world, { [PLAYER_ID]: { ...NO_INPUT, forward: 1 } });
+
+    expect(world.cars[PLAYER_ID]).to.include({ x: fallen.x, y: fallen.y });
+    expect(world.events).to.deep.equal([]);
+  });
+
+  it("Should shrink the platform after the delay and stop at the minimum", function () {
+    const options = DEFAULT_SUMO_OPTIONS;
+    const end = options.shrinkDelayTicks + options.shrinkTicks;
+
+    expect(getSumoRadius(options, options.shrinkDelayTicks)).to.equal(options.startRadius);
+    expect(getSumoRadius(options, options.shrinkDelayTicks + options.shrinkTicks / 2)).to.be.within(
+      options.minRadius,
+      options.startRadius,
+    );
+    expect(getSumoRadius(options, end * 2)).to.equal(options.minRadius);
+  });
+
+  it("Should drop a car stranded by the shrinking edge", function () {
+    const options = { ...DEFAULT_SUMO_OPTIONS, shrinkDelayTicks: 0, shrinkTicks: 10 };
+    let world = pushOut(createSumoWorld(1, options), PLAYER_ID, 200);
+
+    world = updateSumo(options, { ...world, tick: 10 });
+    world = step(world, {});
+
+    expect(world.arena.platform!.radius).to.equal(options.minRadius);
+    expect(world.cars[PLAYER_ID].fellOff).to.equal(true);
+  });
+
+  it("Should have the AI pull back from the edge", function () {
+    const world = pushOut(createSumoWorld(1, { opponents: 1 }), 1, 240, 3);
+
+    const driver = createAiDriver(1, "normal");
+    driver.decide(world);
+
+    expect(driver.behaviour).to.equal("edge");
+  });
+});
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import {
+  FLOOR_GRIP,
+  OIL_SLICK_RADIUS,
+  OIL_SLICK_TICKS,
+  OPEN_ARENA,
+  SURFACE_GRIP,
+  SurfaceKind,
+  World,
+  applyPowerUp,
+  createCar,
+  createWorld,
+  dropOilSlick,
+  getCarCorners,
+  getSpeed,
+  getSurfaceAt,
+  getSurfaceGrip,
+  step,
+} from "../src";
+
+describe("surfaces", function () {
+  const FULL_THROTTLE = { forward: 1, reverse: 0, left: 0, right: 0 };
+
+  // A world with one car at (200, 300) facing right and, optionally, a patch of floor from x = 0 up to `edge`
+  const worldWith = (kind: SurfaceKind | null, edge = 900): World => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: edge, y: 0 },
+      { x: edge, y: 600 },
+      { x: 0, y: 600 },
+    ];
+    const surfaces = kind ? [{ kind, points }] : [];
+    return createWorld(1, [createCar(200, 300, "#fff")], { ...OPEN_ARENA, surfaces });
+  };
+
+  const run = (world: World, ticks: number, input = FULL_THROTTLE) => {
+    for (let i = 0; i < ticks; i++) world = step(world, { 0: input });
+    return world;
+  };
+
+  it("Should put later regions and dropped oil on top", function () {
+    const world = worldWith("mud");
+    world.arena.surfaces.push({
+      kind: "ice",
+      points: [
+        { x: 100, y: 100 },
+        { x: 300, y: 100 },
+        { x: 300, y: 200 },
+      ],
+    });
+    dropOilSlick(world, { x: 600, y: 300 });
+
+    expect(getSurfaceAt(world, { x: 280, y: 150 })).to.equal("ice");
+    expect(getSurfaceAt(world, { x: 400, y: 400 })).to.equal("mud");
+    expect(getSurfaceAt(world, { x: 610, y: 300 })).to.equal("oil");
+    expect(getSurfaceAt(worldWith(null), { x: 400, y: 400 })).to.equal(null);
+  });
+
+  it("Should blend the grip of the floor under each wheel", function () {
+    const world = worldWith("ice", 200);
+    const car = world.cars[0];
+
+    // The back wheels are on the ice and the front ones on bare floor
+    expect(getCarCorners(car).filter(corner => corner.x < 200)).to.have.length(2);
+    expect(getSurfaceGrip(world, car).grip).to.be.closeTo((SURFACE_GRIP.ice.grip + FLOOR_GRIP.grip) / 2, 1e-9);
+    expect(getSurfaceGrip(worldWith("ice"), car)).to.deep.equal(SURFACE_GRIP.ice);
+    expect(getSurfaceGrip(worldWith(null), car)).to.deep.equal(FLOOR_GRIP);
+  });
+
+  it("Should pull away quickest on asphalt and slowest in mud", function () {
+    const speedAfter = (kind: SurfaceKind | null) => getSpeed(run(worldWith(kind), 30).cars[0]);
+
+    expect(speedAfter("asphalt")).to.be.greaterThan(speedAfter(null));
+    expect(speedAfter(null)).to.be.greaterThan(speedAfter("mud"));
+    expect(speedAfter("mud")).to.be.greaterThan(speedAfter("ice"));
+  });
+
+  it("Should keep sliding sideways on ice long after the floor has stopped it", function () {
+    const slide = (kind: SurfaceKind | null) => {
+      const world = worldWith(kind);
+      world.cars[0].vy = 5;
+      return run(world, 30).cars[0].vy;
+    };
+
+    expect(slide(null)).to.be.below(0.1);
+    expect(slide("ice")).to.be.above(1);
+  });
+
+  it("Should spill an oil slick behind the car that soaks away", function () {
+    const world = worldWith(null);
+    applyPowerUp(world, world.cars[0], "oil");
+
+    expect(world.slicks).to.have.length(1);
+    expect(world.slicks[0].x).to.be.closeTo(200 - 25 - OIL_SLICK_RADIUS, 1e-9);
+    expect(world.slicks[0].y).to.be.closeTo(300, 1e-9);
+
+    const later = run(world, OIL_SLICK_TICKS - 1, { forward: 0, reverse: 0, left: 0, right: 0 });
+    expect(later.slicks).to.have.length(1);
+    expect(step(later, {}).slicks).to.deep.equal([]);
+  });
+});
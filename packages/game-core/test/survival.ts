@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  PLAYER_ID,
+  SurvivalState,
+  TICK_RATE,
+  World,
+  WreckedEvent,
+  createSurvivalState,
+  createSurvivalWorld,
+  getSurvivalRules,
+  getWaveHostiles,
+  updateSurvival,
+} from "../src";
+
+describe("survival", function () {
+  const startRun = (): { world: World; state: SurvivalState } =>
+    updateSurvival(createSurvivalState(1), createSurvivalWorld(1));
+
+  // Wreck every bot on the floor, with the events a step would have raised
+  const wreckWave = (world: World, state: SurvivalState): World => {
+    const events: WreckedEvent[] = [];
+    const cars = world.cars.map(car => {
+      if (!state.hostiles[car.id]) return car;
+      events.push({ type: "wrecked", carId: car.id, byId: PLAYER_ID, x: car.x, y: car.y });
+      return { ...car, wrecked: true };
+    });
+    return { ...world, tick: world.tick + 1, cars, events };
+  };
+
+  it("Should send bigger, smarter and heavier waves", function () {
+    const first = getWaveHostiles(1);
+    const later = getWaveHostiles(7);
+
+    expect(later.length).to.be.greaterThan(first.length);
+    expect(first.every(hostile => hostile.difficulty === "easy" && !hostile.heavy)).to.equal(true);
+    expect(later.some(hostile => hostile.difficulty === "hard")).to.equal(true);
+    expect(later.filter(hostile => hostile.heavy).length).to.equal(2);
+    expect(Math.min(...later.map(hostile => hostile.mass))).to.be.greaterThan(first[0].mass);
+    expect(getWaveHostiles(40).length).to.equal(8);
+  });
+
+  it("Should roll the first wave in from the edges", function () {
+    const { world, state } = startRun();
+
+    expect(state).to.include({ phase: "wave", wave: 1 });
+    expect(Object.keys(state.hostiles).map(Number)).to.deep.equal([1, 2]);
+    for (const car of world.cars.filter(car => car.id !== PLAYER_ID)) {
+      const fromCentre = Math.hypot(car.x - CANVAS_WIDTH / 2, car.y - CANVAS_HEIGHT / 2);
+      expect(fromCentre).to.be.greaterThan(CANVAS_HEIGHT / 2 - 100);
+    }
+  });
+
+  it("Should bank the kills and start a breather once the wave is wrecked", function () {
+    const run = startRun();
+
+    const { state } = updateSurvival(run.state, wreckWave(run.world, run.state));
+
+    expect(state).to.include({ phase: "intermission", wavesSurvived: 1, kills: 2, score: 2 * 100 + 250 });
+  });
+
+  it("Should repair the player in the breather, then fill the wrecked slots with a bigger wave", function () {
+    const run = startRun();
+    let world = wreckWave(run.world, run.state);
+    world.cars[PLAYER_ID].health.front = 50;
+    let { state } = updateSurvival(run.state, world);
+
+    ({ world, state } = updateSurvival(state, { ...world, tick: world.tick + 1, events: [] }));
+    expect(world.cars[PLAYER_ID].health.front).to.be.greaterThan(50);
+
+    ({ world, state } = updateSurvival(state, { ...world, tick: state.phaseEndsTick, events: [] }));
+    expect(state).to.include({ phase: "wave", wave: 2 });
+    expect(world.cars.map(car => car.id)).to.deep.equal([0, 1, 2, 3]);
+    expect(world.cars.some(car => car.wrecked)).to.equal(false);
+  });
+
+  it("Should run with no clock until the player is wrecked", function () {
+    const { world } = startRun();
+    const rules = getSurvivalRules();
+
+    expect(rules.getWinner({ ...world, tick: TICK_RATE * 600 }, true)).to.equal(undefined);
+    world.cars[PLAYER_ID].wrecked = true;
+    expect(rules.getWinner(world, false)).to.equal(null);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import {
+  BotDefinition,
+  NO_INPUT,
+  POINTS_FOR_WIN,
+  createAiDriver,
+  createRoundRobin,
+  defineBot,
+  runMatch,
+  runRoundRobin,
+} from "../src";
+
+describe("tournament", function () {
+  const idle = defineBot({ name: "Idle", createController: () => ({ decide: () => NO_INPUT }) });
+  const hardAi = defineBot({ name: "Hard AI", createController: (carId, seed) => createAiDriver(carId, "hard", seed) });
+  const broken = defineBot({
+    name: "Broken",
+    createController: () => ({
+      decide: () => {
+        throw new Error("boom");
+      },
+    }),
+  });
+
+  it("Should pair every bot with every other bot once per leg", function () {
+    const fixtures = createRoundRobin(4, 1, 2);
+
+    expect(fixtures).to.have.length(12);
+    const pairings = fixtures.map(({ home, away }) => `${home}-${away}`);
+    expect(new Set(pairings).size).to.equal(12);
+  });
+
+  it("Should call a match between two idle bots a draw", function () {
+    const result = runMatch([idle, idle], { seed: 1, maxTicks: 60 });
+
+    expect(result.winner).to.equal(null);
+    expect(result.reason).to.equal("draw");
+    expect(result.ticks).to.equal(60);
+  });
+
+  it("Should award the match against a bot that throws", function () {
+    const result = runMatch([broken, idle]);
+
+    expect(result.winner).to.equal(1);
+    expect(result.reason).to.equal("error");
+    expect(result.error).to.equal("boom");
+  });
+
+  it("Should award the match against a bot that can't even be set up", function () {
+    const unbuildable = defineBot({
+      name: "Unbuildable",
+      createController: () => {
+        throw new Error("no wheels");
+      },
+    });
+
+    const result = runMatch([idle, unbuildable]);
+
+    expect(result.winner).to.equal(0);
+    expect(result.reason).to.equal("error");
+    expect(result.error).to.equal("no wheels");
+    expect(result.ticks).to.equal(0);
+  });
+
+  it("Should replay a match exactly for the same seed", function () {
+    const a = runMatch([hardAi, idle], { seed: 4, maxTicks: 600 });
+    const b = runMatch([hardAi, idle], { seed: 4, maxTicks: 600 });
+
+    expect(a).to.deep.equal(b);
+  });
+
+  it("Should rank the AI above a bot that never moves", function () {
+    const bots: BotDefinition[] = [idle, hardAi];
+
+    const { standings, results } = runRoundRobin(bots, 1, 2, 1200);
+
+    expect(results).to.have.length(2);
+    expect(standings[0].bot).to.equal(1);
+    expect(standings[0].points).to.equal(2 * POINTS_FOR_WIN);
+    expect(standings[0].damageDealt).to.be.greaterThan(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  NO_INPUT,
+  PLAYER_ID,
+  StepInputs,
+  WALL_THICKNESS,
+  World,
+  createCar,
+  createRingCars,
+  createWorld,
+  step,
+} from "../src";
+
+describe("world", function () {
+  const run = (seed: number, ticks: number, inputFor: (tick: number) => StepInputs): World => {
+    let world = createWorld(seed);
+    for (let i = 0; i < ticks; i++) world = step(world, inputFor(i));
+    return world;
+  };
+
+  const chargeTarget = (tick: number): StepInputs => ({
+    [PLAYER_ID]: { ...NO_INPUT, forward: 1, right: tick % 40 < 10 ? 0.5 : 0 },
+  });
+
+  it("Should not mutate the world it is given", function () {
+    const world = createWorld(1);
+    const snapshot = JSON.stringify(world);
+
+    step(world, { [PLAYER_ID]: { ...NO_INPUT, forward: 1 } });
+
+    expect(JSON.stringify(world)).to.equal(snapshot);
+  });
+
+  it("Should produce identical worlds for identical seeds and inputs", function () {
+    const a = run(42, 600, chargeTarget);
+    const b = run(42, 600, chargeTarget);
+
+    expect(a.tick).to.equal(600);
+    expect(JSON.stringify(a)).to.equal(JSON.stringify(b));
+  });
+
+  it("Should damage the target when rammed", function () {
+    const world = run(42, 120, () => ({ [PLAYER_ID]: { ...NO_INPUT, forward: 1 } }));
+    const { front, rear, left, right } = world.cars[1].health;
+
+    expect(front + rear + left + right).to.be.lessThan(400);
+  });
+
+  it("Should run a 16 car derby without cars escaping the arena", function () {
+    let world = createWorld(5, createRingCars(16));
+    const allForward: StepInputs = Object.fromEntries(world.cars.map(car => [car.id, { ...NO_INPUT, forward: 1 }]));
+
+    for (let i = 0; i < 600; i++) world = step(world, allForward);
+
+    expect(world.cars).to.have.length(16);
+    for (const car of world.cars) {
+      expect(car.x).to.be.within(WALL_THICKNESS, CANVAS_WIDTH - WALL_THICKNESS);
+      expect(car.y).to.be.within(WALL_THICKNESS, CANVAS_HEIGHT - WALL_THICKNESS);
+    }
+  });
+
+  it("Should raise a wallHit event when a car slams into a wall, but not when it drives alongside one", function () {
+    const slam = createCar(WALL_THICKNESS + 30, 300, "#fff");
+    slam.vx = -8;
+    const roll = createCar(450, WALL_THICKNESS + 12, "#fff");
+    roll.vx = 3;
+    let world = createWorld(1, [slam, roll]);
+
+    const hits = [];
+    for (let i = 0; i < 30; i++) {
+      world = step(world, {});
+      hits.push(...world.events.filter(event => event.type === "wallHit"));
+    }
+
+    expect(hits.length).to.be.greaterThan(0);
+    expect(hits.every(hit => hit.type === "wallHit" && hit.carId === PLAYER_ID)).to.equal(true);
+  });
+});
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MatchesTable } from "./MatchesTable";
+import { StandingsTable } from "./StandingsTable";
+import {
+  type BotDefinition,
+  type Fixture,
+  type FixtureResult,
+  createRoundRobin,
+  getStandings,
+  playFixture,
+} from "@se-2/game-core";
+import { bots } from "~~/bots";
+
+export const BotArena = () => {
+  const [selected, setSelected] = useState<number[]>(() => bots.map((_, i) => i));
+  const [seed, setSeed] = useState(1);
+  const [legs, setLegs] = useState(2);
+  const [entrants, setEntrants] = useState<BotDefinition[]>([]);
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+  const [results, setResults] = useState<FixtureResult[]>([]);
+  const isRunning = results.length < fixtures.length;
+
+  // One match per timeout so the tables fill in as we go and the page never locks up
+  useEffect(() => {
+    if (!isRunning) return;
+    const timeout = setTimeout(() => {
+      setResults([...results, playFixture(entrants, fixtures[results.length])]);
+    }, 0);
+    return () => clearTimeout(timeout);
+  }, [entrants, fixtures, results, isRunning]);
+
+  const toggleBot = (index: number) => {
+    setSelected(current =>
+      current.includes(index) ? current.filter(i => i !== index) : [...current, index].sort((a, b) => a - b),
+    );
+  };
+
+  const runTournament = () => {
+    setEntrants(selected.map(i => bots[i]));
+    setFixtures(createRoundRobin(selected.length, seed, legs));
+    setResults([]);
+  };
+
+  return (
+    <div className="flex flex-col gap-6 px-4 lg:px-10 py-8 w-full max-w-5xl mx-auto">
+      <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6 flex flex-col gap-4">
+        <h2 className="text-xl font-bold m-0">Entrants</h2>
+        <div className="flex flex-wrap gap-4">
+          {bots.map((bot, i) => (
+            <label key={bot.name} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={selected.includes(i)}
+                disabled={isRunning}
+                onChange={() => toggleBot(i)}
+              />
+              <span>{bot.name}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-sm">
+            Seed
+            <input
+              type="number"
+              className="input input-sm input-bordered w-28"
+              value={seed}
+              disabled={isRunning}
+              onChange={e => setSeed(Number(e.target.value) || 0)}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            Legs
+            <select
+              className="select select-sm select-bordered"
+              value={legs}
+              disabled={isRunning}
+              onChange={e => setLegs(Number(e.target.value))}
+            >
+              <option value={1}>Single</option>
+              <option value={2}>Home and away</option>
+            </select>
+          </label>
+          <button
+            className="btn btn-primary btn-sm"
+            disabled={isRunning || selected.length < 2}
+            onClick={runTournament}
+          >
+            {isRunning ? `Playing ${results.length + 1} / ${fixtures.length}` : "Run round robin"}
+          </button>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <>
+          <h2 className="text-xl font-bold m-0">Standings</h2>
+          <StandingsTable bots={entrants} standings={getStandings(entrants.length, results)} />
+          <h2 className="text-xl font-bold m-0">Matches</h2>
+          <MatchesTable bots={entrants} results={results} />
+        </>
+      )}
+    </div>
+  );
+};
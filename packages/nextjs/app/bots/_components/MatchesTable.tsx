@@ -0,0 +1,52 @@
+import { type BotDefinition, type FixtureResult, TICK_RATE } from "@se-2/game-core";
+
+type MatchesTableProps = {
+  bots: BotDefinition[];
+  results: FixtureResult[];
+};
+
+const describeResult = (bots: BotDefinition[], { home, away, result }: FixtureResult) => {
+  if (result.winner === null) return "Draw";
+  const winner = bots[result.winner === 0 ? home : away].name;
+  if (result.reason === "wreck") return `${winner} wrecked them`;
+  if (result.reason === "error") return `${winner} by forfeit (${result.error})`;
+  return `${winner} on health`;
+};
+
+export const MatchesTable = ({ bots, results }: MatchesTableProps) => {
+  return (
+    <div className="overflow-x-auto w-full shadow-2xl rounded-xl">
+      <table className="table bg-base-100 table-zebra w-full table-sm">
+        <thead>
+          <tr className="text-sm text-base-content">
+            <th className="bg-primary">Left</th>
+            <th className="bg-primary">Right</th>
+            <th className="bg-primary text-end">Damage</th>
+            <th className="bg-primary text-end">Health</th>
+            <th className="bg-primary text-end">Time</th>
+            <th className="bg-primary">Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(fixture => {
+            const { result } = fixture;
+            return (
+              <tr key={`${fixture.home}-${fixture.away}-${fixture.seed}`} className="hover text-sm">
+                <td className={result.winner === 0 ? "font-bold" : ""}>{bots[fixture.home].name}</td>
+                <td className={result.winner === 1 ? "font-bold" : ""}>{bots[fixture.away].name}</td>
+                <td className="text-end">
+                  {result.damageDealt[0]} - {result.damageDealt[1]}
+                </td>
+                <td className="text-end">
+                  {Math.round(result.health[0])}% - {Math.round(result.health[1])}%
+                </td>
+                <td className="text-end">{(result.ticks / TICK_RATE).toFixed(1)}s</td>
+                <td>{describeResult(bots, fixture)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import type { BotDefinition, Standing } from "@se-2/game-core";
+
+type StandingsTableProps = {
+  bots: BotDefinition[];
+  standings: Standing[];
+};
+
+export const StandingsTable = ({ bots, standings }: StandingsTableProps) => {
+  return (
+    <div className="overflow-x-auto w-full shadow-2xl rounded-xl">
+      <table className="table bg-base-100 table-zebra w-full table-sm">
+        <thead>
+          <tr className="text-sm text-base-content">
+            <th className="bg-primary">#</th>
+            <th className="bg-primary">Bot</th>
+            <th className="bg-primary text-end">P</th>
+            <th className="bg-primary text-end">W</th>
+            <th className="bg-primary text-end">D</th>
+            <th className="bg-primary text-end">L</th>
+            <th className="bg-primary text-end">Dealt</th>
+            <th className="bg-primary text-end">Taken</th>
+            <th className="bg-primary text-end">Pts</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((standing, rank) => (
+            <tr key={standing.bot} className="hover text-sm">
+              <td>{rank + 1}</td>
+              <td>
+                <span className="font-bold">{bots[standing.bot].name}</span>
+                {bots[standing.bot].author && (
+                  <span className="ml-2 text-xs opacity-60">{bots[standing.bot].author}</span>
+                )}
+              </td>
+              <td className="text-end">{standing.played}</td>
+              <td className="text-end">{standing.wins}</td>
+              <td className="text-end">{standing.draws}</td>
+              <td className="text-end">{standing.losses}</td>
+              <td className="text-end">{standing.damageDealt}</td>
+              <td className="text-end">{standing.damageTaken}</td>
+              <td className="text-end font-bold">{standing.points}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { BotArena } from "./_components/BotArena";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Bot Arena",
+  description: "Pit derby bots against each other in round-robin tournaments",
+});
+
+const Bots: NextPage = () => {
+  return (
+    <>
+      <BotArena />
+      <div className="text-center mt-8 bg-secondary p-10">
+        <h1 className="text-4xl my-0">Bot Arena</h1>
+        <p className="text-neutral">
+          Write a bot, register it and see how it ranks.
+          <br /> Check{" "}
+          <code className="italic bg-base-300 text-base font-bold [word-spacing:-0.5rem] px-1">
+            packages / nextjs / bots / rammer.ts
+          </code>{" "}
+        </p>
+      </div>
+    </>
+  );
+};
+
+export default Bots;
@@ -0,0 +1,429 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { TestDrive } from "./TestDrive";
+import { ToolPalette } from "./ToolPalette";
+import {
+  BUNDLED_ARENAS,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  MAX_ARENA_SIZE,
+  MIN_ARENA_SIZE,
+  type PropKind,
+  type SurfaceKind,
+  type Vec2,
+  generateArena,
+  loadArena,
+  parseArenaFile,
+  validateArenaFile,
+} from "@se-2/game-core";
+import {
+  type ArenaDraft,
+  DEFAULT_PILLAR_RADIUS,
+  type EditorTool,
+  GRID_SIZE,
+  MIN_PILLAR_RADIUS,
+  clampArenaSize,
+  createBlankArena,
+  describeArenaError,
+  findItemAt,
+  getArenaFileName,
+  getFacingCentre,
+  getRampFromDrag,
+  getRectanglePoints,
+  loadArenaDraft,
+  pushUndo,
+  removeItem,
+  saveArenaDraft,
+  snapToGrid,
+  toArenaFile,
+  toDraft,
+} from "~~/utils/derby/arenaEditor";
+import { drawArenaBounds, drawArenaFloor, drawArenaObstacles, drawBarrel, drawProps } from "~~/utils/derby/drawArena";
+import {
+  drawDragBox,
+  drawEraseMark,
+  drawGrid,
+  drawPillarGhost,
+  drawShapeInProgress,
+  drawSpawns,
+  isClosingPoint,
+} from "~~/utils/derby/drawEditor";
+
+const MIN_DRAG = 8; // Any shorter and a press counts as a click
+const EMPTY_TEMPLATE = "empty";
+const RANDOM_TEMPLATE = "random";
+
+// Tools that draw an outline, by dragging a box or clicking out the corners
+const isShapeTool = (tool: EditorTool) => tool === "wall" || tool === "prop" || tool === "surface";
+
+interface Drag {
+  start: Vec2;
+  current: Vec2;
+}
+
+/**
+ * Draw an arena on the canvas, check it as you go and drive it straight away. The draft is kept in this browser
+ * between visits; export it to share it or to add it to the game.
+ */
+export const ArenaEditor = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<ArenaDraft>(createBlankArena);
+  const [undoStack, setUndoStack] = useState<ArenaDraft[]>([]);
+  const [tool, setTool] = useState<EditorTool>("wall");
+  const [propKind, setPropKind] = useState<PropKind>("crate");
+  const [surfaceKind, setSurfaceKind] = useState<SurfaceKind>("mud");
+  const [pillarRadius, setPillarRadius] = useState(DEFAULT_PILLAR_RADIUS);
+  const [snap, setSnap] = useState(true);
+  const [shape, setShape] = useState<Vec2[]>([]);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [cursor, setCursor] = useState<Vec2 | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [driving, setDriving] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  const file = useMemo(() => toArenaFile(draft), [draft]);
+  const errors = useMemo(() => validateArenaFile(file), [file]);
+
+  // Pick up where the last visit left off, and keep every change once it's loaded
+  useEffect(() => {
+    setDraft(loadArenaDraft());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveArenaDraft(draft);
+  }, [draft, loaded]);
+
+  const edit = useCallback(
+    (next: ArenaDraft) => {
+      setUndoStack(pushUndo(undoStack, draft));
+      setDraft(next);
+    },
+    [draft, undoStack],
+  );
+
+  const undo = useCallback(() => {
+    if (shape.length > 0) {
+      setShape(shape.slice(0, -1));
+      return;
+    }
+    if (undoStack.length === 0) return;
+    setDraft(undoStack[undoStack.length - 1]);
+    setUndoStack(undoStack.slice(0, -1));
+  }, [shape, undoStack]);
+
+  const finishShape = useCallback(
+    (points: Vec2[]) => {
+      setShape([]);
+      if (points.length < 3) return;
+      if (tool === "wall") edit({ ...draft, walls: [...draft.walls, { points }] });
+      else if (tool === "prop") edit({ ...draft, props: [...draft.props, { kind: propKind, points }] });
+      else edit({ ...draft, surfaces: [...draft.surfaces, { kind: surfaceKind, points }] });
+    },
+    [draft, edit, propKind, surfaceKind, tool],
+  );
+
+  const changeTool = (next: EditorTool) => {
+    setTool(next);
+    setShape([]);
+  };
+
+  // Pointer position in canvas pixels, however big the canvas is drawn
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Vec2 => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+    return snap && tool !== "erase" ? snapToGrid(point) : point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    setDrag({ start: point, current: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    setCursor(point);
+    if (drag) setDrag({ ...drag, current: point });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    const end = toCanvasPoint(e);
+    const { start } = drag;
+    const dragged = Math.hypot(end.x - start.x, end.y - start.y) >= MIN_DRAG;
+    setDrag(null);
+
+    if (isShapeTool(tool)) {
+      if (shape.length === 0 && dragged) finishShape(getRectanglePoints(start, end));
+      else if (isClosingPoint(shape, end)) finishShape(shape);
+      else setShape([...shape, end]);
+    }
+    if (tool === "ramp" && dragged) edit({ ...draft, ramps: [...draft.ramps, getRampFromDrag(start, end)] });
+    if (tool === "pillar") {
+      const radius = dragged ? Math.max(MIN_PILLAR_RADIUS, Math.hypot(end.x - start.x, end.y - start.y)) : pillarRadius;
+      edit({ ...draft, pillars: [...draft.pillars, { ...start, radius: Math.round(radius) }] });
+    }
+    if (tool === "barrel") edit({ ...draft, barrels: [...draft.barrels, start] });
+    if (tool === "spawn") {
+      const angle = dragged ? Math.atan2(end.y - start.y, end.x - start.x) : getFacingCentre(start);
+      edit({ ...draft, spawns: [...draft.spawns, { ...start, angle: Math.round(angle * 1000) / 1000 }] });
+    }
+    if (tool === "erase") {
+      const item = findItemAt(draft, start);
+      if (item) edit(removeItem(draft, item));
+    }
+  };
+
+  // Shortcuts while editing. Test drive has its own keys.
+  useEffect(() => {
+    if (driving) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === "z" && (e.ctrlKey || e.metaKey)) {
+        undo();
+        e.preventDefault();
+      }
+      if (e.key === "Enter") finishShape(shape);
+      if (e.key === "Escape") setShape([]);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [driving, finishShape, shape, undo]);
+
+  // Redraw whenever anything on the canvas changes
+  useEffect(() => {
+    if (driving) return;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const layout = loadArena(file);
+
+    ctx.fillStyle = "#8B7355";
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    drawArenaFloor(ctx, layout.arena);
+    drawArenaBounds(ctx, layout.arena);
+    if (snap) drawGrid(ctx, layout.arena.bounds);
+    drawArenaObstacles(ctx, layout.arena);
+    drawProps(ctx, layout.props);
+    layout.barrels.forEach(barrel => drawBarrel(ctx, barrel));
+    drawSpawns(ctx, draft.spawns);
+
+    drawShapeInProgress(ctx, shape, cursor);
+    if (drag && ((shape.length === 0 && isShapeTool(tool)) || tool === "ramp")) {
+      drawDragBox(ctx, getRectanglePoints(drag.start, drag.current));
+    }
+    if (tool === "pillar" && cursor) {
+      const radius = drag
+        ? Math.max(MIN_PILLAR_RADIUS, Math.hypot(cursor.x - drag.start.x, cursor.y - drag.start.y))
+        : 0;
+      drawPillarGhost(ctx, { ...(drag?.start ?? cursor), radius: drag ? radius : pillarRadius });
+    }
+    if (tool === "spawn" && drag) {
+      const dragged = Math.hypot(drag.current.x - drag.start.x, drag.current.y - drag.start.y) >= MIN_DRAG;
+      const angle = dragged
+        ? Math.atan2(drag.current.y - drag.start.y, drag.current.x - drag.start.x)
+        : getFacingCentre(drag.start);
+      drawSpawns(ctx, [...draft.spawns, { ...drag.start, angle }]);
+    }
+    if (tool === "erase" && cursor && findItemAt(draft, cursor)) drawEraseMark(ctx, cursor);
+  }, [cursor, draft, drag, driving, file, pillarRadius, shape, snap, tool]);
+
+  const changeSize = (size: { width: number; height: number }) => edit({ ...draft, bounds: clampArenaSize(size) });
+
+  const startFrom = (name: string) => {
+    const template =
+      name === EMPTY_TEMPLATE
+        ? createBlankArena()
+        : name === RANDOM_TEMPLATE
+          ? generateArena(Math.floor(Math.random() * 0xffffffff))
+          : BUNDLED_ARENAS.find(arena => arena.name === name)!;
+    edit(toDraft(template));
+    setShape([]);
+    setImportErrors([]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = "";
+    if (!chosen) return;
+    const parsed = parseArenaFile(await chosen.text());
+    setImportErrors(parsed.errors.map(error => `${chosen.name}: ${describeArenaError(error)}`));
+    if (parsed.file) {
+      edit(toDraft(parsed.file));
+      setShape([]);
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getArenaFileName(draft.name);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exitTestDrive = useCallback(() => setDriving(false), []);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 px-4 lg:px-10 py-8 w-full max-w-7xl mx-auto">
+      <div className="flex-1 min-w-0">
+        {driving ? (
+          <TestDrive file={file} onExit={exitTestDrive} />
+        ) : (
+          <div className="flex flex-col gap-2">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="w-full h-auto rounded-xl border border-base-300 cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => setCursor(null)}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <button
+                className="btn btn-sm btn-ghost bg-base-200"
+                disabled={undoStack.length === 0 && shape.length === 0}
+                onClick={undo}
+              >
+                ↩️ Undo
+              </button>
+              {shape.length > 0 && (
+                <>
+                  <button className="btn btn-sm btn-ghost bg-base-200" onClick={() => finishShape(shape)}>
+                    Finish shape
+                  </button>
+                  <button className="btn btn-sm btn-ghost bg-base-200" onClick={() => setShape([])}>
+                    Cancel shape
+                  </button>
+                </>
+              )}
+              <span className="opacity-70">Ctrl+Z undoes, Enter finishes a shape and Esc drops it.</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4 lg:w-80 shrink-0">
+        <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-5 flex flex-col gap-3">
+          <label className="flex flex-col gap-1 text-sm">
+            Name
+            <input
+              className="input input-sm input-bordered"
+              value={draft.name}
+              disabled={driving}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+            />
+          </label>
+          <div className="flex gap-3">
+            <label className="flex flex-col gap-1 text-sm">
+              Width
+              <input
+                type="number"
+                className="input input-sm input-bordered w-24"
+                min={MIN_ARENA_SIZE.width}
+                max={MAX_ARENA_SIZE.width}
+                step={GRID_SIZE}
+                value={draft.bounds.width}
+                disabled={driving}
+                onChange={e => changeSize({ ...draft.bounds, width: Number(e.target.value) })}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              Height
+              <input
+                type="number"
+                className="input input-sm input-bordered w-24"
+                min={MIN_ARENA_SIZE.height}
+                max={MAX_ARENA_SIZE.height}
+                step={GRID_SIZE}
+                value={draft.bounds.height}
+                disabled={driving}
+                onChange={e => changeSize({ ...draft.bounds, height: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-sm">
+            Start from
+            <select
+              className="select select-sm select-bordered"
+              value=""
+              disabled={driving}
+              onChange={e => startFrom(e.target.value)}
+            >
+              <option value="" disabled>
+                Pick a template…
+              </option>
+              <option value={EMPTY_TEMPLATE}>Empty arena</option>
+              <option value={RANDOM_TEMPLATE}>Random arena</option>
+              {BUNDLED_ARENAS.map(arena => (
+                <option key={arena.name} value={arena.name}>
+                  {arena.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {!driving && (
+          <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-5">
+            <ToolPalette
+              tool={tool}
+              propKind={propKind}
+              surfaceKind={surfaceKind}
+              pillarRadius={pillarRadius}
+              snap={snap}
+              onToolChange={changeTool}
+              onPropKindChange={setPropKind}
+              onSurfaceKindChange={setSurfaceKind}
+              onPillarRadiusChange={setPillarRadius}
+              onSnapChange={setSnap}
+            />
+          </div>
+        )}
+
+        <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-5 flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="btn btn-primary btn-sm"
+              disabled={driving || errors.length > 0}
+              onClick={() => setDriving(true)}
+            >
+              🏁 Test drive
+            </button>
+            <button className="btn btn-sm btn-ghost bg-base-200" disabled={errors.length > 0} onClick={handleExport}>
+              Export
+            </button>
+            <button className="btn btn-sm btn-ghost bg-base-200" onClick={() => importRef.current?.click()}>
+              Import
+            </button>
+            <input ref={importRef} type="file" accept=".json,application/json" hidden onChange={handleImport} />
+          </div>
+          {errors.length === 0 ? (
+            <p className="text-sm text-success m-0">✅ Ready to drive and export</p>
+          ) : (
+            <ul className="text-sm text-error m-0 pl-4 list-disc">
+              {errors.map(error => (
+                <li key={error}>{describeArenaError(error)}</li>
+              ))}
+            </ul>
+          )}
+          {importErrors.length > 0 && (
+            <ul className="text-sm text-warning m-0 pl-4 list-disc">
+              {importErrors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import {
+  type AnalogInput,
+  type ArenaFile,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  PLAYER_ID,
+  TICK_MS,
+  type World,
+  createArenaWorld,
+  createDefaultCars,
+  createRingCars,
+  generateFloorPatches,
+  loadArena,
+  step,
+} from "@se-2/game-core";
+import {
+  drawArenaBounds,
+  drawArenaFloor,
+  drawArenaObstacles,
+  drawBall,
+  drawBarrel,
+  drawDebris,
+  drawFloorPatches,
+  drawProps,
+} from "~~/utils/derby/drawArena";
+import { drawCar } from "~~/utils/derby/drawCar";
+
+const TEST_DRIVE_SEED = 1;
+const MAX_FRAME_MS = 250;
+
+type TestDriveProps = {
+  file: ArenaFile;
+  onExit: () => void;
+};
+
+/**
+ * Drive the arena being edited with the real car physics. There's a parked car on every starting spot after the
+ * first to ram into, so you can see how the cars line up.
+ */
+export const TestDrive = ({ file, onExit }: TestDriveProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const inputRef = useRef<AnalogInput>({ forward: 0, reverse: 0, left: 0, right: 0 });
+  const layout = useMemo(() => loadArena(file), [file]);
+
+  useEffect(() => {
+    const createTestWorld = (): World =>
+      createArenaWorld(
+        TEST_DRIVE_SEED,
+        layout,
+        layout.spawns.length > 0 ? createRingCars(layout.spawns.length) : createDefaultCars(),
+      );
+    let world = createTestWorld();
+    const floorPatches = generateFloorPatches(TEST_DRIVE_SEED, world.arena.bounds);
+    let accumulator = 0;
+    let lastFrameTime: number | null = null;
+    let animationFrame = 0;
+
+    const render = () => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx) return;
+      ctx.fillStyle = "#8B7355";
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      drawFloorPatches(ctx, floorPatches);
+      drawArenaFloor(ctx, world.arena);
+      drawArenaBounds(ctx, world.arena);
+      drawArenaObstacles(ctx, world.arena);
+      drawProps(ctx, world.props);
+      drawDebris(ctx, world);
+      world.balls.forEach(ball => (ball.kind === "barrel" ? drawBarrel(ctx, ball) : drawBall(ctx, ball)));
+      // The player's car on top of the parked ones
+      [...world.cars].reverse().forEach(car => drawCar(ctx, car));
+    };
+
+    const loop = (time: number) => {
+      accumulator += Math.min(time - (lastFrameTime ?? time), MAX_FRAME_MS);
+      lastFrameTime = time;
+      while (accumulator >= TICK_MS) {
+        world = step(world, { [PLAYER_ID]: { ...inputRef.current } });
+        accumulator -= TICK_MS;
+      }
+      render();
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    const setKey = (key: string, value: number) => {
+      if (key === "ArrowUp" || key === "w") inputRef.current.forward = value;
+      if (key === "ArrowDown" || key === "s") inputRef.current.reverse = value;
+      if (key === "ArrowLeft" || key === "a") inputRef.current.left = value;
+      if (key === "ArrowRight" || key === "d") inputRef.current.right = value;
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onExit();
+      if (e.key === "r") world = createTestWorld();
+      setKey(e.key, 1);
+      if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight", " "].includes(e.key)) e.preventDefault();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => setKey(e.key, 0);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    animationFrame = requestAnimationFrame(loop);
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [layout, onExit]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="w-full h-auto rounded-xl border border-base-300"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <button className="btn btn-primary btn-sm" onClick={onExit}>
+          Back to editing
+        </button>
+        <span className="text-sm opacity-80">
+          Arrow keys or WASD to drive, R to start again, Esc to go back. Your car is the one on spot 1.
+        </span>
+      </div>
+    </div>
+  );
+};
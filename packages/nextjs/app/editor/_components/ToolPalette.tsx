@@ -0,0 +1,127 @@
+import { PROP_KINDS, type PropKind, SURFACE_KINDS, type SurfaceKind } from "@se-2/game-core";
+import { type EditorTool, MIN_PILLAR_RADIUS } from "~~/utils/derby/arenaEditor";
+
+const TOOLS: { tool: EditorTool; label: string; help: string }[] = [
+  {
+    tool: "wall",
+    label: "🧱 Wall",
+    help: "Drag out a box, or click corner by corner and click the first corner again to close it. Walls must bulge outwards everywhere - build an L out of two boxes.",
+  },
+  {
+    tool: "prop",
+    label: "💥 Breakable",
+    help: "Draw a crate, fence or weak bit of wall the same way as a wall. Cars can smash it to pieces.",
+  },
+  {
+    tool: "surface",
+    label: "🎨 Surface",
+    help: "Paint a patch of floor the same way as a wall: drag a box or click out its corners.",
+  },
+  {
+    tool: "ramp",
+    label: "🛫 Ramp",
+    help: "Drag out a box the way cars should drive up it. Hit the top fast enough and they fly.",
+  },
+  { tool: "pillar", label: "🪨 Pillar", help: "Click to drop a pillar, or drag out from its centre to size it." },
+  { tool: "barrel", label: "🛢️ Barrel", help: "Click to drop a barrel that cars can shove around." },
+  {
+    tool: "spawn",
+    label: "🚗 Start",
+    help: "Click to place a starting spot facing the middle, or drag the way the car should face. Spot 1 is yours.",
+  },
+  { tool: "erase", label: "🧽 Erase", help: "Click anything to remove it." },
+];
+
+type ToolPaletteProps = {
+  tool: EditorTool;
+  propKind: PropKind;
+  surfaceKind: SurfaceKind;
+  pillarRadius: number;
+  snap: boolean;
+  onToolChange: (tool: EditorTool) => void;
+  onPropKindChange: (kind: PropKind) => void;
+  onSurfaceKindChange: (kind: SurfaceKind) => void;
+  onPillarRadiusChange: (radius: number) => void;
+  onSnapChange: (snap: boolean) => void;
+};
+
+/**
+ * Buttons for the drawing tools, with a line on how to use the chosen one and any settings it has.
+ */
+export const ToolPalette = ({
+  tool,
+  propKind,
+  surfaceKind,
+  pillarRadius,
+  snap,
+  onToolChange,
+  onPropKindChange,
+  onSurfaceKindChange,
+  onPillarRadiusChange,
+  onSnapChange,
+}: ToolPaletteProps) => (
+  <div className="flex flex-col gap-3">
+    <div className="grid grid-cols-3 gap-1">
+      {TOOLS.map(option => (
+        <button
+          key={option.tool}
+          className={`btn btn-sm ${option.tool === tool ? "btn-primary" : "btn-ghost bg-base-200"}`}
+          onClick={() => onToolChange(option.tool)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <p className="text-sm m-0 opacity-80">{TOOLS.find(option => option.tool === tool)?.help}</p>
+
+    {tool === "prop" && (
+      <div className="flex flex-wrap gap-1">
+        {PROP_KINDS.map(kind => (
+          <button
+            key={kind}
+            className={`btn btn-xs capitalize ${kind === propKind ? "btn-secondary" : "btn-ghost bg-base-200"}`}
+            onClick={() => onPropKindChange(kind)}
+          >
+            {kind}
+          </button>
+        ))}
+      </div>
+    )}
+    {tool === "surface" && (
+      <div className="flex flex-wrap gap-1">
+        {SURFACE_KINDS.map(kind => (
+          <button
+            key={kind}
+            className={`btn btn-xs capitalize ${kind === surfaceKind ? "btn-secondary" : "btn-ghost bg-base-200"}`}
+            onClick={() => onSurfaceKindChange(kind)}
+          >
+            {kind}
+          </button>
+        ))}
+      </div>
+    )}
+    {tool === "pillar" && (
+      <label className="flex items-center gap-2 text-sm">
+        Size
+        <input
+          type="range"
+          min={MIN_PILLAR_RADIUS}
+          max={80}
+          value={pillarRadius}
+          className="range range-xs"
+          onChange={e => onPillarRadiusChange(Number(e.target.value))}
+        />
+      </label>
+    )}
+
+    <label className="flex items-center gap-2 text-sm cursor-pointer">
+      <input
+        type="checkbox"
+        className="checkbox checkbox-sm"
+        checked={snap}
+        onChange={e => onSnapChange(e.target.checked)}
+      />
+      Snap to grid
+    </label>
+  </div>
+);
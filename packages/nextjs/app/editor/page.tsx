@@ -0,0 +1,14 @@
+import { ArenaEditor } from "./_components/ArenaEditor";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Arena Editor",
+  description: "Draw derby arenas, test-drive them and share them as files",
+});
+
+const Editor: NextPage = () => {
+  return <ArenaEditor />;
+};
+
+export default Editor;
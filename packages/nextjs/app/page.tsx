@@ -1,9 +1,101 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type AnalogInput,
+  BUNDLED_ARENAS,
+  type Ball,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  type Car,
+  type Circle,
+  type Controller,
+  DEFAULT_DERBY_OPTIONS,
+  DEFAULT_MATCH_SETTINGS,
+  MAX_SPEED,
+  type MatchPhase,
+  type MatchState,
+  PLAYER_ID,
+  TICK_MS,
+  TICK_RATE,
+  type World,
+  createInputController,
+  createMatch,
+  createScoreState,
+  createWorld,
+  formatArenaCode,
+  generateFloorPatches,
+  getCar,
+  getControllerInputs,
+  getHandling,
+  getRoundSeed,
+  getSlipSpeed,
+  getSpeed,
+  isDriving,
+  isSimulating,
+  returnToLobby,
+  startMatch,
+  startScoreRound,
+  step,
+  updateMatch,
+  updatePowerUps,
+  updateScores,
+} from "@se-2/game-core";
 import type { NextPage } from "next";
 import { Joystick } from "react-joystick-component";
 import type { IJoystickUpdateEvent } from "react-joystick-component/build/lib/Joystick";
+import { AudioControls } from "~~/components/derby/AudioControls";
+import { MatchMenu } from "~~/components/derby/MatchMenu";
+import {
+  type AudioVolumes,
+  DEFAULT_AUDIO_VOLUMES,
+  createDerbyAudio,
+  loadAudioVolumes,
+  saveAudioVolumes,
+} from "~~/utils/derby/audio";
+import {
+  drawArenaBounds,
+  drawArenaFloor,
+  drawArenaObstacles,
+  drawBall,
+  drawBarrel,
+  drawDebris,
+  drawFloorPatches,
+  drawOilSlicks,
+  drawProps,
+} from "~~/utils/derby/drawArena";
+import { drawCar } from "~~/utils/derby/drawCar";
+import { drawMatchOverlay, formatOrdinal, getCarLabel, getPlayerPlacement } from "~~/utils/derby/drawMatchOverlay";
+import {
+  PICKUP_FLASH_TICKS,
+  type PickupFlash,
+  drawCarEffects,
+  drawEffectIcons,
+  drawPickupFlashes,
+  drawPowerUpPickups,
+} from "~~/utils/derby/drawPowerUps";
+import {
+  SCORE_POPUP_TICKS,
+  type ScorePopup,
+  drawScoreBreakdown,
+  drawScorePopups,
+  drawScoreTicker,
+} from "~~/utils/derby/drawScoring";
+import {
+  type GameSettings,
+  type ModeState,
+  createRound,
+  drawModeFloor,
+  drawModeHud,
+  getModeConfig,
+  getModeRules,
+  getModeSummary,
+  getPowerUpRules,
+  isModePaused,
+  isTeamMode,
+  recordModeResult,
+  updateMode,
+} from "~~/utils/derby/gameModes";
 
 // Haptic queue for iOS (Safari requires user gesture to trigger haptics)
 let pendingHaptic: "light" | "medium" | "heavy" | null = null;
@@ -58,56 +150,12 @@ const firePendingHaptic = () => {
   pendingHaptic = null;
 };
 
-// Constants
-const CANVAS_WIDTH = 900;
-const CANVAS_HEIGHT = 600;
-const CAR_WIDTH = 50;
-const CAR_HEIGHT = 30;
-const WALL_THICKNESS = 20;
-
-// Physics constants
-const ACCELERATION = 0.15;
-const BRAKE_DECEL = 0.1;
-const MAX_SPEED = 8;
-const TURN_RATE = 0.025;
-const FORWARD_FRICTION = 0.98;
-const SIDEWAYS_FRICTION = 0.85;
-const ANGULAR_FRICTION = 0.85;
-const BOUNCE_FACTOR = 0.5;
-const COLLISION_DAMPING = 0.7;
-const MIN_SPEED_TO_TURN = 0.5;
-
-// Damage constants
-const DAMAGE_MULTIPLIER = 3;
-const MIN_IMPACT_FOR_DAMAGE = 2;
-const ATTACKER_DAMAGE_RATIO = 0.15; // Attacker takes only 15% of the damage they deal
-
-interface Car {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  angle: number;
-  angularVel: number;
-  width: number;
-  height: number;
-  color: string;
-  health: {
-    front: number;
-    rear: number;
-    left: number;
-    right: number;
-  };
-  isStatic: boolean;
-}
+const MAX_FRAME_MS = 250; // Clamp long frames (e.g. background tab) so we don't spiral trying to catch up
+const DEFAULT_SEED = 1337; // For the world shown before the first match and the first random arena code
 
-// Analog input values (0 to 1 for intensity)
-interface AnalogInput {
-  forward: number; // 0 to 1
-  reverse: number; // 0 to 1
-  left: number; // 0 to 1
-  right: number; // 0 to 1
-}
+// A fresh seed for every match so no two play out the same. Small enough that every round seed made from it by
+// `getRoundSeed` still fits the 32-bit generator.
+const createMatchSeed = () => Math.floor(Math.random() * 0x400000);
 
 interface DamagePopup {
   x: number;
@@ -117,79 +165,63 @@ interface DamagePopup {
   age: number;
 }
 
-const createCar = (x: number, y: number, color: string, angle = 0, isStatic = false): Car => ({
-  x,
-  y,
-  vx: 0,
-  vy: 0,
-  angle,
-  angularVel: 0,
-  width: CAR_WIDTH,
-  height: CAR_HEIGHT,
-  color,
-  health: { front: 100, rear: 100, left: 100, right: 100 },
-  isStatic,
-});
-
-// Get the car's corner points for collision detection
-const getCarCorners = (car: Car): { x: number; y: number }[] => {
-  const cos = Math.cos(car.angle);
-  const sin = Math.sin(car.angle);
-  const hw = car.width / 2;
-  const hh = car.height / 2;
-
-  return [
-    { x: car.x + cos * hw - sin * hh, y: car.y + sin * hw + cos * hh },
-    { x: car.x + cos * hw + sin * hh, y: car.y + sin * hw - cos * hh },
-    { x: car.x - cos * hw + sin * hh, y: car.y - sin * hw - cos * hh },
-    { x: car.x - cos * hw - sin * hh, y: car.y - sin * hw + cos * hh },
-  ];
-};
-
-// Get which zone of the car was hit based on collision angle
-const getHitZone = (car: Car, collisionAngle: number): "front" | "rear" | "left" | "right" => {
-  let relativeAngle = collisionAngle - car.angle;
-
-  while (relativeAngle > Math.PI) relativeAngle -= 2 * Math.PI;
-  while (relativeAngle < -Math.PI) relativeAngle += 2 * Math.PI;
-
-  if (relativeAngle >= -Math.PI / 4 && relativeAngle < Math.PI / 4) {
-    return "front";
-  } else if (relativeAngle >= Math.PI / 4 && relativeAngle < (3 * Math.PI) / 4) {
-    return "right";
-  } else if (relativeAngle >= (-3 * Math.PI) / 4 && relativeAngle < -Math.PI / 4) {
-    return "left";
-  } else {
-    return "rear";
-  }
-};
-
-// Simple circle collision check
-const checkCarCollision = (car1: Car, car2: Car): boolean => {
-  const dx = car2.x - car1.x;
-  const dy = car2.y - car1.y;
-  const distance = Math.sqrt(dx * dx + dy * dy);
-  const minDistance = ((car1.width + car2.width) / 2) * 0.85;
-  return distance < minDistance;
+// Blend between the previous and current tick so motion stays smooth at any refresh rate
+const interpolateCar = (car: Car, prev: Car, alpha: number): Car => {
+  let angleDelta = car.angle - prev.angle;
+  while (angleDelta > Math.PI) angleDelta -= 2 * Math.PI;
+  while (angleDelta < -Math.PI) angleDelta += 2 * Math.PI;
+
+  return {
+    ...car,
+    x: prev.x + (car.x - prev.x) * alpha,
+    y: prev.y + (car.y - prev.y) * alpha,
+    angle: prev.angle + angleDelta * alpha,
+  };
 };
 
-// Calculate total health percentage
-const getTotalHealth = (car: Car): number => {
-  const { front, rear, left, right } = car.health;
-  return (front + rear + left + right) / 4;
-};
+const interpolateBall = (ball: Ball, prev: Ball, alpha: number): Ball => ({
+  ...ball,
+  x: prev.x + (ball.x - prev.x) * alpha,
+  y: prev.y + (ball.y - prev.y) * alpha,
+  angle: prev.angle + (ball.angle - prev.angle) * alpha,
+});
 
 const Home: NextPage = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const playerCarRef = useRef<Car>(createCar(200, CANVAS_HEIGHT / 2, "#e74c3c", 0));
-  const targetCarRef = useRef<Car>(createCar(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, "#3498db", Math.PI / 4, false));
+  const worldRef = useRef<World>(createWorld(DEFAULT_SEED));
+  const prevWorldRef = useRef<World>(worldRef.current);
+  const floorPatchesRef = useRef<Circle[]>(generateFloorPatches(DEFAULT_SEED, worldRef.current.arena.bounds));
   const inputRef = useRef<AnalogInput>({ forward: 0, reverse: 0, left: 0, right: 0 });
+  const [menuSettings, setMenuSettings] = useState<GameSettings>({
+    mode: "duel",
+    difficulty: "normal",
+    opponents: DEFAULT_DERBY_OPTIONS.opponents,
+    opponentKind: "ai",
+    bestOf: DEFAULT_MATCH_SETTINGS.bestOf,
+    roundSeconds: DEFAULT_MATCH_SETTINGS.roundTicks / TICK_RATE,
+    arena: BUNDLED_ARENAS[0].name,
+    arenaCode: formatArenaCode(DEFAULT_SEED),
+  });
+  const matchRef = useRef<MatchState>(createMatch());
+  const modeRef = useRef<ModeState>({ id: "duel" });
+  const [matchPhase, setMatchPhase] = useState<MatchPhase>("lobby");
+  // Every car is driven through a Controller - the keyboard and joystick just write the player's input
+  const playerControllerRef = useRef(createInputController(() => inputRef.current));
+  const controllersRef = useRef<Record<number, Controller>>({ [PLAYER_ID]: playerControllerRef.current });
+  // Car the HUD follows once the player is out
+  const spectateIdRef = useRef<number | null>(null);
   const animationFrameRef = useRef<number>(0);
   const damagePopupsRef = useRef<DamagePopup[]>([]);
+  // Points for the whole match, and callouts for the player's scoring hits
+  const scoresRef = useRef(createScoreState());
+  const scorePopupsRef = useRef<ScorePopup[]>([]);
+  const pickupFlashesRef = useRef<PickupFlash[]>([]);
+  const audioRef = useRef(createDerbyAudio());
+  const [audioVolumes, setAudioVolumes] = useState<AudioVolumes>(DEFAULT_AUDIO_VOLUMES);
   const [, setSpeed] = useState(0);
   const [, setPlayerHealth] = useState({ front: 100, rear: 100, left: 100, right: 100 });
-  const [, setTargetHealth] = useState({ front: 100, rear: 100, left: 100, right: 100 });
-  const lastCollisionRef = useRef(0);
+  const accumulatorRef = useRef(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
   const [isMobile, setIsMobile] = useState(false);
   const [hapticsEnabled, setHapticsEnabled] = useState(false);
 
@@ -243,313 +275,153 @@ const Home: NextPage = () => {
     inputRef.current.right = 0;
   }, []);
 
-  // Handle car-to-car collision
-  const handleCarCollision = useCallback((playerCar: Car, targetCar: Car) => {
-    const dx = targetCar.x - playerCar.x;
-    const dy = targetCar.y - playerCar.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    const minDist = ((playerCar.width + targetCar.width) / 2) * 0.85;
-
-    if (distance >= minDist || distance === 0) return;
-
-    const nx = dx / distance;
-    const ny = dy / distance;
-
-    // Separate cars
-    const overlap = minDist - distance;
-    const separationForce = overlap + 2;
-
-    playerCar.x -= nx * separationForce * 0.6;
-    playerCar.y -= ny * separationForce * 0.6;
-    targetCar.x += nx * separationForce * 0.4;
-    targetCar.y += ny * separationForce * 0.4;
-
-    const relVx = playerCar.vx - targetCar.vx;
-    const relVy = playerCar.vy - targetCar.vy;
-    const impactSpeed = Math.abs(relVx * nx + relVy * ny);
-
-    const bounce = 0.7;
-    const impactComponent = relVx * nx + relVy * ny;
-
-    if (impactComponent > 0) {
-      playerCar.vx -= nx * impactComponent * bounce;
-      playerCar.vy -= ny * impactComponent * bounce;
-      targetCar.vx += nx * impactComponent * bounce * 0.8;
-      targetCar.vy += ny * impactComponent * bounce * 0.8;
-    } else {
-      playerCar.vx -= nx * impactComponent * bounce * 0.8;
-      playerCar.vy -= ny * impactComponent * bounce * 0.8;
-      targetCar.vx += nx * impactComponent * bounce;
-      targetCar.vy += ny * impactComponent * bounce;
-    }
-
-    playerCar.angularVel += (Math.random() - 0.5) * 0.1;
-    targetCar.angularVel += (Math.random() - 0.5) * 0.12;
-
-    const now = Date.now();
-    if (now - lastCollisionRef.current < 150) return;
-
-    if (impactSpeed > MIN_IMPACT_FOR_DAMAGE) {
-      const collisionAngle = Math.atan2(dy, dx);
-      const playerHitZone = getHitZone(playerCar, collisionAngle); // Player's side facing target
-      const targetHitZone = getHitZone(targetCar, collisionAngle + Math.PI); // Target's side facing player
-
-      const damage = Math.round((impactSpeed - MIN_IMPACT_FOR_DAMAGE) * DAMAGE_MULTIPLIER);
-
-      // Queue haptic feedback based on impact intensity (fired on next user touch)
-      const hapticIntensity = damage > 15 ? "heavy" : damage > 8 ? "medium" : "light";
-      queueHaptic(hapticIntensity);
-
-      // Attacker takes much less damage
-      playerCar.health[playerHitZone] = Math.max(0, playerCar.health[playerHitZone] - damage * ATTACKER_DAMAGE_RATIO);
-      targetCar.health[targetHitZone] = Math.max(0, targetCar.health[targetHitZone] - damage);
-
-      damagePopupsRef.current.push({
-        x: (playerCar.x + targetCar.x) / 2,
-        y: (playerCar.y + targetCar.y) / 2 - 20,
-        damage,
-        zone: targetHitZone,
-        age: 0,
-      });
+  // Move the match on and react to what changed: each new round gets a fresh arena and a fresh AI
+  const applyMatch = useCallback(
+    (match: MatchState) => {
+      matchRef.current = match;
+      setMatchPhase(match.phase);
+
+      for (const event of match.events) {
+        if (event.type === "roundCountdown") {
+          const round = createRound(menuSettings, getRoundSeed(match), modeRef);
+          modeRef.current = round.mode;
+          worldRef.current = round.world;
+          prevWorldRef.current = round.world;
+          floorPatchesRef.current = generateFloorPatches(getRoundSeed(match), round.world.arena.bounds);
+          controllersRef.current = { ...round.controllers, [PLAYER_ID]: playerControllerRef.current };
+          spectateIdRef.current = null;
+          damagePopupsRef.current = [];
+          scorePopupsRef.current = [];
+          pickupFlashesRef.current = [];
+          scoresRef.current = event.round === 1 ? createScoreState() : startScoreRound(scoresRef.current);
+        }
+        if (event.type === "roundOver") modeRef.current = recordModeResult(modeRef.current);
+        if (event.type === "roundOver" && event.winnerId !== null) {
+          queueHaptic(event.winnerId === PLAYER_ID ? "medium" : "heavy");
+        }
+      }
+    },
+    [menuSettings],
+  );
 
-      lastCollisionRef.current = now;
-    }
+  // Cycle the spectator camera through the cars still running
+  const spectateNext = useCallback(() => {
+    const world = worldRef.current;
+    if (!getCar(world, PLAYER_ID)?.wrecked) return;
+    const running = world.cars.filter(car => !car.wrecked);
+    if (running.length === 0) return;
+    const current = running.findIndex(car => car.id === spectateIdRef.current);
+    spectateIdRef.current = running[(current + 1) % running.length].id;
   }, []);
 
-  // Update car physics
-  const updatePhysics = useCallback(() => {
-    const car = playerCarRef.current;
-    const targetCar = targetCarRef.current;
-    const input = inputRef.current;
+  const handleStartMatch = useCallback(() => {
+    const bestOf = getModeConfig(menuSettings.mode).singleRun ? 1 : menuSettings.bestOf;
+    const settings = { bestOf, roundTicks: menuSettings.roundSeconds * TICK_RATE };
+    applyMatch(startMatch(createMatch(settings, createMatchSeed())));
+  }, [applyMatch, menuSettings]);
 
-    const currentSpeed = Math.sqrt(car.vx * car.vx + car.vy * car.vy);
+  const handleLobby = useCallback(() => applyMatch(returnToLobby(matchRef.current)), [applyMatch]);
 
-    const steeringFactor =
-      currentSpeed < MIN_SPEED_TO_TURN ? (currentSpeed / MIN_SPEED_TO_TURN) * 0.3 : Math.min(1, currentSpeed / 3);
-
-    // Analog steering - intensity scales the turn rate
-    if (input.left > 0) car.angularVel -= TURN_RATE * steeringFactor * input.left;
-    if (input.right > 0) car.angularVel += TURN_RATE * steeringFactor * input.right;
-
-    const MAX_ANGULAR_VEL = 0.08;
-    car.angularVel = Math.max(-MAX_ANGULAR_VEL, Math.min(MAX_ANGULAR_VEL, car.angularVel));
-
-    car.angularVel *= ANGULAR_FRICTION;
-    car.angle += car.angularVel;
-
-    const forwardX = Math.cos(car.angle);
-    const forwardY = Math.sin(car.angle);
-
-    // Analog acceleration - intensity scales the acceleration
-    if (input.forward > 0) {
-      car.vx += forwardX * ACCELERATION * input.forward;
-      car.vy += forwardY * ACCELERATION * input.forward;
-    }
-    if (input.reverse > 0) {
-      const forwardSpeed = car.vx * forwardX + car.vy * forwardY;
-      if (forwardSpeed > 0.5) {
-        car.vx -= forwardX * BRAKE_DECEL * input.reverse;
-        car.vy -= forwardY * BRAKE_DECEL * input.reverse;
-      } else {
-        car.vx -= forwardX * ACCELERATION * 0.5 * input.reverse;
-        car.vy -= forwardY * ACCELERATION * 0.5 * input.reverse;
+  // Advance the simulation by exactly one fixed tick
+  const updatePhysics = useCallback(() => {
+    const match = matchRef.current;
+    prevWorldRef.current = worldRef.current;
+    // Cars sit still for the countdown and roll without drivers once the round is decided
+    if (isSimulating(match)) {
+      const driving = isDriving(match) && !isModePaused(modeRef.current, worldRef.current);
+      const inputs = driving ? getControllerInputs(worldRef.current, controllersRef.current) : {};
+      worldRef.current = step(worldRef.current, inputs);
+      if (isDriving(match)) {
+        const updated = updateMode(modeRef.current, worldRef.current);
+        modeRef.current = updated.mode;
+        worldRef.current = updatePowerUps(getPowerUpRules(updated.mode.id), updated.world);
+        scoresRef.current = updateScores(scoresRef.current, worldRef.current);
+        for (const callout of scoresRef.current.callouts) {
+          if (callout.carId === PLAYER_ID)
+            scorePopupsRef.current.push({ x: callout.x, y: callout.y - 40, callout, age: 0 });
+        }
       }
+    } else {
+      worldRef.current = { ...worldRef.current, events: [] };
     }
+    const world = worldRef.current;
+    const playerCar = getCar(world, PLAYER_ID);
 
-    const rightX = -forwardY;
-    const rightY = forwardX;
-
-    const forwardVel = car.vx * forwardX + car.vy * forwardY;
-    const sidewaysVel = car.vx * rightX + car.vy * rightY;
-
-    const newForwardVel = forwardVel * FORWARD_FRICTION;
-    const newSidewaysVel = sidewaysVel * SIDEWAYS_FRICTION;
-
-    car.vx = forwardX * newForwardVel + rightX * newSidewaysVel;
-    car.vy = forwardY * newForwardVel + rightY * newSidewaysVel;
-
-    const newSpeed = Math.sqrt(car.vx * car.vx + car.vy * car.vy);
-    if (newSpeed > MAX_SPEED) {
-      car.vx = (car.vx / newSpeed) * MAX_SPEED;
-      car.vy = (car.vy / newSpeed) * MAX_SPEED;
+    // Spectate after death: follow someone still running, moving on when they're wrecked too
+    if (playerCar?.wrecked && isDriving(match)) {
+      const spectated = getCar(world, spectateIdRef.current ?? -1);
+      if (!spectated || spectated.wrecked) spectateIdRef.current = world.cars.find(car => !car.wrecked)?.id ?? null;
     }
 
-    car.x += car.vx;
-    car.y += car.vy;
-
-    // Target car physics
-    const targetForwardX = Math.cos(targetCar.angle);
-    const targetForwardY = Math.sin(targetCar.angle);
-    const targetRightX = -targetForwardY;
-    const targetRightY = targetForwardX;
-
-    const targetForwardVel = targetCar.vx * targetForwardX + targetCar.vy * targetForwardY;
-    const targetSidewaysVel = targetCar.vx * targetRightX + targetCar.vy * targetRightY;
-
-    const targetNewForwardVel = targetForwardVel * 0.96;
-    const targetNewSidewaysVel = targetSidewaysVel * 0.9;
-
-    targetCar.vx = targetForwardX * targetNewForwardVel + targetRightX * targetNewSidewaysVel;
-    targetCar.vy = targetForwardY * targetNewForwardVel + targetRightY * targetNewSidewaysVel;
-
-    targetCar.angularVel *= 0.92;
-    targetCar.angle += targetCar.angularVel;
-
-    targetCar.x += targetCar.vx;
-    targetCar.y += targetCar.vy;
-
-    if (checkCarCollision(car, targetCar)) {
-      handleCarCollision(car, targetCar);
+    const nextMatch = updateMatch(match, world, getModeRules(modeRef.current));
+    if (nextMatch.phase !== match.phase || nextMatch.events.length > 0) {
+      applyMatch(nextMatch);
+    } else {
+      matchRef.current = nextMatch;
     }
 
-    // Wall collisions for player
-    const corners = getCarCorners(car);
-    let collided = false;
-
-    for (const corner of corners) {
-      if (corner.x < WALL_THICKNESS) {
-        car.x += WALL_THICKNESS - corner.x;
-        car.vx = Math.abs(car.vx) * BOUNCE_FACTOR;
-        car.vx *= COLLISION_DAMPING;
-        car.vy *= COLLISION_DAMPING;
-        collided = true;
-      }
-      if (corner.x > CANVAS_WIDTH - WALL_THICKNESS) {
-        car.x -= corner.x - (CANVAS_WIDTH - WALL_THICKNESS);
-        car.vx = -Math.abs(car.vx) * BOUNCE_FACTOR;
-        car.vx *= COLLISION_DAMPING;
-        car.vy *= COLLISION_DAMPING;
-        collided = true;
+    // Engine and tyres follow the player's car, falling quiet once it's out or the match is over
+    const audio = audioRef.current;
+    const engineRunning = !!playerCar && !playerCar.wrecked && match.phase !== "lobby" && match.phase !== "results";
+    const throttle = isDriving(match) ? Math.max(inputRef.current.forward, inputRef.current.reverse) : 0;
+    audio.updateEngine(playerCar ? getSpeed(playerCar) : 0, throttle, engineRunning);
+    audio.updateScreech(playerCar && engineRunning ? getSlipSpeed(playerCar) : 0);
+
+    for (const event of world.events) {
+      if (event.type === "wallHit") {
+        audio.playThump(event.impactSpeed);
+        continue;
       }
-      if (corner.y < WALL_THICKNESS) {
-        car.y += WALL_THICKNESS - corner.y;
-        car.vy = Math.abs(car.vy) * BOUNCE_FACTOR;
-        car.vx *= COLLISION_DAMPING;
-        car.vy *= COLLISION_DAMPING;
-        collided = true;
+      if (event.type === "fellOff") {
+        if (event.carId === PLAYER_ID) queueHaptic("heavy");
+        continue;
       }
-      if (corner.y > CANVAS_HEIGHT - WALL_THICKNESS) {
-        car.y -= corner.y - (CANVAS_HEIGHT - WALL_THICKNESS);
-        car.vy = -Math.abs(car.vy) * BOUNCE_FACTOR;
-        car.vx *= COLLISION_DAMPING;
-        car.vy *= COLLISION_DAMPING;
-        collided = true;
-      }
-    }
-
-    if (collided) car.angularVel += (Math.random() - 0.5) * 0.1;
-
-    // Wall collisions for target
-    const targetCorners = getCarCorners(targetCar);
-    let targetCollided = false;
-
-    for (const corner of targetCorners) {
-      if (corner.x < WALL_THICKNESS) {
-        targetCar.x += WALL_THICKNESS - corner.x;
-        targetCar.vx = Math.abs(targetCar.vx) * BOUNCE_FACTOR;
-        targetCar.vx *= COLLISION_DAMPING;
-        targetCar.vy *= COLLISION_DAMPING;
-        targetCollided = true;
+      if (event.type === "wrecked") {
+        if (event.carId === PLAYER_ID || event.byId === PLAYER_ID) queueHaptic("heavy");
+        continue;
       }
-      if (corner.x > CANVAS_WIDTH - WALL_THICKNESS) {
-        targetCar.x -= corner.x - (CANVAS_WIDTH - WALL_THICKNESS);
-        targetCar.vx = -Math.abs(targetCar.vx) * BOUNCE_FACTOR;
-        targetCar.vx *= COLLISION_DAMPING;
-        targetCar.vy *= COLLISION_DAMPING;
-        targetCollided = true;
+      if (event.type === "propBroken") {
+        if (event.carId === PLAYER_ID) queueHaptic("medium");
+        audio.playSmash(event.kind);
+        continue;
       }
-      if (corner.y < WALL_THICKNESS) {
-        targetCar.y += WALL_THICKNESS - corner.y;
-        targetCar.vy = Math.abs(targetCar.vy) * BOUNCE_FACTOR;
-        targetCar.vx *= COLLISION_DAMPING;
-        targetCar.vy *= COLLISION_DAMPING;
-        targetCollided = true;
+      if (event.type === "powerUp") {
+        if (event.carId === PLAYER_ID) queueHaptic("light");
+        pickupFlashesRef.current.push({ x: event.x, y: event.y, kind: event.kind, age: 0 });
+        continue;
       }
-      if (corner.y > CANVAS_HEIGHT - WALL_THICKNESS) {
-        targetCar.y -= corner.y - (CANVAS_HEIGHT - WALL_THICKNESS);
-        targetCar.vy = -Math.abs(targetCar.vy) * BOUNCE_FACTOR;
-        targetCar.vx *= COLLISION_DAMPING;
-        targetCar.vy *= COLLISION_DAMPING;
-        targetCollided = true;
+
+      // Queue haptic feedback based on impact intensity (fired on next user touch)
+      if (event.attackerId === PLAYER_ID || event.victimId === PLAYER_ID) {
+        const hapticIntensity = event.damage > 15 ? "heavy" : event.damage > 8 ? "medium" : "light";
+        queueHaptic(hapticIntensity);
       }
-    }
 
-    if (targetCollided) targetCar.angularVel += (Math.random() - 0.5) * 0.08;
+      audio.playCrash(event.damage);
+      damagePopupsRef.current.push({
+        x: event.x,
+        y: event.y - 20,
+        damage: event.damage,
+        zone: event.victimZone,
+        age: 0,
+      });
+    }
 
     damagePopupsRef.current = damagePopupsRef.current
       .map(p => ({ ...p, age: p.age + 1, y: p.y - 1 }))
       .filter(p => p.age < 60);
-
-    setSpeed(Math.round(newSpeed * 10) / 10);
-    setPlayerHealth({ ...car.health });
-    setTargetHealth({ ...targetCar.health });
-  }, [handleCarCollision]);
-
-  // Draw a single car
-  const drawCar = useCallback((ctx: CanvasRenderingContext2D, car: Car) => {
-    ctx.save();
-    ctx.translate(car.x, car.y);
-    ctx.rotate(car.angle);
-
-    ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
-    ctx.fillRect(-car.width / 2 + 3, -car.height / 2 + 3, car.width, car.height);
-
-    const healthPercent = getTotalHealth(car) / 100;
-    const r = parseInt(car.color.slice(1, 3), 16);
-    const g = parseInt(car.color.slice(3, 5), 16);
-    const b = parseInt(car.color.slice(5, 7), 16);
-
-    const darkenFactor = 0.3 + healthPercent * 0.7;
-    ctx.fillStyle = `rgb(${Math.round(r * darkenFactor)}, ${Math.round(g * darkenFactor)}, ${Math.round(b * darkenFactor)})`;
-    ctx.fillRect(-car.width / 2, -car.height / 2, car.width, car.height);
-
-    const drawDamageZone = (x: number, y: number, w: number, h: number, health: number) => {
-      if (health < 100) {
-        const damageIntensity = 1 - health / 100;
-        ctx.fillStyle = `rgba(0, 0, 0, ${damageIntensity * 0.5})`;
-        ctx.fillRect(x, y, w, h);
-
-        if (health < 70) {
-          ctx.strokeStyle = `rgba(50, 50, 50, ${damageIntensity})`;
-          ctx.lineWidth = 1;
-          ctx.beginPath();
-          ctx.moveTo(x + w * 0.2, y + h * 0.3);
-          ctx.lineTo(x + w * 0.8, y + h * 0.7);
-          ctx.stroke();
-        }
-        if (health < 40) {
-          ctx.beginPath();
-          ctx.moveTo(x + w * 0.7, y + h * 0.2);
-          ctx.lineTo(x + w * 0.3, y + h * 0.8);
-          ctx.stroke();
-        }
-      }
-    };
-
-    const hw = car.width / 2;
-    const hh = car.height / 2;
-    drawDamageZone(hw - 12, -hh, 12, car.height, car.health.front);
-    drawDamageZone(-hw, -hh, 12, car.height, car.health.rear);
-    drawDamageZone(-hw, -hh, car.width, 8, car.health.left);
-    drawDamageZone(-hw, hh - 8, car.width, 8, car.health.right);
-
-    ctx.strokeStyle = "#2c3e50";
-    ctx.lineWidth = 2;
-    ctx.strokeRect(-car.width / 2, -car.height / 2, car.width, car.height);
-
-    ctx.fillStyle = car.health.front > 30 ? "#3498db" : "#e74c3c";
-    ctx.fillRect(car.width / 2 - 10, -car.height / 2 + 4, 8, car.height - 8);
-
-    ctx.fillStyle = "#2c3e50";
-    const wheelWidth = 8;
-    const wheelHeight = 5;
-    ctx.fillRect(car.width / 4 - wheelWidth / 2, -car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
-    ctx.fillRect(car.width / 4 - wheelWidth / 2, car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
-    ctx.fillRect(-car.width / 4 - wheelWidth / 2, -car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
-    ctx.fillRect(-car.width / 4 - wheelWidth / 2, car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
-
-    ctx.restore();
-  }, []);
+    scorePopupsRef.current = scorePopupsRef.current
+      .map(p => ({ ...p, age: p.age + 1, y: p.y - 0.6 }))
+      .filter(p => p.age < SCORE_POPUP_TICKS);
+    pickupFlashesRef.current = pickupFlashesRef.current
+      .map(flash => ({ ...flash, age: flash.age + 1 }))
+      .filter(flash => flash.age < PICKUP_FLASH_TICKS);
+
+    if (playerCar) {
+      setSpeed(Math.round(getSpeed(playerCar) * 10) / 10);
+      setPlayerHealth({ ...playerCar.health });
+    }
+  }, [applyMatch]);
 
   // Draw health bar (commented out for now)
   // const drawHealthBar = useCallback((ctx: CanvasRenderingContext2D, car: Car, label: string, yOffset: number) => {
@@ -589,47 +461,68 @@ const Home: NextPage = () => {
   //   });
   // }, []);
 
-  // Render
-  const render = useCallback(() => {
+  // Render - alpha is how far we are between the last two ticks (0 to 1)
+  const render = useCallback((alpha: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
-    const playerCar = playerCarRef.current;
-    const targetCar = targetCarRef.current;
+    const world = worldRef.current;
+    const prevWorld = prevWorldRef.current;
+    // Cars keep their order between ticks, so the previous world lines up index for index. A wreck that's just
+    // been swapped for a fresh car (a new survival wave) would slide across the arena, so that one isn't blended.
+    const cars = world.cars.map((car, i) => {
+      const prev = prevWorld.cars[i];
+      return interpolateCar(car, prev && !(prev.wrecked && !car.wrecked) ? prev : car, alpha);
+    });
+    // A burst barrel drops out of the list, so match balls up by id rather than by place
+    const balls = world.balls.map(ball =>
+      interpolateBall(ball, prevWorld.balls.find(prev => prev.id === ball.id) ?? ball, alpha),
+    );
+    const playerCar = cars.find(car => car.id === PLAYER_ID);
+    // Once the player is out the HUD follows whoever they're spectating
+    const spectatedCar = cars.find(car => car.id === spectateIdRef.current);
+    const hudCar = spectatedCar ?? playerCar;
 
     ctx.fillStyle = "#8B7355";
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
-    ctx.fillStyle = "#9C8565";
-    for (let i = 0; i < 50; i++) {
-      const x = (Math.sin(i * 123.456) * 0.5 + 0.5) * CANVAS_WIDTH;
-      const y = (Math.cos(i * 789.012) * 0.5 + 0.5) * CANVAS_HEIGHT;
+    drawFloorPatches(ctx, floorPatchesRef.current);
+    drawArenaFloor(ctx, world.arena);
+    drawOilSlicks(ctx, world);
+    drawArenaBounds(ctx, world.arena);
+    drawModeFloor(ctx, modeRef.current, world);
+    drawPowerUpPickups(ctx, world);
+    drawArenaObstacles(ctx, world.arena);
+    drawProps(ctx, world.props);
+    drawDebris(ctx, world);
+    balls.forEach(ball => (ball.kind === "barrel" ? drawBarrel(ctx, ball) : drawBall(ctx, ball)));
+
+    // Draw the player last so it's never hidden under another car. Cars that fell off a platform are gone.
+    cars.filter(car => car.id !== PLAYER_ID && !car.fellOff).forEach(car => drawCar(ctx, car));
+    if (playerCar && !playerCar.fellOff) drawCar(ctx, playerCar);
+    cars.filter(car => !car.fellOff).forEach(car => drawCarEffects(ctx, car, world.tick));
+    drawPickupFlashes(ctx, pickupFlashesRef.current);
+
+    if (spectatedCar) {
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
       ctx.beginPath();
-      ctx.arc(x, y, 20 + Math.sin(i) * 10, 0, Math.PI * 2);
-      ctx.fill();
+      ctx.arc(spectatedCar.x, spectatedCar.y, spectatedCar.width * 0.8, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const place = getPlayerPlacement(matchRef.current, world);
+      ctx.fillStyle = "#fff";
+      ctx.font = "bold 14px monospace";
+      ctx.fillText(`OUT IN ${formatOrdinal(place).toUpperCase()} - SPECTATING ${getCarLabel(spectatedCar.id)}`, 20, 40);
+      ctx.font = "11px monospace";
+      ctx.fillText("TAB / TAP TO SWITCH", 20, 56);
     }
 
-    ctx.fillStyle = "#5D4E37";
-    ctx.fillRect(0, 0, CANVAS_WIDTH, WALL_THICKNESS);
-    ctx.fillRect(0, CANVAS_HEIGHT - WALL_THICKNESS, CANVAS_WIDTH, WALL_THICKNESS);
-    ctx.fillRect(0, 0, WALL_THICKNESS, CANVAS_HEIGHT);
-    ctx.fillRect(CANVAS_WIDTH - WALL_THICKNESS, 0, WALL_THICKNESS, CANVAS_HEIGHT);
-
-    ctx.strokeStyle = "#3D2E17";
-    ctx.lineWidth = 3;
-    ctx.strokeRect(
-      WALL_THICKNESS,
-      WALL_THICKNESS,
-      CANVAS_WIDTH - WALL_THICKNESS * 2,
-      CANVAS_HEIGHT - WALL_THICKNESS * 2,
-    );
-
-    drawCar(ctx, targetCar);
-    drawCar(ctx, playerCar);
-
     damagePopupsRef.current.forEach(popup => {
       const alpha = 1 - popup.age / 60;
       ctx.fillStyle = `rgba(255, 50, 50, ${alpha})`;
@@ -639,6 +532,7 @@ const Home: NextPage = () => {
       ctx.font = "10px monospace";
       ctx.fillText(popup.zone.toUpperCase(), popup.x - 10, popup.y + 12);
     });
+    drawScorePopups(ctx, scorePopupsRef.current);
 
     const speedBarWidth = 150;
     const speedBarHeight = 15;
@@ -648,7 +542,7 @@ const Home: NextPage = () => {
     ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
     ctx.fillRect(speedBarX - 2, speedBarY - 2, speedBarWidth + 4, speedBarHeight + 4);
 
-    const speedPercent = Math.min(1, Math.sqrt(playerCar.vx * playerCar.vx + playerCar.vy * playerCar.vy) / MAX_SPEED);
+    const speedPercent = Math.min(1, (hudCar ? getSpeed(hudCar) : 0) / MAX_SPEED);
     const speedGradient = ctx.createLinearGradient(speedBarX, 0, speedBarX + speedBarWidth, 0);
     speedGradient.addColorStop(0, "#2ecc71");
     speedGradient.addColorStop(0.5, "#f1c40f");
@@ -662,21 +556,59 @@ const Home: NextPage = () => {
     ctx.fillStyle = "#fff";
     ctx.font = "12px monospace";
     ctx.fillText("SPEED", speedBarX, speedBarY - 5);
+    if (matchRef.current.phase !== "lobby") drawScoreTicker(ctx, scoresRef.current.cars[PLAYER_ID]);
+    if (hudCar) drawEffectIcons(ctx, hudCar);
+
+    // Damage warnings above the speed bar
+    if (hudCar) {
+      const handling = getHandling(hudCar);
+      const warnings = [
+        hudCar.wrecked && (hudCar.fellOff ? "FELL OFF" : "WRECKED"),
+        !hudCar.wrecked && handling.engineStalled && "ENGINE STALLED",
+        !hudCar.wrecked && handling.lostWheel && `LOST ${handling.lostWheel.toUpperCase()} WHEEL`,
+      ].filter(Boolean) as string[];
+
+      ctx.fillStyle = "#e74c3c";
+      ctx.font = "bold 14px monospace";
+      warnings.forEach((warning, i) => ctx.fillText(warning, speedBarX, speedBarY - 25 - i * 18));
+    }
+
+    if (matchRef.current.phase !== "lobby") drawModeHud(ctx, modeRef.current, world);
+    drawMatchOverlay(ctx, matchRef.current, world, isTeamMode(modeRef.current), getModeSummary(modeRef.current));
+    if (matchRef.current.phase === "results") drawScoreBreakdown(ctx, scoresRef.current, world);
 
     // drawHealthBar(ctx, playerCar, "YOUR CAR", 30);
-    // drawHealthBar(ctx, targetCar, "TARGET", 120);
-  }, [drawCar]);
+    // drawHealthBar(ctx, cars[1], "TARGET", 120);
+  }, []);
 
-  // Game loop
-  const gameLoop = useCallback(() => {
-    updatePhysics();
-    render();
-    animationFrameRef.current = requestAnimationFrame(gameLoop);
-  }, [updatePhysics, render]);
+  // Game loop - fixed-step accumulator so the simulation runs at TICK_RATE regardless of refresh rate
+  const gameLoop = useCallback(
+    (time: number) => {
+      const lastFrameTime = lastFrameTimeRef.current ?? time;
+      const frameMs = Math.min(time - lastFrameTime, MAX_FRAME_MS);
+      lastFrameTimeRef.current = time;
+
+      accumulatorRef.current += frameMs;
+      while (accumulatorRef.current >= TICK_MS) {
+        updatePhysics();
+        accumulatorRef.current -= TICK_MS;
+      }
+
+      render(accumulatorRef.current / TICK_MS);
+      animationFrameRef.current = requestAnimationFrame(gameLoop);
+    },
+    [updatePhysics, render],
+  );
 
   // Keyboard input
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const { phase } = matchRef.current;
+      if (e.key === "Enter" && (phase === "lobby" || phase === "results")) handleStartMatch();
+      if (e.key === "Tab") {
+        spectateNext();
+        e.preventDefault();
+      }
       if (e.key === "ArrowUp" || e.key === "w") inputRef.current.forward = 1;
       if (e.key === "ArrowDown" || e.key === "s") inputRef.current.reverse = 1;
       if (e.key === "ArrowLeft" || e.key === "a") inputRef.current.left = 1;
@@ -700,6 +632,30 @@ const Home: NextPage = () => {
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
     };
+  }, [handleStartMatch, spectateNext]);
+
+  // Browsers keep audio suspended until the player presses a key or touches the page
+  useEffect(() => {
+    const audio = audioRef.current;
+    const unlock = () => audio.resume();
+    window.addEventListener("keydown", unlock);
+    window.addEventListener("pointerdown", unlock);
+
+    return () => {
+      window.removeEventListener("keydown", unlock);
+      window.removeEventListener("pointerdown", unlock);
+      audio.dispose();
+    };
+  }, []);
+
+  // Volumes saved from an earlier visit
+  useEffect(() => setAudioVolumes(loadAudioVolumes()), []);
+
+  useEffect(() => audioRef.current.setVolumes(audioVolumes), [audioVolumes]);
+
+  const handleAudioVolumesChange = useCallback((volumes: AudioVolumes) => {
+    setAudioVolumes(volumes);
+    saveAudioVolumes(volumes);
   }, []);
 
   // Start game loop
@@ -723,10 +679,20 @@ const Home: NextPage = () => {
           objectFit: "contain",
         }}
         tabIndex={0}
+        onClick={spectateNext}
         onTouchStart={firePendingHaptic}
         onTouchMove={firePendingHaptic}
       />
 
+      <MatchMenu
+        phase={matchPhase}
+        settings={menuSettings}
+        onSettingsChange={setMenuSettings}
+        onStart={handleStartMatch}
+        onLobby={handleLobby}
+      />
+      <AudioControls volumes={audioVolumes} onChange={handleAudioVolumesChange} />
+
       {/* Mobile joystick overlay */}
       {isMobile && (
         <div
@@ -0,0 +1,13 @@
+import { type AiDifficulty, createAiDriver, defineBot } from "@se-2/game-core";
+
+// The same AI the play page races against, at each difficulty
+const createAiBot = (difficulty: AiDifficulty) =>
+  defineBot({
+    name: `AI (${difficulty})`,
+    author: "smash-fest",
+    createController: (carId, seed) => createAiDriver(carId, difficulty, seed),
+  });
+
+export const easyAi = createAiBot("easy");
+export const normalAi = createAiBot("normal");
+export const hardAi = createAiBot("hard");
@@ -0,0 +1,10 @@
+import { defineBot } from "@se-2/game-core";
+
+// Never attacks - just keeps moving so it's hard to line up on. A baseline every real bot should beat.
+export default defineBot({
+  name: "Circler",
+  author: "smash-fest",
+  createController: () => ({
+    decide: world => ({ forward: 0.8, reverse: 0, left: Math.floor(world.tick / 180) % 2 ? 0.7 : 0, right: 0.2 }),
+  }),
+});
@@ -0,0 +1,10 @@
+import { easyAi, hardAi, normalAi } from "./builtInAi";
+import circler from "./circler";
+import rammer from "./rammer";
+import type { BotDefinition } from "@se-2/game-core";
+
+/**
+ * Bots available on the /bots page.
+ * To enter your own, add a module to this folder that default-exports `defineBot({ ... })` and list it here.
+ */
+export const bots: BotDefinition[] = [rammer, circler, easyAi, normalAi, hardAi];
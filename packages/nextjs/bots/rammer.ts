@@ -0,0 +1,24 @@
+import { NO_INPUT, defineBot, getCar } from "@se-2/game-core";
+
+// The simplest bot worth writing: point at the nearest car and floor it. Copy this file to start your own.
+export default defineBot({
+  name: "Rammer",
+  author: "smash-fest",
+  createController: carId => ({
+    decide: world => {
+      const self = getCar(world, carId);
+      if (!self) return NO_INPUT;
+
+      const target = world.cars
+        .filter(car => car.id !== carId && !car.wrecked)
+        .sort((a, b) => Math.hypot(a.x - self.x, a.y - self.y) - Math.hypot(b.x - self.x, b.y - self.y))[0];
+      if (!target) return NO_INPUT;
+
+      let headingError = Math.atan2(target.y - self.y, target.x - self.x) - self.angle;
+      headingError = Math.atan2(Math.sin(headingError), Math.cos(headingError));
+      const steer = Math.max(-1, Math.min(1, headingError * 2));
+
+      return { forward: 1, reverse: 0, left: Math.max(0, -steer), right: Math.max(0, steer) };
+    },
+  }),
+});
@@ -20,6 +20,14 @@ export const menuLinks: HeaderMenuLink[] = [
     label: "🚗 Play",
     href: "/",
   },
+  {
+    label: "🤖 Bots",
+    href: "/bots",
+  },
+  {
+    label: "🛠️ Editor",
+    href: "/editor",
+  },
   {
     label: "Debug Contracts",
     href: "/debug",
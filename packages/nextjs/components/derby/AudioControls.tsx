@@ -0,0 +1,49 @@
+import { useState } from "react";
+import type { AudioVolumes } from "~~/utils/derby/audio";
+
+const CHANNELS: { key: keyof AudioVolumes; label: string }[] = [
+  { key: "master", label: "Master" },
+  { key: "sfx", label: "Effects" },
+  { key: "engine", label: "Engine" },
+];
+
+type AudioControlsProps = {
+  volumes: AudioVolumes;
+  onChange: (volumes: AudioVolumes) => void;
+};
+
+/**
+ * Speaker button that opens sliders for the master, effects and engine volumes.
+ */
+export const AudioControls = ({ volumes, onChange }: AudioControlsProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="fixed top-16 right-2 z-50 flex flex-col items-end gap-2">
+      <button
+        className="btn btn-sm btn-circle bg-black/60 border-none text-white"
+        aria-label="Sound settings"
+        onClick={() => setOpen(!open)}
+      >
+        {volumes.master === 0 ? "🔇" : "🔊"}
+      </button>
+      {open && (
+        <div className="flex flex-col gap-2 bg-black/70 p-3 rounded-box text-white text-xs">
+          {CHANNELS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="w-14 uppercase">{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(volumes[key] * 100)}
+                className="range range-xs"
+                onChange={e => onChange({ ...volumes, [key]: Number(e.target.value) / 100 })}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import {
+  type AiDifficulty,
+  type ArenaGeneratorOptions,
+  BUNDLED_ARENAS,
+  DEFAULT_GENERATOR_OPTIONS,
+  type DerbyOpponentKind,
+  GENERATED_ARENA_SIZES,
+  type GeneratedArenaSize,
+  MAX_DENSITY,
+  MIN_DENSITY,
+  type MatchPhase,
+  formatArenaCode,
+  parseArenaCode,
+} from "@se-2/game-core";
+import {
+  GAME_MODES,
+  GENERATED_ARENA,
+  type GameModeId,
+  type GameSettings,
+  getModeConfig,
+} from "~~/utils/derby/gameModes";
+
+const AI_DIFFICULTIES: AiDifficulty[] = ["easy", "normal", "hard"];
+const OPPONENT_KINDS: DerbyOpponentKind[] = ["ai", "idle"];
+const BEST_OF_OPTIONS = [1, 3, 5];
+const ROUND_SECONDS_OPTIONS = [60, 90, 120];
+const ARENA_NAMES = [...BUNDLED_ARENAS.map(arena => arena.name), GENERATED_ARENA];
+const ARENA_SIZES = Object.keys(GENERATED_ARENA_SIZES) as GeneratedArenaSize[];
+const DENSITIES = Array.from({ length: MAX_DENSITY - MIN_DENSITY + 1 }, (_, i) => MIN_DENSITY + i);
+const CODE_SEEDS = 36 ** 5; // Keeps new codes to five characters before the dash
+
+type MatchMenuProps = {
+  phase: MatchPhase;
+  settings: GameSettings;
+  onSettingsChange: (settings: GameSettings) => void;
+  onStart: () => void;
+  onLobby: () => void;
+};
+
+const Pills = <T extends string | number>({
+  options,
+  value,
+  format = String,
+  onChange,
+}: {
+  options: T[];
+  value: T;
+  format?: (option: T) => string;
+  onChange: (option: T) => void;
+}) => (
+  <div className="flex gap-1 bg-black/60 p-1 rounded-full">
+    {options.map(option => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        className={`px-3 py-1 rounded-full text-xs uppercase ${option === value ? "bg-white/85 text-black" : "text-white"}`}
+      >
+        {format(option)}
+      </button>
+    ))}
+  </div>
+);
+
+// The seed code for a generated arena, typed in or rolled, and the size and density knobs that go into it
+const ArenaCodeControls = ({ code, onChange }: { code: string; onChange: (code: string) => void }) => {
+  const [text, setText] = useState(code);
+  const parsed = parseArenaCode(code);
+  const seed = parsed?.seed ?? 0;
+  const options: ArenaGeneratorOptions = parsed?.options ?? DEFAULT_GENERATOR_OPTIONS;
+
+  useEffect(() => setText(code), [code]);
+
+  const changeText = (next: string) => {
+    setText(next.toUpperCase());
+    const typed = parseArenaCode(next);
+    if (typed) onChange(formatArenaCode(typed.seed, typed.options));
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-2">
+      <div className="flex gap-1 bg-black/60 p-1 rounded-full">
+        <input
+          className={`bg-transparent text-xs uppercase w-24 px-3 outline-none ${
+            parseArenaCode(text) ? "text-white" : "text-error"
+          }`}
+          aria-label="Arena code"
+          value={text}
+          onChange={e => changeText(e.target.value)}
+        />
+        <button
+          className="px-3 py-1 rounded-full text-xs text-white"
+          aria-label="New random arena"
+          onClick={() => onChange(formatArenaCode(Math.floor(Math.random() * CODE_SEEDS), options))}
+        >
+          🎲
+        </button>
+      </div>
+      <Pills
+        options={ARENA_SIZES}
+        value={options.size}
+        onChange={size => onChange(formatArenaCode(seed, { ...options, size }))}
+      />
+      <Pills
+        options={DENSITIES}
+        value={options.density}
+        format={density => (density === MIN_DENSITY ? "Sparse" : density === MAX_DENSITY ? "Packed" : String(density))}
+        onChange={density => onChange(formatArenaCode(seed, { ...options, density }))}
+      />
+    </div>
+  );
+};
+
+/**
+ * HTML controls for the lobby and results screens. The canvas draws the titles and scores underneath.
+ */
+export const MatchMenu = ({ phase, settings, onSettingsChange, onStart, onLobby }: MatchMenuProps) => {
+  const modeConfig = getModeConfig(settings.mode);
+
+  // Each mode has its own sensible rival count, so switching modes resets it
+  const changeMode = (mode: GameModeId) => {
+    const opponents = getModeConfig(mode).defaultOpponents ?? settings.opponents;
+    onSettingsChange({ ...settings, mode, opponents });
+  };
+
+  if (phase === "lobby") {
+    return (
+      <div className="fixed inset-0 z-40 flex flex-col items-center justify-center gap-3 pointer-events-none">
+        <div className="flex flex-col items-center gap-3 pointer-events-auto mt-16">
+          <Pills
+            options={GAME_MODES.map(mode => mode.id)}
+            value={settings.mode}
+            format={mode => getModeConfig(mode).label}
+            onChange={changeMode}
+          />
+          {modeConfig.opponentOptions && (
+            <Pills
+              options={modeConfig.opponentOptions}
+              value={settings.opponents}
+              format={opponents => `${opponents} ${opponents === 1 ? "rival" : "rivals"}`}
+              onChange={opponents => onSettingsChange({ ...settings, opponents })}
+            />
+          )}
+          {modeConfig.allowIdle && (
+            <Pills
+              options={OPPONENT_KINDS}
+              value={settings.opponentKind}
+              format={kind => (kind === "ai" ? "AI drivers" : "Idle cars")}
+              onChange={opponentKind => onSettingsChange({ ...settings, opponentKind })}
+            />
+          )}
+          {modeConfig.customArena && (
+            <Pills
+              options={ARENA_NAMES}
+              value={settings.arena}
+              format={arena => (arena === GENERATED_ARENA ? "🎲 Random" : arena)}
+              onChange={arena => onSettingsChange({ ...settings, arena })}
+            />
+          )}
+          {modeConfig.customArena && settings.arena === GENERATED_ARENA && (
+            <ArenaCodeControls
+              code={settings.arenaCode}
+              onChange={arenaCode => onSettingsChange({ ...settings, arenaCode })}
+            />
+          )}
+          <Pills
+            options={AI_DIFFICULTIES}
+            value={settings.difficulty}
+            onChange={difficulty => onSettingsChange({ ...settings, difficulty })}
+          />
+          {!modeConfig.singleRun && (
+            <Pills
+              options={BEST_OF_OPTIONS}
+              value={settings.bestOf}
+              format={bestOf => `Best of ${bestOf}`}
+              onChange={bestOf => onSettingsChange({ ...settings, bestOf })}
+            />
+          )}
+          {!modeConfig.singleRun && (
+            <Pills
+              options={ROUND_SECONDS_OPTIONS}
+              value={settings.roundSeconds}
+              format={seconds => `${seconds}s rounds`}
+              onChange={roundSeconds => onSettingsChange({ ...settings, roundSeconds })}
+            />
+          )}
+          <button className="btn btn-primary rounded-full px-10 mt-2" onClick={onStart}>
+            Start
+          </button>
+          <span className="text-white/60 text-xs">or press Enter</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === "results") {
+    return (
+      <div className="fixed inset-x-0 bottom-24 z-40 flex justify-center gap-3">
+        <button className="btn btn-primary rounded-full px-8" onClick={onStart}>
+          Rematch
+        </button>
+        <button className="btn rounded-full px-8" onClick={onLobby}>
+          Lobby
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,180 @@
+import {
+  ARENA_FORMAT_VERSION,
+  type ArenaFile,
+  BARREL_RADIUS,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  CAR_WIDTH,
+  MAX_ARENA_SIZE,
+  MIN_ARENA_SIZE,
+  type Ramp,
+  type Vec2,
+  isPointInPolygon,
+  validateArenaFile,
+} from "@se-2/game-core";
+
+export type EditorTool = "wall" | "prop" | "surface" | "ramp" | "pillar" | "barrel" | "spawn" | "erase";
+
+// An arena being edited always has every list, even the empty ones
+export type ArenaDraft = Required<ArenaFile>;
+
+type DraftList = "walls" | "pillars" | "barrels" | "props" | "spawns" | "surfaces" | "ramps";
+
+// Something placed in the draft, by the list it's in and its place in that list
+export interface DraftItem {
+  list: DraftList;
+  index: number;
+}
+
+export const GRID_SIZE = 20;
+export const DEFAULT_PILLAR_RADIUS = 30;
+export const MIN_PILLAR_RADIUS = 10;
+const MAX_UNDO = 50;
+const STORAGE_KEY = "smashFest.arenaDraft";
+
+export const createBlankArena = (): ArenaDraft => ({
+  version: ARENA_FORMAT_VERSION,
+  name: "My arena",
+  bounds: { ...MAX_ARENA_SIZE },
+  walls: [],
+  pillars: [],
+  barrels: [],
+  props: [],
+  spawns: [],
+  surfaces: [],
+  ramps: [],
+});
+
+export const toDraft = (file: ArenaFile): ArenaDraft => ({
+  ...createBlankArena(),
+  ...structuredClone(file),
+});
+
+// The draft as it's saved. Empty lists are left out, since an empty spawn list means something different to none.
+export const toArenaFile = (draft: ArenaDraft): ArenaFile => {
+  const file: ArenaFile = { version: draft.version, name: draft.name, bounds: draft.bounds };
+  if (draft.walls.length > 0) file.walls = draft.walls;
+  if (draft.pillars.length > 0) file.pillars = draft.pillars;
+  if (draft.barrels.length > 0) file.barrels = draft.barrels;
+  if (draft.props.length > 0) file.props = draft.props;
+  if (draft.spawns.length > 0) file.spawns = draft.spawns;
+  if (draft.surfaces.length > 0) file.surfaces = draft.surfaces;
+  if (draft.ramps.length > 0) file.ramps = draft.ramps;
+  return file;
+};
+
+// Keep an edit and remember the draft it replaced, dropping the oldest step once there are too many
+export const pushUndo = (history: ArenaDraft[], previous: ArenaDraft): ArenaDraft[] =>
+  [...history, previous].slice(-MAX_UNDO);
+
+export const clampArenaSize = (size: { width: number; height: number }) => ({
+  width: Math.min(MAX_ARENA_SIZE.width, Math.max(MIN_ARENA_SIZE.width, Math.round(size.width) || 0)),
+  height: Math.min(MAX_ARENA_SIZE.height, Math.max(MIN_ARENA_SIZE.height, Math.round(size.height) || 0)),
+});
+
+export const snapToGrid = (point: Vec2): Vec2 => ({
+  x: Math.round(point.x / GRID_SIZE) * GRID_SIZE,
+  y: Math.round(point.y / GRID_SIZE) * GRID_SIZE,
+});
+
+// A box from one corner to the opposite one, as a wall or surface outline
+export const getRectanglePoints = (a: Vec2, b: Vec2): Vec2[] => [
+  { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+  { x: Math.min(a.x, b.x), y: Math.max(a.y, b.y) },
+];
+
+// A ramp filling the box dragged out, going up whichever way the drag went furthest
+export const getRampFromDrag = (start: Vec2, end: Vec2): Ramp => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const angle = Math.abs(dx) >= Math.abs(dy) ? (dx >= 0 ? 0 : Math.PI) : Math.sign(dy) * (Math.PI / 2);
+  return { points: getRectanglePoints(start, end), angle: Math.round(angle * 1000) / 1000 };
+};
+
+// Cars placed with a click face the middle of the canvas, which is the middle of the arena too
+export const getFacingCentre = (point: Vec2) => Math.atan2(CANVAS_HEIGHT / 2 - point.y, CANVAS_WIDTH / 2 - point.x);
+
+// Whatever would be picked up at `point`, checking the things drawn on top first
+export const findItemAt = (draft: ArenaDraft, point: Vec2): DraftItem | null => {
+  const near = (list: Vec2[], radius: number) =>
+    list.findLastIndex(item => Math.hypot(item.x - point.x, item.y - point.y) < radius);
+  const checks: [DraftList, () => number][] = [
+    ["spawns", () => near(draft.spawns, CAR_WIDTH / 2)],
+    ["barrels", () => near(draft.barrels, BARREL_RADIUS)],
+    ["pillars", () => draft.pillars.findLastIndex(p => Math.hypot(p.x - point.x, p.y - point.y) < p.radius)],
+    ["props", () => draft.props.findLastIndex(prop => isPointInPolygon(point, prop.points))],
+    ["walls", () => draft.walls.findLastIndex(wall => isPointInPolygon(point, wall.points))],
+    ["ramps", () => draft.ramps.findLastIndex(ramp => isPointInPolygon(point, ramp.points))],
+    ["surfaces", () => draft.surfaces.findLastIndex(surface => isPointInPolygon(point, surface.points))],
+  ];
+  for (const [list, check] of checks) {
+    const index = check();
+    if (index >= 0) return { list, index };
+  }
+  return null;
+};
+
+export const removeItem = (draft: ArenaDraft, { list, index }: DraftItem): ArenaDraft => ({
+  ...draft,
+  [list]: draft[list].filter((_, i) => i !== index),
+});
+
+// Lowercase words joined by dashes, so "Ice Rink!" downloads as ice-rink.json
+export const getArenaFileName = (name: string) =>
+  `${
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "arena"
+  }.json`;
+
+// A saved draft as an arena file. Drafts keep every list, even the empty ones the file format leaves out, and drafts
+// saved before there were props or ramps don't have those lists at all, which `toDraft` fills in.
+const toStoredFile = (value: unknown): unknown =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).filter(([, item]) => !Array.isArray(item) || item.length > 0))
+    : value;
+
+// The draft left in this browser last time, or a blank arena if it isn't a good arena file. Anything that got into
+// storage some other way could crash the editor when it's drawn.
+export const loadArenaDraft = (): ArenaDraft => {
+  if (typeof window === "undefined") return createBlankArena();
+  try {
+    const stored = toStoredFile(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null"));
+    return validateArenaFile(stored).length === 0 ? toDraft(stored as ArenaFile) : createBlankArena();
+  } catch {
+    return createBlankArena();
+  }
+};
+
+export const saveArenaDraft = (draft: ArenaDraft) => {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+};
+
+// What the editor calls each list, one and many
+const ITEM_NAMES: Record<string, [string, string]> = {
+  walls: ["Wall", "walls"],
+  pillars: ["Pillar", "pillars"],
+  barrels: ["Barrel", "barrels"],
+  props: ["Breakable", "breakables"],
+  spawns: ["Start spot", "start spots"],
+  surfaces: ["Surface", "surfaces"],
+  ramps: ["Ramp", "ramps"],
+  points: ["corner", "corners"],
+};
+
+// Validation messages name fields the way the file does, like `spawns[0]`. Say it the way the editor shows it instead.
+export const describeArenaError = (error: string) => {
+  const described = error
+    .replace(/\b(\w+)\[(\d+)\]/g, (match, list: string, index: string) =>
+      ITEM_NAMES[list] ? `${ITEM_NAMES[list][0]} ${Number(index) + 1}` : match,
+    )
+    .replace(/\.points\b/g, " corners")
+    .replace(/\b(walls|pillars|barrels|props|spawns|surfaces|ramps)\b/g, list => ITEM_NAMES[list][1])
+    .replace(/\.(?=[a-zA-Z])/g, " ");
+  return described.charAt(0).toUpperCase() + described.slice(1);
+};
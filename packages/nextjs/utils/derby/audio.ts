@@ -0,0 +1,240 @@
+import { type Debris, MAX_SPEED } from "@se-2/game-core";
+
+export type AudioVolumes = {
+  master: number;
+  sfx: number;
+  engine: number;
+};
+
+export const DEFAULT_AUDIO_VOLUMES: AudioVolumes = { master: 0.8, sfx: 0.8, engine: 0.5 };
+
+const STORAGE_KEY = "smashFest.audioVolumes";
+const RAMP_SECONDS = 0.05; // Smoothing for the continuous sounds so they don't click between ticks
+const MIN_ONE_SHOT_GAP = 0.04; // A pile-up raises lots of events in one tick; play one sound per kind for them
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isVolume = (value: unknown): value is number => typeof value === "number" && value >= 0 && value <= 1;
+
+// Volumes saved on this device, falling back to the defaults for anything missing or unreadable
+export const loadAudioVolumes = (): AudioVolumes => {
+  if (typeof window === "undefined") return DEFAULT_AUDIO_VOLUMES;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}") as Partial<AudioVolumes>;
+    return {
+      master: isVolume(stored.master) ? stored.master : DEFAULT_AUDIO_VOLUMES.master,
+      sfx: isVolume(stored.sfx) ? stored.sfx : DEFAULT_AUDIO_VOLUMES.sfx,
+      engine: isVolume(stored.engine) ? stored.engine : DEFAULT_AUDIO_VOLUMES.engine,
+    };
+  } catch {
+    return DEFAULT_AUDIO_VOLUMES;
+  }
+};
+
+export const saveAudioVolumes = (volumes: AudioVolumes) => {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(volumes));
+};
+
+export type DerbyAudio = {
+  // Browsers only start audio from a user gesture, so call this from key and pointer handlers
+  resume: () => void;
+  setVolumes: (volumes: AudioVolumes) => void;
+  // Once per tick for the car being listened to. `throttle` is 0 to 1; pass running false to let the engine die.
+  updateEngine: (speed: number, throttle: number, running: boolean) => void;
+  updateScreech: (slipSpeed: number) => void;
+  playCrash: (damage: number) => void;
+  playThump: (impactSpeed: number) => void;
+  playSmash: (kind: Debris["source"]) => void;
+  dispose: () => void;
+};
+
+type AudioGraph = {
+  context: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  engine: GainNode;
+  engineOscillators: OscillatorNode[];
+  engineFilter: BiquadFilterNode;
+  engineLevel: GainNode;
+  screechLevel: GainNode;
+  noise: AudioBuffer;
+  lastCrash: number;
+  lastThump: number;
+  lastSmash: number;
+};
+
+// Two seconds of white noise, looped for the screech and cut short for impacts
+const createNoise = (context: AudioContext) => {
+  const buffer = context.createBuffer(1, context.sampleRate * 2, context.sampleRate);
+  const samples = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+const applyVolumes = (graph: Pick<AudioGraph, "context" | "master" | "sfx" | "engine">, volumes: AudioVolumes) => {
+  const now = graph.context.currentTime;
+  graph.master.gain.setTargetAtTime(volumes.master, now, RAMP_SECONDS);
+  graph.sfx.gain.setTargetAtTime(volumes.sfx, now, RAMP_SECONDS);
+  graph.engine.gain.setTargetAtTime(volumes.engine, now, RAMP_SECONDS);
+};
+
+const createGraph = (volumes: AudioVolumes): AudioGraph | null => {
+  if (typeof window === "undefined" || !window.AudioContext) return null;
+
+  const context = new AudioContext();
+  const master = context.createGain();
+  const sfx = context.createGain();
+  const engine = context.createGain();
+  master.connect(context.destination);
+  sfx.connect(master);
+  engine.connect(master);
+
+  // Engine: a sawtooth and a square an octave down, muffled by a low-pass that opens up with the throttle
+  const engineFilter = context.createBiquadFilter();
+  engineFilter.type = "lowpass";
+  const engineLevel = context.createGain();
+  engineLevel.gain.value = 0;
+  engineFilter.connect(engineLevel);
+  engineLevel.connect(engine);
+  const engineOscillators = (["sawtooth", "square"] as OscillatorType[]).map(type => {
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.connect(engineFilter);
+    oscillator.start();
+    return oscillator;
+  });
+
+  // Screech: looped noise through a narrow band-pass, silent until the tyres slide
+  const noise = createNoise(context);
+  const screech = context.createBufferSource();
+  screech.buffer = noise;
+  screech.loop = true;
+  const screechFilter = context.createBiquadFilter();
+  screechFilter.type = "bandpass";
+  screechFilter.frequency.value = 2400;
+  screechFilter.Q.value = 8;
+  const screechLevel = context.createGain();
+  screechLevel.gain.value = 0;
+  screech.connect(screechFilter);
+  screechFilter.connect(screechLevel);
+  screechLevel.connect(sfx);
+  screech.start();
+
+  const graph = { context, master, sfx, engine, engineOscillators, engineFilter, engineLevel, screechLevel, noise };
+  applyVolumes(graph, volumes);
+  return { ...graph, lastCrash: -Infinity, lastThump: -Infinity, lastSmash: -Infinity };
+};
+
+// A burst of noise through a low-pass, fading out over `duration`
+const playNoiseBurst = (graph: AudioGraph, level: number, cutoff: number, duration: number) => {
+  const { context } = graph;
+  const now = context.currentTime;
+  const source = context.createBufferSource();
+  source.buffer = graph.noise;
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = cutoff;
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(level, now);
+  gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+  source.connect(filter);
+  filter.connect(gain);
+  gain.connect(graph.sfx);
+  source.start(now, Math.random() * (graph.noise.duration - duration));
+  source.stop(now + duration);
+};
+
+// A sine dropping from `from` to `to` Hz - the body of a thud
+const playDrop = (graph: AudioGraph, level: number, from: number, to: number, duration: number) => {
+  const { context } = graph;
+  const now = context.currentTime;
+  const oscillator = context.createOscillator();
+  oscillator.frequency.setValueAtTime(from, now);
+  oscillator.frequency.exponentialRampToValueAtTime(to, now + duration);
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(level, now);
+  gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+  oscillator.connect(gain);
+  gain.connect(graph.sfx);
+  oscillator.start(now);
+  oscillator.stop(now + duration);
+};
+
+/**
+ * Sound for the derby, synthesised with Web Audio so there are no files to fetch. Nothing is created until the
+ * first `resume`, so it's safe to build during server rendering.
+ */
+export const createDerbyAudio = (volumes: AudioVolumes = DEFAULT_AUDIO_VOLUMES): DerbyAudio => {
+  let graph: AudioGraph | null = null;
+  let currentVolumes = volumes;
+
+  return {
+    resume: () => {
+      graph ??= createGraph(currentVolumes);
+      if (graph?.context.state === "suspended") void graph.context.resume();
+    },
+
+    setVolumes: next => {
+      currentVolumes = next;
+      if (graph) applyVolumes(graph, next);
+    },
+
+    updateEngine: (speed, throttle, running) => {
+      if (!graph) return;
+      const now = graph.context.currentTime;
+      // Nitro can push past MAX_SPEED, so let the revs climb a little further
+      const revs = clamp(speed / MAX_SPEED, 0, 1.3);
+      const pitch = 45 + revs * 140 + throttle * 25;
+      graph.engineOscillators[0].frequency.setTargetAtTime(pitch, now, RAMP_SECONDS);
+      graph.engineOscillators[1].frequency.setTargetAtTime(pitch / 2, now, RAMP_SECONDS);
+      graph.engineFilter.frequency.setTargetAtTime(350 + throttle * 1200 + revs * 700, now, RAMP_SECONDS);
+      const level = running ? 0.1 + throttle * 0.1 + revs * 0.08 : 0;
+      graph.engineLevel.gain.setTargetAtTime(level, now, running ? RAMP_SECONDS : 0.3);
+    },
+
+    updateScreech: slipSpeed => {
+      if (!graph) return;
+      const level = clamp((slipSpeed - 1) / 3, 0, 1) * 0.2;
+      graph.screechLevel.gain.setTargetAtTime(level, graph.context.currentTime, RAMP_SECONDS);
+    },
+
+    playCrash: damage => {
+      if (!graph || graph.context.currentTime - graph.lastCrash < MIN_ONE_SHOT_GAP) return;
+      graph.lastCrash = graph.context.currentTime;
+      // Bigger hits are louder, brighter and ring on for longer
+      const intensity = clamp(damage / 25, 0.15, 1);
+      playNoiseBurst(graph, intensity * 0.8, 600 + intensity * 2400, 0.25 + intensity * 0.5);
+      playDrop(graph, intensity * 0.7, 90, 35, 0.3 + intensity * 0.3);
+    },
+
+    playThump: impactSpeed => {
+      if (!graph || graph.context.currentTime - graph.lastThump < MIN_ONE_SHOT_GAP) return;
+      graph.lastThump = graph.context.currentTime;
+      const intensity = clamp(impactSpeed / 8, 0.1, 1);
+      playDrop(graph, intensity * 0.6, 120, 45, 0.18);
+      playNoiseBurst(graph, intensity * 0.25, 400, 0.12);
+    },
+
+    playSmash: kind => {
+      if (!graph || graph.context.currentTime - graph.lastSmash < MIN_ONE_SHOT_GAP) return;
+      graph.lastSmash = graph.context.currentTime;
+      // Wood splinters bright and short, a wall comes down with a long low rumble, a drum bursts with a clang
+      if (kind === "wall") {
+        playNoiseBurst(graph, 0.9, 900, 0.7);
+        playDrop(graph, 0.8, 70, 30, 0.6);
+      } else if (kind === "barrel") {
+        playNoiseBurst(graph, 0.6, 2200, 0.3);
+        playDrop(graph, 0.5, 260, 120, 0.35);
+      } else {
+        playNoiseBurst(graph, kind === "crate" ? 0.7 : 0.5, 3500, 0.25);
+        playDrop(graph, 0.3, 180, 80, 0.15);
+      }
+    },
+
+    dispose: () => {
+      void graph?.context.close();
+      graph = null;
+    },
+  };
+};
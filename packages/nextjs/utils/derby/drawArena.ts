@@ -0,0 +1,374 @@
+import {
+  type Arena,
+  BARREL_HP,
+  type Ball,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  type Circle,
+  type Debris,
+  type Platform,
+  type Prop,
+  type Ramp,
+  type SurfaceKind,
+  TICK_RATE,
+  type Vec2,
+  WALL_THICKNESS,
+  type World,
+  getGoalMouth,
+  getPolygonCenter,
+} from "@se-2/game-core";
+
+const WALL_COLOR = "#5D4E37";
+const WALL_EDGE_COLOR = "#3D2E17";
+
+// Netting across a goal pocket
+const drawNet = (ctx: CanvasRenderingContext2D, x: number, top: number, bottom: number) => {
+  ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+  ctx.fillRect(x, top, WALL_THICKNESS, bottom - top);
+
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.5)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let y = top; y <= bottom; y += 8) {
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + WALL_THICKNESS, y);
+  }
+  for (let offset = 0; offset <= WALL_THICKNESS; offset += 8) {
+    ctx.moveTo(x + offset, top);
+    ctx.lineTo(x + offset, bottom);
+  }
+  ctx.stroke();
+};
+
+// Everything off the platform is a drop into the dark, with a hazard stripe round the edge
+const drawPlatform = (ctx: CanvasRenderingContext2D, platform: Platform) => {
+  ctx.fillStyle = "#111";
+  ctx.beginPath();
+  ctx.rect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.arc(platform.x, platform.y, platform.radius, 0, Math.PI * 2);
+  ctx.fill("evenodd");
+
+  ctx.lineWidth = 6;
+  ctx.strokeStyle = "#f1c40f";
+  ctx.beginPath();
+  ctx.arc(platform.x, platform.y, platform.radius - 3, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.strokeStyle = "#111";
+  ctx.setLineDash([12, 12]);
+  ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+const SURFACE_COLORS: Record<SurfaceKind, string> = {
+  asphalt: "#4a4a4a",
+  mud: "#5b4326",
+  ice: "rgba(200, 235, 250, 0.75)",
+  oil: "rgba(15, 15, 20, 0.85)",
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: Vec2[]) => {
+  ctx.beginPath();
+  points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+};
+
+// Scuffed dirt on the bare floor, from `generateFloorPatches`
+export const drawFloorPatches = (ctx: CanvasRenderingContext2D, patches: Circle[]) => {
+  ctx.fillStyle = "#9C8565";
+  for (const patch of patches) {
+    ctx.beginPath();
+    ctx.arc(patch.x, patch.y, patch.radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// A ramp with chevrons up the middle, pointing at the lip
+const drawRamp = (ctx: CanvasRenderingContext2D, ramp: Ramp) => {
+  ctx.fillStyle = "#8a8f94";
+  ctx.strokeStyle = "#5f6469";
+  ctx.lineWidth = 2;
+  tracePolygon(ctx, ramp.points);
+  ctx.fill();
+  ctx.stroke();
+
+  const centre = getPolygonCenter(ramp.points);
+  ctx.save();
+  ctx.translate(centre.x, centre.y);
+  ctx.rotate(ramp.angle);
+  ctx.strokeStyle = "#f1c40f";
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  for (const x of [-18, 0, 18]) {
+    ctx.moveTo(x - 6, -10);
+    ctx.lineTo(x + 4, 0);
+    ctx.lineTo(x - 6, 10);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Patches of mud, ice and the like, laid on the floor in order, with the ramps on top
+export const drawArenaFloor = (ctx: CanvasRenderingContext2D, arena: Arena) => {
+  for (const surface of arena.surfaces) {
+    ctx.fillStyle = SURFACE_COLORS[surface.kind];
+    tracePolygon(ctx, surface.points);
+    ctx.fill();
+  }
+  for (const ramp of arena.ramps) drawRamp(ctx, ramp);
+};
+
+// Oil dropped during the round, fading out as it soaks away
+export const drawOilSlicks = (ctx: CanvasRenderingContext2D, world: World) => {
+  for (const slick of world.slicks) {
+    ctx.globalAlpha = Math.min(1, (slick.expiresTick - world.tick) / (TICK_RATE * 2));
+    ctx.fillStyle = SURFACE_COLORS.oil;
+    ctx.beginPath();
+    ctx.arc(slick.x, slick.y, slick.radius, 0, Math.PI * 2);
+    ctx.fill();
+    // A rainbow sheen catching the light
+    ctx.strokeStyle = "rgba(155, 89, 182, 0.6)";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(slick.x - slick.radius * 0.2, slick.y - slick.radius * 0.2, slick.radius * 0.5, Math.PI, Math.PI * 1.6);
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+};
+
+// The four walls round the bounds, with goal mouths cut into the left and right ones when the arena has them,
+// or the platform edge
+export const drawArenaBounds = (ctx: CanvasRenderingContext2D, arena: Arena) => {
+  if (arena.platform) {
+    drawPlatform(ctx, arena.platform);
+    return;
+  }
+
+  const { minX, minY, maxX, maxY } = arena.bounds;
+  const outer = { left: minX - WALL_THICKNESS, top: minY - WALL_THICKNESS, right: maxX, bottom: maxY };
+  const outerWidth = maxX - minX + WALL_THICKNESS * 2;
+  const outerHeight = maxY - minY + WALL_THICKNESS * 2;
+  const { top, bottom } = getGoalMouth(arena);
+  const hasGoals = arena.goalWidth > 0;
+
+  // Anything beyond the walls of an arena smaller than the canvas
+  ctx.fillStyle = "#222";
+  ctx.beginPath();
+  ctx.rect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.rect(outer.left, outer.top, outerWidth, outerHeight);
+  ctx.fill("evenodd");
+
+  ctx.fillStyle = WALL_COLOR;
+  ctx.fillRect(outer.left, outer.top, outerWidth, WALL_THICKNESS);
+  ctx.fillRect(outer.left, outer.bottom, outerWidth, WALL_THICKNESS);
+  for (const x of [outer.left, outer.right]) {
+    if (hasGoals) {
+      ctx.fillRect(x, outer.top, WALL_THICKNESS, top - outer.top);
+      ctx.fillRect(x, bottom, WALL_THICKNESS, outer.bottom + WALL_THICKNESS - bottom);
+      drawNet(ctx, x, top, bottom);
+    } else {
+      ctx.fillRect(x, outer.top, WALL_THICKNESS, outerHeight);
+    }
+  }
+
+  ctx.strokeStyle = WALL_EDGE_COLOR;
+  ctx.lineWidth = 3;
+  ctx.strokeRect(minX, minY, maxX - minX, maxY - minY);
+
+  if (!hasGoals) return;
+
+  // Goal lines across the mouths, with a post at each end
+  ctx.strokeStyle = "#fff";
+  ctx.beginPath();
+  for (const x of [minX, maxX]) {
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, bottom);
+  }
+  ctx.stroke();
+  ctx.fillStyle = "#fff";
+  for (const x of [minX, maxX]) {
+    for (const y of [top, bottom]) {
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+};
+
+// Wall blocks and pillars standing inside the arena
+export const drawArenaObstacles = (ctx: CanvasRenderingContext2D, arena: Arena) => {
+  ctx.fillStyle = WALL_COLOR;
+  ctx.strokeStyle = WALL_EDGE_COLOR;
+  ctx.lineWidth = 3;
+  for (const wall of arena.walls) {
+    tracePolygon(ctx, wall);
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  for (const pillar of arena.pillars) {
+    ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+    ctx.beginPath();
+    ctx.arc(pillar.x + 4, pillar.y + 4, pillar.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#95a5a6";
+    ctx.strokeStyle = "#5f6a6a";
+    ctx.beginPath();
+    ctx.arc(pillar.x, pillar.y, pillar.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(pillar.x, pillar.y, pillar.radius * 0.55, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+};
+
+// Fill and edge for each kind of breakable prop, and the colour of the pieces it breaks into
+const PROP_COLORS: Record<Debris["source"], { fill: string; edge: string }> = {
+  crate: { fill: "#b9773a", edge: "#6e4420" },
+  fence: { fill: "#d2b48c", edge: "#7a5a2e" },
+  wall: { fill: "#8a7d6b", edge: WALL_EDGE_COLOR },
+  barrel: { fill: "#c0392b", edge: "#7b241c" },
+};
+
+// Cracks spreading out from the middle as a prop takes damage
+const drawCracks = (ctx: CanvasRenderingContext2D, centre: Vec2, corners: Vec2[], wear: number) => {
+  if (wear <= 0) return;
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  for (const corner of corners) {
+    // A kink halfway along so the cracks don't look ruled
+    const kink = {
+      x: centre.x + (corner.x - centre.x) * wear * 0.5 + 3,
+      y: centre.y + (corner.y - centre.y) * wear * 0.5,
+    };
+    ctx.moveTo(centre.x, centre.y);
+    ctx.lineTo(kink.x, kink.y);
+    ctx.lineTo(centre.x + (corner.x - centre.x) * wear * 0.9, centre.y + (corner.y - centre.y) * wear * 0.9);
+  }
+  ctx.stroke();
+};
+
+// Crates with a cross brace, fence panels and lighter stretches of wall, cracking up as they're hit
+export const drawProps = (ctx: CanvasRenderingContext2D, props: Prop[]) => {
+  for (const prop of props) {
+    const { fill, edge } = PROP_COLORS[prop.kind];
+    const centre = getPolygonCenter(prop.points);
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+    tracePolygon(
+      ctx,
+      prop.points.map(({ x, y }) => ({ x: x + 3, y: y + 3 })),
+    );
+    ctx.fill();
+
+    ctx.fillStyle = fill;
+    ctx.strokeStyle = edge;
+    ctx.lineWidth = prop.kind === "fence" ? 1.5 : 3;
+    tracePolygon(ctx, prop.points);
+    ctx.fill();
+    ctx.stroke();
+
+    if (prop.kind === "crate" && prop.points.length >= 4) {
+      const [a, b, c, d] = prop.points;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(c.x, c.y);
+      ctx.moveTo(b.x, b.y);
+      ctx.lineTo(d.x, d.y);
+      ctx.stroke();
+    }
+    drawCracks(ctx, centre, prop.points, 1 - prop.hp / prop.maxHp);
+  }
+};
+
+// Splinters, shards and bits of drum left by whatever broke, fading out before they're swept away
+export const drawDebris = (ctx: CanvasRenderingContext2D, world: World) => {
+  for (const piece of world.debris) {
+    const { fill, edge } = PROP_COLORS[piece.source];
+    ctx.globalAlpha = Math.min(1, (piece.expiresTick - world.tick) / TICK_RATE);
+    ctx.save();
+    ctx.translate(piece.x, piece.y);
+    ctx.rotate(piece.angle);
+    ctx.fillStyle = fill;
+    ctx.strokeStyle = edge;
+    ctx.lineWidth = 1;
+    ctx.fillRect(-piece.radius, -piece.radius * 0.6, piece.radius * 2, piece.radius * 1.2);
+    ctx.strokeRect(-piece.radius, -piece.radius * 0.6, piece.radius * 2, piece.radius * 1.2);
+    ctx.restore();
+  }
+  ctx.globalAlpha = 1;
+};
+
+// An oil drum seen from above, with a stripe so you can see it roll and cracks once it's been hit
+export const drawBarrel = (ctx: CanvasRenderingContext2D, barrel: Ball) => {
+  ctx.save();
+  ctx.translate(barrel.x, barrel.y);
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+  ctx.beginPath();
+  ctx.arc(3, 3, barrel.radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.rotate(barrel.angle);
+  ctx.fillStyle = PROP_COLORS.barrel.fill;
+  ctx.strokeStyle = PROP_COLORS.barrel.edge;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(0, 0, barrel.radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(0, 0, barrel.radius * 0.6, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.fillStyle = "#f1c40f";
+  ctx.fillRect(-barrel.radius * 0.6, -2, barrel.radius * 1.2, 4);
+  const corners = [0, 1, 2, 3].map(i => ({
+    x: Math.cos(i * 1.7) * barrel.radius,
+    y: Math.sin(i * 1.7) * barrel.radius,
+  }));
+  drawCracks(ctx, { x: 0, y: 0 }, corners, barrel.hp === undefined ? 0 : 1 - barrel.hp / BARREL_HP);
+  ctx.restore();
+};
+
+// A ball with a couple of panels so you can see it spin
+export const drawBall = (ctx: CanvasRenderingContext2D, ball: Ball) => {
+  ctx.save();
+  ctx.translate(ball.x, ball.y);
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+  ctx.beginPath();
+  ctx.arc(3, 3, ball.radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.rotate(ball.angle);
+  ctx.fillStyle = "#f5f5f5";
+  ctx.beginPath();
+  ctx.arc(0, 0, ball.radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = "#222";
+  for (let i = 0; i < 3; i++) {
+    const theta = (i / 3) * Math.PI * 2;
+    ctx.beginPath();
+    ctx.arc(
+      Math.cos(theta) * ball.radius * 0.6,
+      Math.sin(theta) * ball.radius * 0.6,
+      ball.radius * 0.28,
+      0,
+      Math.PI * 2,
+    );
+    ctx.fill();
+  }
+  ctx.beginPath();
+  ctx.arc(0, 0, ball.radius * 0.25, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.strokeStyle = "#333";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(0, 0, ball.radius, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+};
@@ -0,0 +1,78 @@
+import { type BombTagState, CANVAS_WIDTH, PLAYER_ID, TICK_RATE, type World, getFuseTicksLeft } from "@se-2/game-core";
+import { getCarLabel } from "~~/utils/derby/drawMatchOverlay";
+
+const FUSE_WARNING_TICKS = TICK_RATE * 5;
+const TAG_FLASH_TICKS = TICK_RATE;
+
+// A bomb hovering over the holder, ticking faster as the fuse burns down. The ring is dashed while tags are locked.
+const drawHolder = (ctx: CanvasRenderingContext2D, state: BombTagState, world: World) => {
+  const holder = world.cars.find(car => car.id === state.holderId);
+  if (!holder) return;
+
+  const ticksLeft = getFuseTicksLeft(state, world);
+  const pulseRate = ticksLeft < FUSE_WARNING_TICKS ? 4 : 12;
+  const pulse = Math.floor(world.tick / pulseRate) % 2 === 0;
+  const cooling = world.tick < state.tagCooldownUntil;
+
+  ctx.save();
+  ctx.strokeStyle = pulse ? "#e74c3c" : "#f39c12";
+  ctx.lineWidth = 3;
+  if (cooling) ctx.setLineDash([5, 5]);
+  ctx.beginPath();
+  ctx.arc(holder.x, holder.y, holder.width * 0.75, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  const bombY = holder.y - holder.width * 0.75 - 14;
+  ctx.fillStyle = "#111";
+  ctx.beginPath();
+  ctx.arc(holder.x, bombY, 9, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = "#8B7355";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(holder.x + 5, bombY - 7);
+  ctx.quadraticCurveTo(holder.x + 10, bombY - 14, holder.x + 14, bombY - 12);
+  ctx.stroke();
+  if (pulse) {
+    ctx.fillStyle = "#f1c40f";
+    ctx.beginPath();
+    ctx.arc(holder.x + 14, bombY - 12, 3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+// Fuse timer and who's holding, with a flash when the bomb changes hands
+export const drawBombTagHud = (ctx: CanvasRenderingContext2D, state: BombTagState, world: World) => {
+  drawHolder(ctx, state, world);
+  if (state.holderId === null) return;
+
+  const ticksLeft = getFuseTicksLeft(state, world);
+  const playerHolds = state.holderId === PLAYER_ID;
+  const x = CANVAS_WIDTH - 170;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(x - 10, 28, 160, 56);
+  ctx.fillStyle = ticksLeft < FUSE_WARNING_TICKS ? "#e74c3c" : "#fff";
+  ctx.font = "bold 24px monospace";
+  ctx.fillText(`💣 ${(ticksLeft / TICK_RATE).toFixed(1)}`, x, 56);
+  ctx.fillStyle = playerHolds ? "#e74c3c" : "#fff";
+  ctx.font = playerHolds ? "bold 11px monospace" : "11px monospace";
+  ctx.fillText(playerHolds ? "YOU HAVE THE BOMB!" : `${getCarLabel(state.holderId).toUpperCase()} HAS IT`, x, 76);
+
+  const { lastTag } = state;
+  if (
+    lastTag &&
+    world.tick - lastTag.tick < TAG_FLASH_TICKS &&
+    (lastTag.fromId === PLAYER_ID || lastTag.toId === PLAYER_ID)
+  ) {
+    ctx.globalAlpha = 1 - (world.tick - lastTag.tick) / TAG_FLASH_TICKS;
+    ctx.textAlign = "center";
+    ctx.fillStyle = lastTag.toId === PLAYER_ID ? "#e74c3c" : "#2ecc71";
+    ctx.font = "bold 40px monospace";
+    ctx.fillText(lastTag.toId === PLAYER_ID ? "TAGGED!" : "PASSED IT!", CANVAS_WIDTH / 2, 150);
+    ctx.textAlign = "left";
+    ctx.globalAlpha = 1;
+  }
+};
@@ -0,0 +1,87 @@
+import { type Car, getTotalHealth } from "@se-2/game-core";
+
+// A car from above, darkening and cracking as it takes damage, with an X over it once wrecked.
+// Off a ramp it's drawn bigger, with its shadow further away, the higher it is.
+export const drawCar = (ctx: CanvasRenderingContext2D, car: Car) => {
+  const lift = Math.min(1, car.airborne / 12);
+  ctx.save();
+  ctx.translate(car.x, car.y);
+  ctx.rotate(car.angle);
+
+  const shadowOffset = 3 + lift * 10;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+  ctx.fillRect(-car.width / 2 + shadowOffset, -car.height / 2 + shadowOffset, car.width, car.height);
+  ctx.scale(1 + lift * 0.2, 1 + lift * 0.2);
+
+  const healthPercent = getTotalHealth(car) / 100;
+  const r = parseInt(car.color.slice(1, 3), 16);
+  const g = parseInt(car.color.slice(3, 5), 16);
+  const b = parseInt(car.color.slice(5, 7), 16);
+
+  const darkenFactor = 0.3 + healthPercent * 0.7;
+  ctx.fillStyle = `rgb(${Math.round(r * darkenFactor)}, ${Math.round(g * darkenFactor)}, ${Math.round(b * darkenFactor)})`;
+  ctx.fillRect(-car.width / 2, -car.height / 2, car.width, car.height);
+
+  const drawDamageZone = (x: number, y: number, w: number, h: number, health: number) => {
+    if (health < 100) {
+      const damageIntensity = 1 - health / 100;
+      ctx.fillStyle = `rgba(0, 0, 0, ${damageIntensity * 0.5})`;
+      ctx.fillRect(x, y, w, h);
+
+      if (health < 70) {
+        ctx.strokeStyle = `rgba(50, 50, 50, ${damageIntensity})`;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(x + w * 0.2, y + h * 0.3);
+        ctx.lineTo(x + w * 0.8, y + h * 0.7);
+        ctx.stroke();
+      }
+      if (health < 40) {
+        ctx.beginPath();
+        ctx.moveTo(x + w * 0.7, y + h * 0.2);
+        ctx.lineTo(x + w * 0.3, y + h * 0.8);
+        ctx.stroke();
+      }
+    }
+  };
+
+  const hw = car.width / 2;
+  const hh = car.height / 2;
+  drawDamageZone(hw - 12, -hh, 12, car.height, car.health.front);
+  drawDamageZone(-hw, -hh, 12, car.height, car.health.rear);
+  drawDamageZone(-hw, -hh, car.width, 8, car.health.left);
+  drawDamageZone(-hw, hh - 8, car.width, 8, car.health.right);
+
+  ctx.strokeStyle = "#2c3e50";
+  ctx.lineWidth = 2;
+  ctx.strokeRect(-car.width / 2, -car.height / 2, car.width, car.height);
+
+  ctx.fillStyle = car.health.front > 30 ? "#3498db" : "#e74c3c";
+  ctx.fillRect(car.width / 2 - 10, -car.height / 2 + 4, 8, car.height - 8);
+
+  // A destroyed side has lost its wheels
+  ctx.fillStyle = "#2c3e50";
+  const wheelWidth = 8;
+  const wheelHeight = 5;
+  if (car.health.left > 0) {
+    ctx.fillRect(car.width / 4 - wheelWidth / 2, -car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
+    ctx.fillRect(-car.width / 4 - wheelWidth / 2, -car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
+  }
+  if (car.health.right > 0) {
+    ctx.fillRect(car.width / 4 - wheelWidth / 2, car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
+    ctx.fillRect(-car.width / 4 - wheelWidth / 2, car.height / 2 - wheelHeight / 2, wheelWidth, wheelHeight);
+  }
+
+  if (car.wrecked) {
+    ctx.strokeStyle = "rgba(20, 20, 20, 0.9)";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(-hw + 6, -hh + 6);
+    ctx.lineTo(hw - 6, hh - 6);
+    ctx.moveTo(hw - 6, -hh + 6);
+    ctx.lineTo(-hw + 6, hh - 6);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+};
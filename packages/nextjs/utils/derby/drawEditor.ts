@@ -0,0 +1,111 @@
+import { type Bounds, CAR_HEIGHT, CAR_WIDTH, type Circle, type Spawn, type Vec2 } from "@se-2/game-core";
+import { GRID_SIZE } from "~~/utils/derby/arenaEditor";
+
+const CLOSE_DISTANCE = 12;
+
+// Faint lines every grid step across the floor
+export const drawGrid = (ctx: CanvasRenderingContext2D, bounds: Bounds) => {
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = Math.ceil(bounds.minX / GRID_SIZE) * GRID_SIZE; x <= bounds.maxX; x += GRID_SIZE) {
+    ctx.moveTo(x, bounds.minY);
+    ctx.lineTo(x, bounds.maxY);
+  }
+  for (let y = Math.ceil(bounds.minY / GRID_SIZE) * GRID_SIZE; y <= bounds.maxY; y += GRID_SIZE) {
+    ctx.moveTo(bounds.minX, y);
+    ctx.lineTo(bounds.maxX, y);
+  }
+  ctx.stroke();
+};
+
+// Car-sized outlines where the cars start, numbered in the order cars take them, with an arrow the way they face
+export const drawSpawns = (ctx: CanvasRenderingContext2D, spawns: Spawn[]) => {
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  spawns.forEach((spawn, i) => {
+    ctx.save();
+    ctx.translate(spawn.x, spawn.y);
+    ctx.rotate(spawn.angle);
+    ctx.fillStyle = i === 0 ? "rgba(231, 76, 60, 0.45)" : "rgba(255, 255, 255, 0.3)";
+    ctx.strokeStyle = "#fff";
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.fillRect(-CAR_WIDTH / 2, -CAR_HEIGHT / 2, CAR_WIDTH, CAR_HEIGHT);
+    ctx.strokeRect(-CAR_WIDTH / 2, -CAR_HEIGHT / 2, CAR_WIDTH, CAR_HEIGHT);
+    ctx.setLineDash([]);
+    ctx.fillStyle = "#fff";
+    ctx.beginPath();
+    ctx.moveTo(CAR_WIDTH / 2 + 12, 0);
+    ctx.lineTo(CAR_WIDTH / 2 + 2, -7);
+    ctx.lineTo(CAR_WIDTH / 2 + 2, 7);
+    ctx.fill();
+    ctx.restore();
+    ctx.fillStyle = "#000";
+    ctx.font = "bold 14px monospace";
+    ctx.fillText(String(i + 1), spawn.x, spawn.y + 1);
+  });
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+};
+
+// The outline being clicked out, with a rubber band to the pointer and a ring on the first point to close it
+export const drawShapeInProgress = (ctx: CanvasRenderingContext2D, points: Vec2[], cursor: Vec2 | null) => {
+  if (points.length === 0) return;
+  ctx.strokeStyle = "#f1c40f";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  if (cursor) ctx.lineTo(cursor.x, cursor.y);
+  ctx.stroke();
+
+  ctx.fillStyle = "#f1c40f";
+  for (const point of points) {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  if (points.length >= 3) {
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, CLOSE_DISTANCE, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+};
+
+export const isClosingPoint = (points: Vec2[], point: Vec2) =>
+  points.length >= 3 && Math.hypot(points[0].x - point.x, points[0].y - point.y) < CLOSE_DISTANCE;
+
+// A dashed box being dragged out for a wall or surface
+export const drawDragBox = (ctx: CanvasRenderingContext2D, outline: Vec2[]) => {
+  ctx.strokeStyle = "#f1c40f";
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 6]);
+  ctx.beginPath();
+  outline.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+  ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+// A see-through pillar where one would go
+export const drawPillarGhost = (ctx: CanvasRenderingContext2D, pillar: Circle) => {
+  ctx.fillStyle = "rgba(149, 165, 166, 0.5)";
+  ctx.strokeStyle = "#fff";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(pillar.x, pillar.y, pillar.radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+};
+
+// A red cross over whatever the eraser would remove
+export const drawEraseMark = (ctx: CanvasRenderingContext2D, point: Vec2) => {
+  ctx.strokeStyle = "#e74c3c";
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.moveTo(point.x - 10, point.y - 10);
+  ctx.lineTo(point.x + 10, point.y + 10);
+  ctx.moveTo(point.x + 10, point.y - 10);
+  ctx.lineTo(point.x - 10, point.y + 10);
+  ctx.stroke();
+};
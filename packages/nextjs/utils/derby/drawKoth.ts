@@ -0,0 +1,53 @@
+import { CANVAS_WIDTH, type KothState, TICK_RATE, type World } from "@se-2/game-core";
+import { getCarLabel } from "~~/utils/derby/drawMatchOverlay";
+
+const ZONE_WARNING_TICKS = TICK_RATE * 3;
+
+// The scoring zone, tinted with the holder's colour and blinking just before it moves
+export const drawKothZone = (ctx: CanvasRenderingContext2D, state: KothState, world: World) => {
+  const { zone, holderId, contested } = state;
+  const holder = world.cars.find(car => car.id === holderId);
+  const ticksToMove = state.nextMoveTick - world.tick;
+  if (ticksToMove < ZONE_WARNING_TICKS && Math.floor(ticksToMove / 10) % 2 === 0) return;
+
+  ctx.save();
+  ctx.fillStyle = holder ? holder.color : contested ? "#e74c3c" : "#ffffff";
+  ctx.globalAlpha = 0.22;
+  ctx.beginPath();
+  ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.globalAlpha = 0.8;
+  ctx.strokeStyle = contested ? "#e74c3c" : "#fff";
+  ctx.lineWidth = 3;
+  ctx.setLineDash([12, 8]);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Score bars for every car, best first, filling up towards the target
+export const drawKothHud = (ctx: CanvasRenderingContext2D, state: KothState, world: World) => {
+  const barWidth = 120;
+  const x = CANVAS_WIDTH - barWidth - 30;
+  const cars = world.cars
+    .filter(car => !car.isStatic)
+    .sort((a, b) => (state.scores[b.id] ?? 0) - (state.scores[a.id] ?? 0));
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(x - 10, 28, barWidth + 20, cars.length * 18 + 22);
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 11px monospace";
+  ctx.fillText(`ZONE - ${Math.round(state.options.targetScore / TICK_RATE)}s TO WIN`, x - 6, 42);
+
+  cars.forEach((car, i) => {
+    const y = 50 + i * 18;
+    const progress = Math.min(1, (state.scores[car.id] ?? 0) / state.options.targetScore);
+    ctx.fillStyle = "#333";
+    ctx.fillRect(x, y, barWidth, 12);
+    ctx.fillStyle = car.color;
+    ctx.fillRect(x, y, barWidth * progress, 12);
+    ctx.fillStyle = car.wrecked ? "rgba(255, 255, 255, 0.4)" : "#fff";
+    ctx.font = car.id === state.holderId ? "bold 10px monospace" : "10px monospace";
+    ctx.fillText(getCarLabel(car.id), x + 4, y + 10);
+  });
+};
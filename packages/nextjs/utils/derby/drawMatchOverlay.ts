@@ -0,0 +1,191 @@
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  type MatchState,
+  PLAYER_ID,
+  TICK_RATE,
+  type World,
+  getCountdown,
+  getRoundTicksLeft,
+  getWinsNeeded,
+} from "@se-2/game-core";
+
+const CENTER_X = CANVAS_WIDTH / 2;
+const CENTER_Y = CANVAS_HEIGHT / 2;
+
+const formatClock = (ticks: number) => {
+  const seconds = Math.ceil(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export const getCarLabel = (carId: number | null) =>
+  carId === null ? "Nobody" : carId === PLAYER_ID ? "You" : `Car ${carId + 1}`;
+
+// In team modes the winning car id is the team captain's
+const getWinnerLabel = (carId: number | null, teamPlay: boolean) =>
+  teamPlay && carId !== null ? (carId === PLAYER_ID ? "Your team" : "The rivals") : getCarLabel(carId);
+
+export const formatOrdinal = (place: number) => {
+  const suffixes: Record<string, string> = { one: "st", two: "nd", few: "rd", other: "th" };
+  return `${place}${suffixes[new Intl.PluralRules("en", { type: "ordinal" }).select(place)]}`;
+};
+
+// Where the player finished (or is finishing) this round, counting from 1
+export const getPlayerPlacement = (match: MatchState, world: World) => {
+  const finished = match.phase === "roundOver" || match.phase === "results";
+  const placements = finished ? match.rounds[match.rounds.length - 1]?.placements : undefined;
+  if (placements) return placements.indexOf(PLAYER_ID) + 1;
+
+  const outAt = match.eliminated.indexOf(PLAYER_ID);
+  const carCount = world.cars.filter(car => !car.isStatic).length;
+  return outAt === -1 ? 1 : carCount - outAt;
+};
+
+const dim = (ctx: CanvasRenderingContext2D, opacity: number) => {
+  ctx.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+};
+
+const drawBanner = (ctx: CanvasRenderingContext2D, title: string, subtitle?: string, color = "#fff") => {
+  ctx.textAlign = "center";
+  ctx.fillStyle = color;
+  ctx.font = "bold 56px monospace";
+  ctx.fillText(title, CENTER_X, CENTER_Y);
+  if (subtitle) {
+    ctx.fillStyle = "#fff";
+    ctx.font = "18px monospace";
+    ctx.fillText(subtitle, CENTER_X, CENTER_Y + 40);
+  }
+  ctx.textAlign = "left";
+};
+
+// Round number, clock and a pip per round won along the top of the arena
+const drawScoreboard = (ctx: CanvasRenderingContext2D, match: MatchState, world: World, teamPlay: boolean) => {
+  const ticksLeft = getRoundTicksLeft(match);
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(CENTER_X - 110, 28, 220, 44);
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = "#fff";
+  ctx.font = "12px monospace";
+  ctx.fillText(`ROUND ${match.round} of ${match.settings.bestOf}`, CENTER_X, 44);
+  ctx.fillStyle = ticksLeft < TICK_RATE * 10 ? "#e74c3c" : "#fff";
+  ctx.font = "bold 20px monospace";
+  ctx.fillText(formatClock(ticksLeft), CENTER_X, 66);
+  ctx.textAlign = "left";
+
+  const winsNeeded = getWinsNeeded(match);
+  const cars = world.cars.filter(car => !car.isStatic);
+  const drawPips = (carId: number, color: string, side: 0 | 1) => {
+    for (let pip = 0; pip < winsNeeded; pip++) {
+      const x = side === 0 ? CENTER_X - 100 + pip * 14 : CENTER_X + 100 - pip * 14;
+      ctx.beginPath();
+      ctx.arc(x, 50, 5, 0, Math.PI * 2);
+      ctx.fillStyle = pip < (match.wins[carId] ?? 0) ? color : "rgba(255, 255, 255, 0.25)";
+      ctx.fill();
+    }
+  };
+
+  // Teams are captained by the first two cars
+  if (cars.length <= 2 || teamPlay) {
+    cars.slice(0, 2).forEach((car, side) => drawPips(car.id, car.color, side as 0 | 1));
+    return;
+  }
+
+  // Too many cars for pips each - show the player's wins and how many are still running
+  const player = cars.find(car => car.id === PLAYER_ID);
+  if (player) drawPips(player.id, player.color, 0);
+  ctx.textAlign = "right";
+  ctx.fillStyle = "#fff";
+  ctx.font = "12px monospace";
+  ctx.fillText(`${cars.filter(car => !car.wrecked).length} LEFT`, CENTER_X + 104, 54);
+  ctx.textAlign = "left";
+};
+
+/**
+ * Canvas side of the match lifecycle. Buttons live in the HTML menu on top.
+ * Single-run modes pass a `summary` of the run, which replaces the scoreboard and the round results.
+ */
+export const drawMatchOverlay = (
+  ctx: CanvasRenderingContext2D,
+  match: MatchState,
+  world: World,
+  teamPlay = false,
+  summary: string | null = null,
+) => {
+  switch (match.phase) {
+    case "lobby":
+      dim(ctx, 0.55);
+      ctx.textAlign = "center";
+      ctx.fillStyle = "#f1c40f";
+      ctx.font = "bold 64px monospace";
+      ctx.fillText("SMASH FEST", CENTER_X, 150);
+      ctx.textAlign = "left";
+      return;
+
+    case "countdown":
+      if (summary === null) drawScoreboard(ctx, match, world, teamPlay);
+      dim(ctx, 0.3);
+      drawBanner(ctx, String(getCountdown(match)), `Round ${match.round}`);
+      return;
+
+    case "playing":
+      if (summary === null) drawScoreboard(ctx, match, world, teamPlay);
+      // Flash GO for the first second of the round
+      if (match.phaseTick < TICK_RATE) {
+        ctx.globalAlpha = 1 - match.phaseTick / TICK_RATE;
+        drawBanner(ctx, "GO!", undefined, "#2ecc71");
+        ctx.globalAlpha = 1;
+      }
+      return;
+
+    case "roundOver": {
+      if (summary !== null) {
+        dim(ctx, 0.3);
+        drawBanner(ctx, "WRECKED", summary, "#e74c3c");
+        return;
+      }
+      drawScoreboard(ctx, match, world, teamPlay);
+      const { winnerId, timeUp, placements } = match.rounds[match.rounds.length - 1];
+      const subtitle = `${getWinnerLabel(winnerId, teamPlay)} took round ${match.round}${timeUp ? " on time" : ""}`;
+      dim(ctx, 0.3);
+      if (placements.length > 2 && !teamPlay) {
+        // Derby: everyone gets a placing, not just a win or a loss
+        const place = placements.indexOf(PLAYER_ID) + 1;
+        const title = place === 1 ? "LAST CAR STANDING" : `${formatOrdinal(place).toUpperCase()} PLACE`;
+        drawBanner(ctx, title, subtitle, place === 1 ? "#2ecc71" : "#fff");
+        return;
+      }
+      const title = winnerId === null ? "DRAW" : winnerId === PLAYER_ID ? "ROUND WON" : "ROUND LOST";
+      drawBanner(ctx, title, winnerId !== null ? subtitle : timeUp ? "Time up" : "Nobody survived");
+      return;
+    }
+
+    case "results": {
+      dim(ctx, 0.65);
+      if (summary !== null) {
+        drawBanner(ctx, "GAME OVER", summary);
+        return;
+      }
+      const won = match.matchWinnerId === PLAYER_ID;
+      const title = match.matchWinnerId === null ? "MATCH DRAWN" : won ? "VICTORY" : "DEFEAT";
+      ctx.textAlign = "center";
+      ctx.fillStyle = match.matchWinnerId === null ? "#fff" : won ? "#2ecc71" : "#e74c3c";
+      ctx.font = "bold 56px monospace";
+      ctx.fillText(title, CENTER_X, 140);
+
+      ctx.fillStyle = "#fff";
+      ctx.font = "16px monospace";
+      match.rounds.forEach((round, i) => {
+        const place =
+          round.placements.length > 2 && !teamPlay
+            ? ` - you ${formatOrdinal(round.placements.indexOf(PLAYER_ID) + 1)}`
+            : "";
+        ctx.fillText(`Round ${i + 1}: ${getWinnerLabel(round.winnerId, teamPlay)}${place}`, CENTER_X, 200 + i * 24);
+      });
+      ctx.textAlign = "left";
+      return;
+    }
+  }
+};
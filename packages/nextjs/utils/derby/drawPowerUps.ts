@@ -0,0 +1,132 @@
+import {
+  ARMOR_TICKS,
+  CANVAS_HEIGHT,
+  type Car,
+  NITRO_TICKS,
+  POWER_UP_RADIUS,
+  type PowerUpKind,
+  SHOCKWAVE_RADIUS,
+  TICK_RATE,
+  type World,
+} from "@se-2/game-core";
+
+export const PICKUP_FLASH_TICKS = 30;
+const EXPIRY_WARNING_TICKS = TICK_RATE * 3;
+
+// A ring bursting out from where a power-up was used
+export interface PickupFlash {
+  x: number;
+  y: number;
+  kind: PowerUpKind;
+  age: number;
+}
+
+const POWER_UP_STYLES: Record<PowerUpKind, { color: string; glyph: string; label: string }> = {
+  nitro: { color: "#e67e22", glyph: "N", label: "NITRO" },
+  armor: { color: "#3498db", glyph: "A", label: "ARMOR" },
+  repair: { color: "#2ecc71", glyph: "+", label: "REPAIR" },
+  shockwave: { color: "#9b59b6", glyph: "S", label: "SHOCKWAVE" },
+  oil: { color: "#34495e", glyph: "O", label: "OIL SLICK" },
+};
+
+// Pickups waiting on the floor, bobbing gently and blinking when they're about to vanish
+export const drawPowerUpPickups = (ctx: CanvasRenderingContext2D, world: World) => {
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  world.powerUps.forEach(powerUp => {
+    const ticksLeft = powerUp.expiresTick - world.tick;
+    if (ticksLeft < EXPIRY_WARNING_TICKS && Math.floor(ticksLeft / 8) % 2 === 0) return;
+
+    const style = POWER_UP_STYLES[powerUp.kind];
+    const radius = POWER_UP_RADIUS + Math.sin((world.tick + powerUp.id * 20) / 10) * 2;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+    ctx.beginPath();
+    ctx.arc(powerUp.x + 2, powerUp.y + 3, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = style.color;
+    ctx.strokeStyle = "#fff";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(powerUp.x, powerUp.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "#fff";
+    ctx.font = "bold 14px monospace";
+    ctx.fillText(style.glyph, powerUp.x, powerUp.y + 1);
+  });
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+};
+
+// Nitro flames out of the back and an armour shell around the car
+export const drawCarEffects = (ctx: CanvasRenderingContext2D, car: Car, tick: number) => {
+  if (car.wrecked || (car.effects.nitro <= 0 && car.effects.armor <= 0)) return;
+
+  ctx.save();
+  ctx.translate(car.x, car.y);
+  ctx.rotate(car.angle);
+  if (car.effects.nitro > 0) {
+    const flicker = 8 + (tick % 4) * 3;
+    ctx.fillStyle = "rgba(241, 196, 15, 0.85)";
+    ctx.beginPath();
+    ctx.moveTo(-car.width / 2, -car.height / 4);
+    ctx.lineTo(-car.width / 2 - flicker, 0);
+    ctx.lineTo(-car.width / 2, car.height / 4);
+    ctx.fill();
+  }
+  if (car.effects.armor > 0) {
+    // Blink for the last couple of seconds
+    const fading = car.effects.armor < TICK_RATE * 2 && Math.floor(car.effects.armor / 6) % 2 === 0;
+    ctx.strokeStyle = fading ? "rgba(52, 152, 219, 0.3)" : "rgba(52, 152, 219, 0.8)";
+    ctx.lineWidth = 3;
+    ctx.strokeRect(-car.width / 2 - 4, -car.height / 2 - 4, car.width + 8, car.height + 8);
+  }
+  ctx.restore();
+};
+
+// Rings from power-ups just used - the shockwave one spreads as far as it reaches
+export const drawPickupFlashes = (ctx: CanvasRenderingContext2D, flashes: PickupFlash[]) => {
+  flashes.forEach(({ x, y, kind, age }) => {
+    const progress = age / PICKUP_FLASH_TICKS;
+    const reach = kind === "shockwave" ? SHOCKWAVE_RADIUS : POWER_UP_RADIUS * 4;
+    ctx.globalAlpha = 1 - progress;
+    ctx.strokeStyle = POWER_UP_STYLES[kind].color;
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(x, y, POWER_UP_RADIUS + (reach - POWER_UP_RADIUS) * progress, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.fillStyle = "#fff";
+    ctx.font = "bold 12px monospace";
+    ctx.textAlign = "center";
+    ctx.fillText(POWER_UP_STYLES[kind].label, x, y - 24 - age * 0.5);
+    ctx.textAlign = "left";
+  });
+  ctx.globalAlpha = 1;
+};
+
+// Icons for the timed power-ups running on the HUD car, each with a bar for the time left
+export const drawEffectIcons = (ctx: CanvasRenderingContext2D, car: Car) => {
+  const running = [
+    { kind: "nitro" as const, left: car.effects.nitro / NITRO_TICKS },
+    { kind: "armor" as const, left: car.effects.armor / ARMOR_TICKS },
+  ].filter(effect => effect.left > 0);
+
+  running.forEach(({ kind, left }, i) => {
+    const x = 400 + i * 40;
+    const y = CANVAS_HEIGHT - 38;
+    const style = POWER_UP_STYLES[kind];
+    ctx.fillStyle = style.color;
+    ctx.beginPath();
+    ctx.arc(x, y, 12, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#fff";
+    ctx.font = "bold 12px monospace";
+    ctx.textAlign = "center";
+    ctx.fillText(style.glyph, x, y + 4);
+    ctx.textAlign = "left";
+    ctx.fillStyle = "#333";
+    ctx.fillRect(x - 12, y + 16, 24, 4);
+    ctx.fillStyle = style.color;
+    ctx.fillRect(x - 12, y + 16, 24 * left, 4);
+  });
+};
@@ -0,0 +1,117 @@
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  PLAYER_ID,
+  RACE_INFIELD,
+  type RaceGate,
+  type RaceState,
+  TICK_RATE,
+  type World,
+  getRaceStandings,
+} from "@se-2/game-core";
+import { formatOrdinal, getCarLabel } from "~~/utils/derby/drawMatchOverlay";
+
+const SPLIT_SHOW_TICKS = TICK_RATE * 2;
+
+const formatRaceTime = (ticks: number) => (ticks / TICK_RATE).toFixed(2);
+
+// Chequered strip along the start/finish line
+const drawFinishLine = (ctx: CanvasRenderingContext2D, gate: RaceGate) => {
+  const length = Math.hypot(gate.b.x - gate.a.x, gate.b.y - gate.a.y);
+  const square = 8;
+
+  ctx.save();
+  ctx.translate(gate.a.x, gate.a.y);
+  ctx.rotate(Math.atan2(gate.b.y - gate.a.y, gate.b.x - gate.a.x));
+  for (let along = 0; along < length; along += square) {
+    for (let row = 0; row < 2; row++) {
+      ctx.fillStyle = (along / square + row) % 2 === 0 ? "#fff" : "#111";
+      ctx.fillRect(along, (row - 1) * square, Math.min(square, length - along), square);
+    }
+  }
+  ctx.restore();
+};
+
+// Infield, checkpoint gates and the player's next gate picked out
+export const drawRaceTrack = (ctx: CanvasRenderingContext2D, state: RaceState) => {
+  const { gates } = state.options;
+  const nextGate = state.progress[PLAYER_ID]?.nextGate;
+
+  ctx.save();
+  ctx.fillStyle = "rgba(46, 204, 113, 0.25)";
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.6)";
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.ellipse(RACE_INFIELD.x, RACE_INFIELD.y, RACE_INFIELD.radiusX, RACE_INFIELD.radiusY, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  gates.forEach((gate, i) => {
+    if (i === 0) return;
+    ctx.strokeStyle = i === nextGate ? "rgba(241, 196, 15, 0.9)" : "rgba(255, 255, 255, 0.3)";
+    ctx.lineWidth = i === nextGate ? 4 : 2;
+    ctx.setLineDash([10, 8]);
+    ctx.beginPath();
+    ctx.moveTo(gate.a.x, gate.a.y);
+    ctx.lineTo(gate.b.x, gate.b.y);
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+  ctx.restore();
+
+  drawFinishLine(ctx, gates[0]);
+};
+
+// Lap, position and timing for the player, the running order, and a warning when they're heading backwards
+export const drawRaceHud = (ctx: CanvasRenderingContext2D, state: RaceState, world: World) => {
+  const racer = state.progress[PLAYER_ID];
+  const standings = getRaceStandings(state, world);
+  if (!racer) return;
+
+  const { laps } = state.options;
+  const position = standings.indexOf(PLAYER_ID) + 1;
+  const lapTicks = racer.finishedTick === null ? world.tick - racer.lapStartTick : 0;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(20, 28, 170, 82);
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 16px monospace";
+  ctx.fillText(`LAP ${Math.min(laps, racer.lap + 1)}/${laps}`, 30, 48);
+  ctx.fillText(`${formatOrdinal(position).toUpperCase()} of ${standings.length}`, 30, 68);
+  ctx.font = "12px monospace";
+  ctx.fillText(`TIME ${formatRaceTime(lapTicks)}`, 30, 86);
+  ctx.fillText(`BEST ${racer.bestLap === null ? "-" : formatRaceTime(racer.bestLap)}`, 30, 102);
+
+  // Split against the best lap, shown for a moment after each gate
+  const splitIndex = racer.splits.length - 1;
+  const lastSplit = racer.splits[splitIndex];
+  const bestSplit = racer.bestSplits[splitIndex];
+  if (lastSplit !== undefined && bestSplit !== undefined && lapTicks - lastSplit < SPLIT_SHOW_TICKS) {
+    const delta = lastSplit - bestSplit;
+    ctx.fillStyle = delta <= 0 ? "#2ecc71" : "#e74c3c";
+    ctx.font = "bold 14px monospace";
+    ctx.fillText(`${delta <= 0 ? "-" : "+"}${formatRaceTime(Math.abs(delta))}`, 120, 48);
+  }
+
+  // Running order down the right-hand side
+  const x = CANVAS_WIDTH - 150;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(x - 10, 28, 140, standings.length * 16 + 10);
+  standings.forEach((carId, i) => {
+    const car = world.cars.find(candidate => candidate.id === carId);
+    const progress = state.progress[carId];
+    ctx.fillStyle = car?.wrecked ? "rgba(255, 255, 255, 0.4)" : (car?.color ?? "#fff");
+    ctx.font = carId === PLAYER_ID ? "bold 11px monospace" : "11px monospace";
+    const status = progress?.finishedTick !== null ? "FIN" : `L${(progress?.lap ?? 0) + 1}`;
+    ctx.fillText(`${i + 1}. ${getCarLabel(carId)}`, x, 44 + i * 16);
+    ctx.fillText(status, x + 95, 44 + i * 16);
+  });
+
+  if (racer.wrongWay && Math.floor(world.tick / 15) % 2 === 0) {
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#e74c3c";
+    ctx.font = "bold 40px monospace";
+    ctx.fillText("WRONG WAY", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 40);
+    ctx.textAlign = "left";
+  }
+};
@@ -0,0 +1,114 @@
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  type CarScore,
+  HIT_CLASSES,
+  type HitClass,
+  PLAYER_ID,
+  type ScoreCallout,
+  type ScoreState,
+  type World,
+} from "@se-2/game-core";
+import { formatOrdinal } from "~~/utils/derby/drawMatchOverlay";
+
+export const SCORE_POPUP_TICKS = 75;
+
+export interface ScorePopup {
+  x: number;
+  y: number;
+  callout: ScoreCallout;
+  age: number;
+}
+
+const CALLOUT_LABELS: Record<HitClass | "wreck", string> = {
+  headOn: "HEAD-ON",
+  tbone: "T-BONE",
+  rearEnd: "REAR-END",
+  sideswipe: "SIDESWIPE",
+  glancing: "GLANCING",
+  wreck: "WRECKED!",
+};
+
+const CALLOUT_COLORS: Record<HitClass | "wreck", string> = {
+  headOn: "#e67e22",
+  tbone: "#f1c40f",
+  rearEnd: "#3498db",
+  sideswipe: "#9b59b6",
+  glancing: "#bdc3c7",
+  wreck: "#2ecc71",
+};
+
+// Hit name and points floating up from the impact, above the damage numbers
+export const drawScorePopups = (ctx: CanvasRenderingContext2D, popups: ScorePopup[]) => {
+  ctx.textAlign = "center";
+  popups.forEach(({ x, y, callout, age }) => {
+    ctx.globalAlpha = 1 - age / SCORE_POPUP_TICKS;
+    ctx.fillStyle = CALLOUT_COLORS[callout.kind];
+    ctx.font = callout.kind === "wreck" ? "bold 22px monospace" : "bold 16px monospace";
+    ctx.fillText(CALLOUT_LABELS[callout.kind], x, y);
+    ctx.fillStyle = "#fff";
+    ctx.font = "bold 12px monospace";
+    const combo = callout.multiplier > 1 ? ` x${callout.multiplier.toFixed(1)}` : "";
+    ctx.fillText(`+${callout.points}${combo}`, x, y + 14);
+  });
+  ctx.globalAlpha = 1;
+  ctx.textAlign = "left";
+};
+
+// Running total and live combo beside the speed bar
+export const drawScoreTicker = (ctx: CanvasRenderingContext2D, score: CarScore | undefined) => {
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 14px monospace";
+  ctx.fillText(`${score?.total ?? 0} PTS`, 190, CANVAS_HEIGHT - 27);
+  if (score && score.combo > 1) {
+    ctx.fillStyle = "#f1c40f";
+    ctx.fillText(`COMBO ${score.combo}`, 290, CANVAS_HEIGHT - 27);
+  }
+};
+
+// The player's match score broken down by kind of hit, under the results
+export const drawScoreBreakdown = (ctx: CanvasRenderingContext2D, scores: ScoreState, world: World) => {
+  const score = scores.cars[PLAYER_ID];
+  const total = score?.total ?? 0;
+  const rivals = world.cars.filter(car => !car.isStatic && car.id !== PLAYER_ID);
+  const place = 1 + rivals.filter(car => (scores.cars[car.id]?.total ?? 0) > total).length;
+
+  const cells = [
+    ...HIT_CLASSES.map(hitClass => ({
+      label: CALLOUT_LABELS[hitClass],
+      count: score?.hits[hitClass].count ?? 0,
+      points: score?.hits[hitClass].points ?? 0,
+      color: CALLOUT_COLORS[hitClass],
+    })),
+    { label: "WRECKS", count: score?.wrecks ?? 0, points: score?.wreckPoints ?? 0, color: CALLOUT_COLORS.wreck },
+  ];
+  const cellWidth = 110;
+  const left = CANVAS_WIDTH / 2 - (cells.length * cellWidth) / 2;
+  const top = 380;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(left - 10, top - 28, cells.length * cellWidth + 20, 100);
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 16px monospace";
+  const standing = rivals.length > 0 ? ` - ${formatOrdinal(place)} of ${rivals.length + 1}` : "";
+  ctx.fillText(`SCORE ${total}${standing}`, CANVAS_WIDTH / 2, top - 8);
+
+  cells.forEach((cell, i) => {
+    const x = left + cellWidth * (i + 0.5);
+    ctx.fillStyle = cell.color;
+    ctx.font = "bold 11px monospace";
+    ctx.fillText(cell.label, x, top + 16);
+    ctx.fillStyle = "#fff";
+    ctx.font = "14px monospace";
+    ctx.fillText(`${cell.count}`, x, top + 34);
+    ctx.font = "11px monospace";
+    ctx.fillText(`${cell.points} pts`, x, top + 50);
+  });
+
+  ctx.fillStyle = "#f1c40f";
+  ctx.font = "12px monospace";
+  ctx.fillText(`BEST COMBO ${score?.bestCombo ?? 0}`, CANVAS_WIDTH / 2, top + 66);
+  ctx.textAlign = "left";
+};
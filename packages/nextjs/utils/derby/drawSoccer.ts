@@ -0,0 +1,45 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, type SoccerState, TEAM_COLORS, TICK_RATE, type World } from "@se-2/game-core";
+
+const GOAL_BANNER_TICKS = TICK_RATE * 1.5;
+
+// Halfway line and centre circle
+export const drawSoccerPitch = (ctx: CanvasRenderingContext2D) => {
+  ctx.save();
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.35)";
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.moveTo(CANVAS_WIDTH / 2, 0);
+  ctx.lineTo(CANVAS_WIDTH / 2, CANVAS_HEIGHT);
+  ctx.moveTo(CANVAS_WIDTH / 2 + 70, CANVAS_HEIGHT / 2);
+  ctx.arc(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, 70, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Goals either side of the round clock, and a banner while everyone lines up after a goal
+export const drawSoccerHud = (ctx: CanvasRenderingContext2D, state: SoccerState, world: World) => {
+  const centerX = CANVAS_WIDTH / 2;
+
+  ctx.textAlign = "center";
+  ctx.font = "bold 28px monospace";
+  ctx.fillStyle = TEAM_COLORS[0];
+  ctx.fillText(String(state.score[0]), centerX - 140, 62);
+  ctx.fillStyle = TEAM_COLORS[1];
+  ctx.fillText(String(state.score[1]), centerX + 140, 62);
+  ctx.font = "10px monospace";
+  ctx.fillStyle = "#fff";
+  ctx.fillText(`FIRST TO ${state.options.targetGoals}`, centerX, 86);
+
+  const { lastGoal } = state;
+  if (lastGoal && world.tick - lastGoal.tick < GOAL_BANNER_TICKS) {
+    ctx.globalAlpha = 1 - (world.tick - lastGoal.tick) / GOAL_BANNER_TICKS;
+    ctx.fillStyle = TEAM_COLORS[lastGoal.team];
+    ctx.font = "bold 56px monospace";
+    ctx.fillText("GOAL!", centerX, CANVAS_HEIGHT / 2 - 60);
+    ctx.font = "18px monospace";
+    ctx.fillStyle = "#fff";
+    ctx.fillText(lastGoal.team === 0 ? "Your team scores" : "The rivals score", centerX, CANVAS_HEIGHT / 2 - 24);
+    ctx.globalAlpha = 1;
+  }
+  ctx.textAlign = "left";
+};
@@ -0,0 +1,49 @@
+import {
+  CANVAS_WIDTH,
+  PLAYER_ID,
+  type SurvivalState,
+  TICK_RATE,
+  type World,
+  getIntermissionTicksLeft,
+} from "@se-2/game-core";
+import type { SurvivalScore } from "~~/utils/derby/survivalScores";
+
+// Wave, score and the best run so far, plus a breather banner between waves
+export const drawSurvivalHud = (
+  ctx: CanvasRenderingContext2D,
+  state: SurvivalState,
+  world: World,
+  best: SurvivalScore | null,
+) => {
+  const left = world.cars.filter(car => state.hostiles[car.id] && !car.wrecked).length;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.fillRect(20, 28, 170, 82);
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 16px monospace";
+  ctx.fillText(`WAVE ${Math.max(1, state.wave)}`, 30, 48);
+  ctx.fillText(`${state.score} PTS`, 30, 68);
+  ctx.font = "12px monospace";
+  ctx.fillText(`KILLS ${state.kills}  LEFT ${state.phase === "wave" ? left : 0}`, 30, 86);
+  ctx.fillStyle = best && state.score > best.score ? "#2ecc71" : "#fff";
+  ctx.fillText(`BEST ${best ? `${best.score} (wave ${best.waves})` : "-"}`, 30, 102);
+
+  if (state.phase !== "intermission" || state.wave === 0) return;
+
+  const ticksLeft = getIntermissionTicksLeft(state, world);
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = "#2ecc71";
+  ctx.font = "bold 36px monospace";
+  ctx.fillText(`WAVE ${state.wave} CLEARED`, CANVAS_WIDTH / 2, 130);
+  ctx.fillStyle = "#fff";
+  ctx.font = "16px monospace";
+  const player = world.cars.find(car => car.id === PLAYER_ID);
+  const repairing = player && Object.values(player.health).some(health => health < 100);
+  ctx.fillText(
+    `Next wave in ${Math.ceil(ticksLeft / TICK_RATE)}${repairing ? " - repairing" : ""}`,
+    CANVAS_WIDTH / 2,
+    156,
+  );
+  ctx.textAlign = "left";
+};
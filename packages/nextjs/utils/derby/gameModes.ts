@@ -0,0 +1,303 @@
+import {
+  type AiDifficulty,
+  type ArenaLayout,
+  type BombTagState,
+  type Controller,
+  DEFAULT_POWER_UP_RULES,
+  DEFAULT_SUMO_OPTIONS,
+  type DerbyOpponentKind,
+  type KothState,
+  LAST_CAR_STANDING,
+  type PowerUpRules,
+  type RaceState,
+  type RoundRules,
+  type SoccerState,
+  type SumoOptions,
+  type SurvivalState,
+  TICK_RATE,
+  type World,
+  createAiDriver,
+  createArenaWorld,
+  createBombTagControllers,
+  createBombTagState,
+  createBombTagWorld,
+  createDefaultCars,
+  createDerbyControllers,
+  createDerbyWorld,
+  createKothControllers,
+  createKothState,
+  createKothWorld,
+  createRaceControllers,
+  createRaceState,
+  createRaceWorld,
+  createSoccerControllers,
+  createSoccerState,
+  createSoccerWorld,
+  createSumoControllers,
+  createSumoWorld,
+  createSurvivalControllers,
+  createSurvivalState,
+  createSurvivalWorld,
+  generateArena,
+  getBundledArena,
+  getKothRules,
+  getRaceRules,
+  getSoccerRules,
+  getSurvivalRules,
+  isKickoffPause,
+  loadArena,
+  parseArenaCode,
+  updateBombTag,
+  updateKoth,
+  updateRace,
+  updateSoccer,
+  updateSumo,
+  updateSurvival,
+} from "@se-2/game-core";
+import { drawBombTagHud } from "~~/utils/derby/drawBombTag";
+import { drawKothHud, drawKothZone } from "~~/utils/derby/drawKoth";
+import { drawRaceHud, drawRaceTrack } from "~~/utils/derby/drawRace";
+import { drawSoccerHud, drawSoccerPitch } from "~~/utils/derby/drawSoccer";
+import { drawSurvivalHud } from "~~/utils/derby/drawSurvival";
+import { type SurvivalScore, loadSurvivalScores, saveSurvivalScore } from "~~/utils/derby/survivalScores";
+
+export type GameModeId = "duel" | "derby" | "koth" | "soccer" | "race" | "sumo" | "bombTag" | "survival";
+
+export type GameModeConfig = {
+  id: GameModeId;
+  label: string;
+  // Rival counts offered in the lobby, if the mode lets you pick
+  opponentOptions?: number[];
+  defaultOpponents?: number;
+  // Whether rivals can be swapped for idle cars
+  allowIdle?: boolean;
+  // One long round with no clock, so there's no best-of or round length to pick
+  singleRun?: boolean;
+  // Whether the mode can be played in any arena, rather than laying out its own
+  customArena?: boolean;
+  // Changes to the default power-up drops, for modes where some pickups don't fit
+  powerUps?: Partial<PowerUpRules>;
+};
+
+export const GAME_MODES: GameModeConfig[] = [
+  { id: "duel", label: "Duel", customArena: true },
+  {
+    id: "derby",
+    label: "Derby",
+    opponentOptions: [5, 7, 9, 11],
+    defaultOpponents: 7,
+    allowIdle: true,
+    customArena: true,
+    powerUps: { maxOnField: 3 },
+  },
+  { id: "koth", label: "King of the hill", opponentOptions: [1, 2, 3, 5], defaultOpponents: 3 },
+  // Rivals make up the other team, and the player gets one fewer team-mate than that
+  {
+    id: "soccer",
+    label: "Soccer",
+    opponentOptions: [1, 2, 3],
+    defaultOpponents: 1,
+    powerUps: { kinds: ["nitro", "shockwave"] },
+  },
+  {
+    id: "race",
+    label: "Race",
+    opponentOptions: [1, 3, 5],
+    defaultOpponents: 3,
+    powerUps: { kinds: ["nitro"], intervalTicks: TICK_RATE * 5 },
+  },
+  // Falls decide sumo, so only the pickups that move cars around
+  {
+    id: "sumo",
+    label: "Sumo",
+    opponentOptions: [1, 3, 5, 7],
+    defaultOpponents: 3,
+    powerUps: { kinds: ["nitro", "shockwave"] },
+  },
+  {
+    id: "bombTag",
+    label: "Bomb tag",
+    opponentOptions: [2, 3, 5, 7],
+    defaultOpponents: 3,
+    powerUps: { kinds: ["nitro", "armor", "shockwave", "oil"] },
+  },
+  { id: "survival", label: "Survival", singleRun: true, powerUps: { intervalTicks: TICK_RATE * 12, maxOnField: 1 } },
+];
+
+export const getModeConfig = (id: GameModeId) => GAME_MODES.find(mode => mode.id === id) ?? GAME_MODES[0];
+
+export const getPowerUpRules = (id: GameModeId): PowerUpRules => ({
+  ...DEFAULT_POWER_UP_RULES,
+  ...getModeConfig(id).powerUps,
+});
+
+export type GameSettings = {
+  mode: GameModeId;
+  difficulty: AiDifficulty;
+  opponents: number;
+  opponentKind: DerbyOpponentKind;
+  bestOf: number;
+  roundSeconds: number;
+  arena: string; // Name of the bundled arena, or GENERATED_ARENA, for modes that can be played in any
+  arenaCode: string; // Seed code for the generated arena
+};
+
+// Picked in place of a bundled arena name to play in the arena generated from `arenaCode`
+export const GENERATED_ARENA = "generated";
+
+const getArenaLayout = (settings: GameSettings): ArenaLayout => {
+  const generated = settings.arena === GENERATED_ARENA ? parseArenaCode(settings.arenaCode) : null;
+  return loadArena(generated ? generateArena(generated.seed, generated.options) : getBundledArena(settings.arena));
+};
+
+// Rules state for the round in progress, alongside the physics world
+export type ModeState =
+  | { id: "duel" }
+  | { id: "derby" }
+  | { id: "koth"; koth: KothState }
+  | { id: "soccer"; soccer: SoccerState }
+  | { id: "race"; race: RaceState }
+  | { id: "sumo"; sumo: SumoOptions }
+  | { id: "bombTag"; bombTag: BombTagState }
+  // `best` is the top local score when the run started, `rank` where this run placed once it's over
+  | { id: "survival"; survival: SurvivalState; best: SurvivalScore | null; rank: number | null };
+
+const AI_CAR_ID = 1;
+
+/**
+ * A fresh arena, drivers and mode state for one round. `modeRef` is where the page keeps the live mode state,
+ * so drivers that chase an objective always see the current one.
+ */
+export const createRound = (
+  settings: GameSettings,
+  seed: number,
+  modeRef: { current: ModeState },
+): { world: World; controllers: Record<number, Controller>; mode: ModeState } => {
+  switch (settings.mode) {
+    case "derby": {
+      const world = createDerbyWorld(seed, settings, getArenaLayout(settings));
+      return { world, controllers: createDerbyControllers(world, seed, settings), mode: { id: "derby" } };
+    }
+
+    case "koth": {
+      const koth = createKothState(seed, settings);
+      const world = createKothWorld(seed, settings);
+      const getState = () => (modeRef.current.id === "koth" ? modeRef.current.koth : koth);
+      return { world, controllers: createKothControllers(world, seed, getState, settings), mode: { id: "koth", koth } };
+    }
+
+    case "soccer": {
+      const options = { teamSize: settings.opponents, difficulty: settings.difficulty };
+      const world = createSoccerWorld(seed, options);
+      return {
+        world,
+        controllers: createSoccerControllers(world, seed, options),
+        mode: { id: "soccer", soccer: createSoccerState(options) },
+      };
+    }
+
+    case "race": {
+      const world = createRaceWorld(seed, settings);
+      const race = createRaceState(world, settings);
+      const getState = () => (modeRef.current.id === "race" ? modeRef.current.race : race);
+      return { world, controllers: createRaceControllers(world, seed, getState, settings), mode: { id: "race", race } };
+    }
+
+    case "sumo": {
+      const sumo = { ...DEFAULT_SUMO_OPTIONS, ...settings };
+      const world = createSumoWorld(seed, sumo);
+      return { world, controllers: createSumoControllers(world, seed, sumo), mode: { id: "sumo", sumo } };
+    }
+
+    case "bombTag": {
+      const world = createBombTagWorld(seed, settings);
+      const bombTag = createBombTagState(seed, world, settings);
+      const getState = () => (modeRef.current.id === "bombTag" ? modeRef.current.bombTag : bombTag);
+      return {
+        world,
+        controllers: createBombTagControllers(world, seed, getState, settings),
+        mode: { id: "bombTag", bombTag },
+      };
+    }
+
+    case "survival": {
+      const survival = createSurvivalState(seed, { difficulty: settings.difficulty });
+      const getState = () => (modeRef.current.id === "survival" ? modeRef.current.survival : survival);
+      return {
+        world: createSurvivalWorld(seed),
+        controllers: createSurvivalControllers(seed, getState),
+        mode: { id: "survival", survival, best: loadSurvivalScores()[0] ?? null, rank: null },
+      };
+    }
+
+    default:
+      return {
+        world: createArenaWorld(seed, getArenaLayout(settings), createDefaultCars()),
+        controllers: { [AI_CAR_ID]: createAiDriver(AI_CAR_ID, settings.difficulty, seed) },
+        mode: { id: "duel" },
+      };
+  }
+};
+
+// Run the mode's rules for one tick of play. Some modes move things around (a soccer kickoff), so the world comes back too.
+export const updateMode = (mode: ModeState, world: World): { mode: ModeState; world: World } => {
+  if (mode.id === "koth") return { mode: { ...mode, koth: updateKoth(mode.koth, world) }, world };
+  if (mode.id === "race") return { mode: { ...mode, race: updateRace(mode.race, world) }, world };
+  if (mode.id === "sumo") return { mode, world: updateSumo(mode.sumo, world) };
+  if (mode.id === "bombTag") {
+    const next = updateBombTag(mode.bombTag, world);
+    return { mode: { ...mode, bombTag: next.state }, world: next.world };
+  }
+  if (mode.id === "soccer") {
+    const next = updateSoccer(mode.soccer, world);
+    return { mode: { ...mode, soccer: next.state }, world: next.world };
+  }
+  if (mode.id === "survival") {
+    const next = updateSurvival(mode.survival, world);
+    return { mode: { ...mode, survival: next.state }, world: next.world };
+  }
+  return { mode, world };
+};
+
+// Keep anything worth remembering once a round is over - survival runs go on the local high score table
+export const recordModeResult = (mode: ModeState): ModeState =>
+  mode.id === "survival" ? { ...mode, rank: saveSurvivalScore(mode.survival) } : mode;
+
+// Result line for single-run modes, shown in place of round wins and the clock
+export const getModeSummary = (mode: ModeState): string | null => {
+  if (mode.id !== "survival") return null;
+  const { wavesSurvived, score } = mode.survival;
+  const place = mode.rank === 1 ? " - NEW HIGH SCORE!" : mode.rank !== null ? ` - #${mode.rank} on this device` : "";
+  return `Survived ${wavesSurvived} ${wavesSurvived === 1 ? "wave" : "waves"} - ${score} pts${place}`;
+};
+
+// Whether drivers are held still for now even though the round is running
+export const isModePaused = (mode: ModeState, world: World) =>
+  mode.id === "soccer" && isKickoffPause(mode.soccer, world);
+
+// Modes where the round winner stands for a whole team
+export const isTeamMode = (mode: ModeState) => mode.id === "soccer";
+
+export const getModeRules = (mode: ModeState): RoundRules => {
+  if (mode.id === "koth") return getKothRules(mode.koth);
+  if (mode.id === "soccer") return getSoccerRules(mode.soccer);
+  if (mode.id === "race") return getRaceRules(mode.race);
+  if (mode.id === "survival") return getSurvivalRules();
+  return LAST_CAR_STANDING;
+};
+
+// Mode scenery drawn on the arena floor, under the cars
+export const drawModeFloor = (ctx: CanvasRenderingContext2D, mode: ModeState, world: World) => {
+  if (mode.id === "koth") drawKothZone(ctx, mode.koth, world);
+  if (mode.id === "soccer") drawSoccerPitch(ctx);
+  if (mode.id === "race") drawRaceTrack(ctx, mode.race);
+};
+
+// Mode scores and indicators drawn over everything else
+export const drawModeHud = (ctx: CanvasRenderingContext2D, mode: ModeState, world: World) => {
+  if (mode.id === "koth") drawKothHud(ctx, mode.koth, world);
+  if (mode.id === "soccer") drawSoccerHud(ctx, mode.soccer, world);
+  if (mode.id === "race") drawRaceHud(ctx, mode.race, world);
+  if (mode.id === "bombTag") drawBombTagHud(ctx, mode.bombTag, world);
+  if (mode.id === "survival") drawSurvivalHud(ctx, mode.survival, world, mode.best);
+};
@@ -0,0 +1,56 @@
+import type { AiDifficulty, SurvivalState } from "@se-2/game-core";
+
+export type SurvivalScore = {
+  score: number;
+  waves: number;
+  kills: number;
+  difficulty: AiDifficulty;
+  date: number;
+};
+
+const STORAGE_KEY = "smashFest.survivalScores";
+const MAX_SCORES = 5;
+
+const isScore = (value: unknown): value is SurvivalScore =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as SurvivalScore).score === "number" &&
+  typeof (value as SurvivalScore).waves === "number";
+
+// Best runs on this device, best first. Anything unreadable counts as no scores yet.
+export const loadSurvivalScores = (): SurvivalScore[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isScore) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Add a finished run to the table, keeping the best few. Returns the run's place in the table (1 is the best),
+ * or null if it didn't make it. Runs that never cleared a wave aren't worth keeping.
+ */
+export const saveSurvivalScore = (state: SurvivalState): number | null => {
+  if (state.wavesSurvived === 0 || typeof window === "undefined") return null;
+
+  const run: SurvivalScore = {
+    score: state.score,
+    waves: state.wavesSurvived,
+    kills: state.kills,
+    difficulty: state.options.difficulty,
+    date: Date.now(),
+  };
+  const scores = [...loadSurvivalScores(), run]
+    .sort((a, b) => b.score - a.score || b.waves - a.waves)
+    .slice(0, MAX_SCORES);
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scores));
+  } catch {
+    // Storage full or blocked - the run still counts for this session's summary
+  }
+  const place = scores.indexOf(run);
+  return place === -1 ? null : place + 1;
+};